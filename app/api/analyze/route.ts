@@ -12,6 +12,7 @@ export async function POST(request: NextRequest) {
 
     const complianceOptions: ComplianceOptions = {
       wcagLevel: body.wcagLevel || "aa",
+      wcagVersion: body.wcagVersion,
       section508: body.section508 || false,
       bestPractices: body.bestPractices !== undefined ? body.bestPractices : true,
       experimental: body.experimental || false,
@@ -1,27 +1,40 @@
 import { NextRequest, NextResponse } from "next/server"
-import { chromium, Browser, Page } from "playwright-core"
+import { acquireBrowserContext, PooledContext } from "@/lib/browser-pool"
+import { applyAuthHeaders, authContextOptions, getProjectAuthSession, getProjectOrigins } from "@/lib/auth-session"
+import { viewportContextOptions } from "@/lib/viewports"
+import { locateElement } from "@/lib/element-selector"
 
 export async function POST(request: NextRequest) {
-  let browser: Browser | null = null
+  let pooledContext: PooledContext | null = null
   
   try {
-    const { url, elementPath, element } = await request.json()
+    const { url, elementPath, element, projectId, viewport } = await request.json()
 
     if (!url) {
       return NextResponse.json({ error: "URL is required" }, { status: 400 })
     }
 
-    // Launch browser
-    browser = await chromium.launch({ 
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
-    })
-    
-    const context = await browser.newContext()
-    const page = await context.newPage()
+    // Pages behind a login need the project's session to render the element at all, which
+    // must only ever be used on the project's own pages
+    if (projectId) {
+      const origins = await getProjectOrigins(projectId)
+      let origin: string | null = null
+      try {
+        origin = new URL(url).origin
+      } catch {}
+      if (!origin || !origins.includes(origin)) {
+        return NextResponse.json({ error: "URL does not belong to the project" }, { status: 400 })
+      }
+    }
+    const auth = projectId ? await getProjectAuthSession(projectId) : null
 
-    // Set viewport for consistent screenshots
-    await page.setViewportSize({ width: 1280, height: 720 })
+    // Borrow a context from the shared browser pool, rendered with the profile the issue was found in
+    pooledContext = await acquireBrowserContext({
+      ...viewportContextOptions(viewport),
+      ...authContextOptions(auth)
+    })
+    await applyAuthHeaders(pooledContext.context, auth)
+    const page = await pooledContext.context.newPage()
 
     // Navigate to the URL
     await page.goto(url, { waitUntil: "networkidle", timeout: 30000 })
@@ -32,10 +45,10 @@ export async function POST(request: NextRequest) {
     try {
       let elementHandle = null
 
-      // Strategy 1: Use element path if available
+      // Strategy 1: Use element path if available; composite paths reach into iframes and shadow roots
       if (elementPath) {
         try {
-          elementHandle = await page.$(elementPath)
+          elementHandle = await locateElement(page, elementPath).elementHandle({ timeout: 5000 })
         } catch (e) {
           console.warn('Failed to find element by path:', elementPath)
         }
@@ -93,12 +106,8 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   } finally {
-    if (browser) {
-      try {
-        await browser.close()
-      } catch (closeError) {
-        console.warn('Error closing browser:', closeError)
-      }
+    if (pooledContext) {
+      await pooledContext.release()
     }
   }
 }
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { MAX_CRAWL_DEPTH, MAX_CRAWL_PAGES, crawlSite } from '@/lib/crawler';
+
+const CrawlRequestSchema = z.object({
+  url: z.string().url(),
+  scope: z.enum(['same-origin', 'subdomains']).default('same-origin'),
+  include: z.array(z.string()).default([]),
+  exclude: z.array(z.string()).default([]),
+  maxDepth: z.number().int().min(0).max(MAX_CRAWL_DEPTH).default(3),
+  maxPages: z.number().int().min(1).max(MAX_CRAWL_PAGES).default(10),
+  respectRobots: z.boolean().default(true),
+  dedupeQueryVariants: z.boolean().default(true),
+});
+
+export async function POST(req: Request) {
+  try {
+    const parsed = CrawlRequestSchema.safeParse(await req.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid crawl options', details: parsed.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { url, ...options } = parsed.data;
+    const result = await crawlSite({ startUrl: url, ...options });
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error('Crawl error:', error);
+    return NextResponse.json(
+      { error: 'Failed to crawl site' },
+      { status: 500 }
+    );
+  }
+}
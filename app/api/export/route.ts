@@ -4,6 +4,8 @@ import * as ExcelJS from 'exceljs'
 import * as fs from 'fs/promises'
 import * as path from 'path'
 import { PDFDocument, rgb, StandardFonts } from 'pdf-lib'
+import { getResultKey } from "@/lib/rule-catalog"
+import { getDefaultRunId } from "@/lib/scan-runs"
 
 // Function to estimate fix time based on issue severity and type
 function estimateFixTime(result: any): string {
@@ -70,10 +72,13 @@ export async function GET(request: NextRequest) {
     const exportAll = searchParams.has('exportAll') ? true : false;
     const projectId = searchParams.get('projectId');
     const scanId = searchParams.get('scanId');
+    const runId = searchParams.get('runId');
     
     // Handle array parameters (severityFilters and complianceFilters)
     const severityFilters = searchParams.getAll('severityFilters');
     const complianceFilters = searchParams.getAll('complianceFilters');
+    const ruleFilters = searchParams.getAll('ruleFilters');
+    const criteriaFilters = searchParams.getAll('criteriaFilters');
     
     // Build where clause for filtering
     let whereClause: any = {};
@@ -82,8 +87,11 @@ export async function GET(request: NextRequest) {
     if (scanId) {
       whereClause.scanId = scanId;
     } else if (projectId) {
+      // Project exports cover one run, the latest unless another is requested
+      const exportRunId = runId || await getDefaultRunId(projectId);
       whereClause.scan = {
-        projectId: projectId
+        projectId: projectId,
+        ...(exportRunId && { runId: exportRunId })
       };
     }
     
@@ -93,7 +101,8 @@ export async function GET(request: NextRequest) {
         { message: { contains: search, mode: 'insensitive' } },
         { url: { contains: search, mode: 'insensitive' } },
         { element: { contains: search, mode: 'insensitive' } },
-        { help: { contains: search, mode: 'insensitive' } }
+        { help: { contains: search, mode: 'insensitive' } },
+        { ruleId: { contains: search, mode: 'insensitive' } }
       ];
     }
     
@@ -108,6 +117,16 @@ export async function GET(request: NextRequest) {
         hasSome: complianceFilters
       };
     }
+
+    // Apply rule and WCAG success criterion filters
+    if (ruleFilters.length > 0) {
+      whereClause.ruleId = { in: ruleFilters };
+    }
+    if (criteriaFilters.length > 0) {
+      whereClause.wcagCriteria = {
+        hasSome: criteriaFilters
+      };
+    }
     
     // Fetch results from database
     const rawResults = await prisma.result.findMany({
@@ -131,11 +150,11 @@ export async function GET(request: NextRequest) {
     // Apply deduplication if filtering by project (not specific scan)
     let results = rawResults;
     if (projectId && !scanId) {
-      // Create deduplication map based on (url + message + element + severity)
+      // Create deduplication map based on (url + rule + element)
       const deduplicationMap = new Map<string, any>();
       
       rawResults.forEach(result => {
-        const key = `${result.url}|${result.message}|${result.element || ''}|${result.severity}`;
+        const key = getResultKey(result);
         
         // Keep the most recent result for each unique combination
         if (!deduplicationMap.has(key) || 
@@ -327,7 +346,10 @@ async function generateExcelReport(
   detailsSheet.columns = [
     { header: 'Project', key: 'project', width: 20 },
     { header: 'URL', key: 'url', width: 40 },
+    { header: 'Viewport', key: 'viewport', width: 12 },
     { header: 'Issue ID', key: 'id', width: 20 },
+    { header: 'Rule', key: 'ruleId', width: 25 },
+    { header: 'WCAG Criteria', key: 'wcagCriteria', width: 20 },
     { header: 'Message', key: 'message', width: 40 },
     { header: 'Help Text', key: 'help', width: 40 },
     { header: 'Element', key: 'element', width: 50 },
@@ -343,7 +365,10 @@ async function generateExcelReport(
     detailsSheet.addRow({
       project: result.scan?.project?.name || 'Unknown Project',
       url: result.url,
+      viewport: result.viewport || 'desktop',
       id: result.id,
+      ruleId: result.ruleId || 'N/A',
+      wcagCriteria: result.wcagCriteria && result.wcagCriteria.length > 0 ? result.wcagCriteria.join(', ') : 'N/A',
       message: result.message,
       help: result.help || 'N/A',
       element: result.element ? (result.element.length > 500 ? result.element.substring(0, 500) + '...' : result.element) : 'N/A',
@@ -868,7 +893,20 @@ async function generatePDFReport(
         color: rgb(0, 0.6, 0),
       });
       yPosition -= 15;
-      
+
+      // Rule and WCAG success criteria
+      if (result.ruleId) {
+        const criteria = result.wcagCriteria && result.wcagCriteria.length > 0 ? ` (WCAG ${result.wcagCriteria.join(', ')})` : '';
+        currentPage.drawText(sanitizeForPDF(`Rule: ${result.ruleId}${criteria}`), {
+          x: margin + 10,
+          y: yPosition,
+          size: 8,
+          font: regularFont,
+          color: rgb(0.2, 0.2, 0.6),
+        });
+        yPosition -= 12;
+      }
+
       // Tags
       if (result.tags && result.tags.length > 0) {
         const tagsText = `Tags: ${result.tags.join(', ')}`;
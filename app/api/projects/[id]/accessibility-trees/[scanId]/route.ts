@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { getScanAccessibilityTree } from "@/lib/scan-actions"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string, scanId: string }> }
+) {
+  try {
+    const { id, scanId } = await params
+    const accessibilityTree = await getScanAccessibilityTree(id, scanId)
+
+    if (!accessibilityTree) {
+      return NextResponse.json(
+        { error: "No accessibility tree was captured for this scan" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(accessibilityTree)
+  } catch (error) {
+    console.error("Error getting accessibility tree:", error)
+    return NextResponse.json(
+      { error: "Failed to get accessibility tree" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/db"
+import { getDefaultRunId } from "@/lib/scan-runs"
+import { listAccessibilityTreeScans } from "@/lib/scan-actions"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const runId = searchParams.get("runId") || await getDefaultRunId(id)
+    const scans = runId ? await listAccessibilityTreeScans(id, runId) : []
+
+    return NextResponse.json({ runId, scans })
+  } catch (error) {
+    console.error("Error listing accessibility trees:", error)
+    return NextResponse.json(
+      { error: "Failed to list accessibility trees" },
+      { status: 500 }
+    )
+  }
+}
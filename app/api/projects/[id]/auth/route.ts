@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/db"
+import { clearProjectAuthSession, redactAuthConfig, restoreRedactedValues, validateAuthConfig } from "@/lib/auth-session"
+import type { AuthConfig } from "@/lib/types"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { authConfig: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(redactAuthConfig(project.authConfig as AuthConfig | null))
+  } catch (error) {
+    console.error("Error fetching auth config:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch auth config" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json() as AuthConfig
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { authConfig: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    // Header and cookie values come back masked and the storage state not at all, so keep the stored ones unless new ones are sent
+    const existing = project.authConfig as AuthConfig | null
+    const config = restoreRedactedValues(body, existing)
+    if (config.method === "storage-state" && !config.storageState && existing?.storageState) {
+      config.storageState = existing.storageState
+    }
+
+    const validationError = validateAuthConfig(config)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.project.update({
+      where: { id },
+      data: { authConfig: config.method === "none" ? { method: "none" } : JSON.parse(JSON.stringify(config)) },
+      select: { authConfig: true }
+    })
+    clearProjectAuthSession(id)
+
+    return NextResponse.json(redactAuthConfig(updated.authConfig as AuthConfig | null))
+  } catch (error) {
+    console.error("Error updating auth config:", error)
+    return NextResponse.json(
+      { error: "Failed to update auth config" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/db"
+import { testProjectLogin } from "@/lib/auth-session"
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const result = await testProjectLogin(id)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error testing login:", error)
+    return NextResponse.json(
+      { error: "Failed to test login" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { compareRuns } from "@/lib/run-comparison"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get("from")
+    const to = searchParams.get("to")
+    const search = searchParams.get("search") || ""
+    const severityFilters = searchParams.get("severityFilters")?.split(",") || []
+    const complianceFilters = searchParams.get("complianceFilters")?.split(",") || []
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: "Both 'from' and 'to' run IDs are required" },
+        { status: 400 }
+      )
+    }
+
+    const comparison = await compareRuns(id, from, to, {
+      search,
+      severityFilters,
+      complianceFilters
+    })
+
+    if (!comparison) {
+      return NextResponse.json(
+        { error: "Scan run not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error("Error comparing scan runs:", error)
+    return NextResponse.json(
+      { error: "Failed to compare scan runs" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server"
+import type { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db"
+import { normalizeFlowSteps, validateFlow } from "@/lib/flows"
+import type { FlowStep } from "@/lib/types"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string, flowId: string }> }
+) {
+  try {
+    const { id, flowId } = await params
+    const flow = await prisma.scanFlow.findFirst({
+      where: { id: flowId, projectId: id }
+    })
+
+    if (!flow) {
+      return NextResponse.json(
+        { error: "Flow not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(flow)
+  } catch (error) {
+    console.error("Error fetching flow:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch flow" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string, flowId: string }> }
+) {
+  try {
+    const { id, flowId } = await params
+    const { name, steps } = await request.json()
+
+    const validationError = validateFlow(name, steps)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.scanFlow.findFirst({
+      where: { id: flowId, projectId: id },
+      select: { id: true }
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Flow not found" },
+        { status: 404 }
+      )
+    }
+
+    const flow = await prisma.scanFlow.update({
+      where: { id: flowId },
+      data: {
+        name: name.trim(),
+        steps: normalizeFlowSteps(steps as FlowStep[]) as unknown as Prisma.InputJsonValue
+      }
+    })
+
+    return NextResponse.json(flow)
+  } catch (error) {
+    console.error("Error updating flow:", error)
+    return NextResponse.json(
+      { error: "Failed to update flow" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string, flowId: string }> }
+) {
+  try {
+    const { id, flowId } = await params
+
+    const deleted = await prisma.scanFlow.deleteMany({
+      where: { id: flowId, projectId: id }
+    })
+
+    if (deleted.count === 0) {
+      return NextResponse.json(
+        { error: "Flow not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting flow:", error)
+    return NextResponse.json(
+      { error: "Failed to delete flow" },
+      { status: 500 }
+    )
+  }
+}
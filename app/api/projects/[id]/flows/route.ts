@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server"
+import type { Prisma } from "@prisma/client"
+import { prisma } from "@/lib/db"
+import { normalizeFlowSteps, validateFlow } from "@/lib/flows"
+import type { FlowStep } from "@/lib/types"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const flows = await prisma.scanFlow.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    return NextResponse.json({ flows })
+  } catch (error) {
+    console.error("Error listing flows:", error)
+    return NextResponse.json(
+      { error: "Failed to list flows" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { name, steps } = await request.json()
+
+    const validationError = validateFlow(name, steps)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const flow = await prisma.scanFlow.create({
+      data: {
+        projectId: id,
+        name: name.trim(),
+        steps: normalizeFlowSteps(steps as FlowStep[]) as unknown as Prisma.InputJsonValue
+      }
+    })
+
+    return NextResponse.json(flow, { status: 201 })
+  } catch (error) {
+    console.error("Error creating flow:", error)
+    return NextResponse.json(
+      { error: "Failed to create flow" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/db"
+import { getIssueLifecycleSummary } from "@/lib/issue-tracker"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get("status")
+    const url = searchParams.get("url")
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const issues = await prisma.issue.findMany({
+      where: {
+        projectId: id,
+        ...(status && { status }),
+        ...(url && { url })
+      },
+      include: {
+        // Latest occurrence tells whether the issue is new, still open, regressed or fixed
+        occurrences: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { scanId: true, state: true, createdAt: true }
+        }
+      },
+      orderBy: { lastSeenAt: 'desc' }
+    })
+
+    const lifecycle = await getIssueLifecycleSummary(id)
+
+    return NextResponse.json({
+      issues: issues.map(({ occurrences, ...issue }) => ({
+        ...issue,
+        latestState: occurrences[0]?.state || null,
+        latestScanId: occurrences[0]?.scanId || null
+      })),
+      lifecycle
+    })
+  } catch (error) {
+    console.error("Error getting project issues:", error)
+    return NextResponse.json(
+      { error: "Failed to get project issues" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/db"
+import { getDefaultRunId } from "@/lib/scan-runs"
+import { listPageStructures } from "@/lib/scan-actions"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const runId = searchParams.get("runId") || await getDefaultRunId(id)
+    const pages = runId ? await listPageStructures(id, runId) : []
+
+    return NextResponse.json({ runId, pages })
+  } catch (error) {
+    console.error("Error listing page structures:", error)
+    return NextResponse.json(
+      { error: "Failed to list page structures" },
+      { status: 500 }
+    )
+  }
+}
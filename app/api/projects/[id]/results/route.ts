@@ -1,5 +1,9 @@
 import { NextResponse } from "next/server"
 import { prisma } from "@/lib/db"
+import { getResultKey } from "@/lib/rule-catalog"
+import { getIssueLifecycleSummary } from "@/lib/issue-tracker"
+import { getDefaultRunId } from "@/lib/scan-runs"
+import { summarizeViewports } from "@/lib/viewports"
 
 export async function GET(
   request: Request,
@@ -14,11 +18,18 @@ export async function GET(
     const search = searchParams.get("search") || ""
     const severityFilters = searchParams.get("severityFilters")?.split(",") || []
     const complianceFilters = searchParams.get("complianceFilters")?.split(",") || []
+    const ruleFilters = searchParams.get("ruleFilters")?.split(",") || []
+    const criteriaFilters = searchParams.get("criteriaFilters")?.split(",") || []
+    const viewportFilters = searchParams.get("viewportFilters")?.split(",") || []
 
-    // Get all completed scans for this project
-    const scans = await prisma.scan.findMany({
+    // Results come from a single run: the requested one, or the latest by default
+    const runId = searchParams.get("runId") || await getDefaultRunId(id)
+
+    // Get the completed scans of that run
+    const scans = runId ? await prisma.scan.findMany({
       where: {
         projectId: id,
+        runId,
         status: 'completed'
       },
       include: {
@@ -27,12 +38,15 @@ export async function GET(
       orderBy: {
         createdAt: 'desc'
       }
-    })
+    }) : []
 
     if (scans.length === 0) {
       return NextResponse.json({
         results: [],
         summary: { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 },
+        lifecycle: { new: 0, open: 0, regressed: 0, fixed: 0 },
+        viewports: [],
+        runId,
         total: 0,
         page,
         pageSize,
@@ -40,14 +54,14 @@ export async function GET(
       })
     }
 
-    // Combine all results from all scans
+    // Combine all results from the run's scans
     const allResults = scans.flatMap(scan => scan.results)
 
-    // Create deduplication map based on (url + message + element + severity)
+    // Create deduplication map based on (url + rule + element)
     const deduplicationMap = new Map<string, any>()
     
     allResults.forEach(result => {
-      const key = `${result.url}|${result.message}|${result.element || ''}|${result.severity}`
+      const key = getResultKey(result)
       
       // Keep the most recent result for each unique combination
       if (!deduplicationMap.has(key) || 
@@ -66,7 +80,10 @@ export async function GET(
         result.message.toLowerCase().includes(searchLower) ||
         result.url.toLowerCase().includes(searchLower) ||
         (result.element && result.element.toLowerCase().includes(searchLower)) ||
-        (result.help && result.help.toLowerCase().includes(searchLower))
+        (result.help && result.help.toLowerCase().includes(searchLower)) ||
+        (result.ruleId && result.ruleId.toLowerCase().includes(searchLower)) ||
+        (result.flowStep && result.flowStep.toLowerCase().includes(searchLower)) ||
+        result.wcagCriteria.some((criterion: string) => criterion.startsWith(searchLower))
       )
     }
 
@@ -82,6 +99,27 @@ export async function GET(
       )
     }
 
+    if (ruleFilters.length > 0) {
+      uniqueResults = uniqueResults.filter(result =>
+        result.ruleId && ruleFilters.includes(result.ruleId)
+      )
+    }
+
+    if (criteriaFilters.length > 0) {
+      uniqueResults = uniqueResults.filter(result =>
+        result.wcagCriteria.some((criterion: string) => criteriaFilters.includes(criterion))
+      )
+    }
+
+    // Compared before the viewport filter, so every profile's counts stay visible while one is selected
+    const viewports = summarizeViewports(uniqueResults)
+
+    if (viewportFilters.length > 0) {
+      uniqueResults = uniqueResults.filter(result =>
+        viewportFilters.includes(result.viewport)
+      )
+    }
+
     // Apply sorting
     uniqueResults.sort((a, b) => {
       switch (sortBy) {
@@ -116,22 +154,36 @@ export async function GET(
     const endIndex = startIndex + pageSize
     const paginatedResults = uniqueResults.slice(startIndex, endIndex)
 
+    // Lifecycle state of each result in the scan that produced it
+    const occurrences = await prisma.issueOccurrence.findMany({
+      where: { resultId: { in: paginatedResults.map(result => result.id) } },
+      select: { resultId: true, state: true }
+    })
+    const stateByResultId = new Map(occurrences.map(occurrence => [occurrence.resultId, occurrence.state]))
+
     // Add scan information to each result
     const resultsWithScanInfo = paginatedResults.map(result => {
       const scan = scans.find(s => s.results.some(r => r.id === result.id))
       return {
         ...result,
+        issueState: stateByResultId.get(result.id) || null,
         scan: scan ? {
           id: scan.id,
+          runId: scan.runId,
           createdAt: scan.createdAt,
           project: { id: scan.projectId }
         } : null
       }
     })
 
+    const lifecycle = await getIssueLifecycleSummary(id, scans.map(scan => scan.id))
+
     return NextResponse.json({
       results: resultsWithScanInfo,
       summary,
+      lifecycle,
+      viewports,
+      runId,
       total: totalResults,
       page,
       pageSize,
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/db"
+import { getDefaultRunId, hasActiveScans, listScanRuns, startScanRun } from "@/lib/scan-runs"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const [runs, defaultRunId] = await Promise.all([
+      listScanRuns(id),
+      getDefaultRunId(id)
+    ])
+
+    return NextResponse.json({ runs, defaultRunId })
+  } catch (error) {
+    console.error("Error listing scan runs:", error)
+    return NextResponse.json(
+      { error: "Failed to list scan runs" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { trigger } = await request.json().catch(() => ({}))
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      include: { urls: true, flows: { select: { id: true } } }
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    if (!project.urls.length && !project.flows.length) {
+      return NextResponse.json(
+        { error: "Project has no URLs or flows to scan" },
+        { status: 400 }
+      )
+    }
+
+    if (await hasActiveScans(project.id)) {
+      return NextResponse.json(
+        { error: "A scan run is already in progress for this project" },
+        { status: 409 }
+      )
+    }
+
+    const run = await startScanRun(project.id, trigger === 'initial' ? 'initial' : 'api')
+
+    return NextResponse.json(run, { status: 201 })
+  } catch (error) {
+    console.error("Error starting scan run:", error)
+    return NextResponse.json(
+      { error: "Failed to start scan run" },
+      { status: 500 }
+    )
+  }
+}
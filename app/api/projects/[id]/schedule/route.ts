@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { getProjectSchedule, resolveSchedule, updateProjectSchedule } from "@/lib/scheduler"
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const schedule = await getProjectSchedule(id)
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(schedule)
+  } catch (error) {
+    console.error("Error fetching schedule:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch schedule" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const { enabled, cron, preset, timezone } = await request.json()
+
+    if (typeof enabled !== "boolean") {
+      return NextResponse.json(
+        { error: "enabled must be a boolean" },
+        { status: 400 }
+      )
+    }
+
+    const fields = { cron, preset, timezone }
+    const invalidField = Object.entries(fields).find(([, value]) => value != null && typeof value !== "string")
+    if (invalidField) {
+      return NextResponse.json(
+        { error: `${invalidField[0]} must be a string` },
+        { status: 400 }
+      )
+    }
+
+    const resolved = resolveSchedule({ enabled, cron, preset, timezone })
+    if ("error" in resolved) {
+      return NextResponse.json(
+        { error: resolved.error },
+        { status: 400 }
+      )
+    }
+
+    if (!await getProjectSchedule(id)) {
+      return NextResponse.json(
+        { error: "Project not found" },
+        { status: 404 }
+      )
+    }
+
+    const schedule = await updateProjectSchedule(id, resolved)
+    return NextResponse.json(schedule)
+  } catch (error) {
+    console.error("Error updating schedule:", error)
+    return NextResponse.json(
+      { error: "Failed to update schedule" },
+      { status: 500 }
+    )
+  }
+}
@@ -1,70 +1,45 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { parseStringPromise } from 'xml2js';
+import { MAX_SITEMAP_URLS, resolveSitemap } from '@/lib/sitemap';
 
-// Schema for validating the sitemap URL
-const SitemapUrlSchema = z.object({
+// Schema for validating the sitemap request
+const SitemapRequestSchema = z.object({
   url: z.string().url(),
+  changedWithinDays: z.coerce.number().int().positive().optional(),
+  since: z.coerce.date().optional(),
+  maxUrls: z.coerce.number().int().min(1).max(MAX_SITEMAP_URLS).optional(),
 });
 
 export async function GET(req: Request) {
-  try {
-    const { searchParams } = new URL(req.url);
-    const url = searchParams.get('url');
-
-    if (!url) {
-      return NextResponse.json(
-        { error: 'URL parameter is required' },
-        { status: 400 }
-      );
-    }
-
-    // Validate URL
-    try {
-      SitemapUrlSchema.parse({ url });
-    } catch (error) {
-      return NextResponse.json(
-        { error: 'Invalid URL format' },
-        { status: 400 }
-      );
-    }
+  const { searchParams } = new URL(req.url);
 
-    const result = await processSitemap(url);
-    return NextResponse.json(result);
-    
-  } catch (error) {
-    console.error('Sitemap processing error:', error);
+  if (!searchParams.get('url')) {
     return NextResponse.json(
-      { error: 'Failed to process sitemap' },
-      { status: 500 }
+      { error: 'URL parameter is required' },
+      { status: 400 }
     );
   }
+
+  return handleSitemapRequest({
+    url: searchParams.get('url'),
+    changedWithinDays: searchParams.get('changedWithinDays') || undefined,
+    since: searchParams.get('since') || undefined,
+    maxUrls: searchParams.get('maxUrls') || undefined,
+  });
 }
 
 export async function POST(req: Request) {
   try {
-    const { url } = await req.json();
+    const body = await req.json();
 
-    if (!url) {
+    if (!body.url) {
       return NextResponse.json(
         { error: 'URL is required' },
         { status: 400 }
       );
     }
 
-    // Validate URL
-    try {
-      SitemapUrlSchema.parse({ url });
-    } catch (error) {
-      return NextResponse.json(
-        { error: 'Invalid URL format' },
-        { status: 400 }
-      );
-    }
-
-    const result = await processSitemap(url);
-    return NextResponse.json(result);
-    
+    return handleSitemapRequest(body);
   } catch (error) {
     console.error('Sitemap processing error:', error);
     return NextResponse.json(
@@ -74,63 +49,35 @@ export async function POST(req: Request) {
   }
 }
 
-async function processSitemap(url: string) {
-  // Fetch the sitemap
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'WCAG Accessibility Checker/1.0',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch sitemap: ${response.statusText}`);
+async function handleSitemapRequest(input: Record<string, unknown>) {
+  // Validate URL and filters
+  const parsed = SitemapRequestSchema.safeParse(input);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid URL format' },
+      { status: 400 }
+    );
   }
 
-  const xmlContent = await response.text();
-  
-  // Parse XML content
-  const parsed = await parseStringPromise(xmlContent, {
-    explicitArray: false,
-    normalizeTags: true,
-  });
+  const { url, changedWithinDays, since, maxUrls } = parsed.data;
+  const changedSince = changedWithinDays
+    ? new Date(Date.now() - changedWithinDays * 24 * 60 * 60 * 1000)
+    : since || null;
 
-  // Extract URLs from sitemap
-  let urls: string[] = [];
-  
-  // Handle standard sitemaps
-  if (parsed.urlset && parsed.urlset.url) {
-    const urlEntries = Array.isArray(parsed.urlset.url) 
-      ? parsed.urlset.url 
-      : [parsed.urlset.url];
-    
-    urls = urlEntries
-      .map((entry: any) => entry.loc)
-      .filter((url: any) => url && typeof url === 'string');
-  }
-  
-  // Handle sitemap indexes
-  else if (parsed.sitemapindex && parsed.sitemapindex.sitemap) {
-    const sitemaps = Array.isArray(parsed.sitemapindex.sitemap)
-      ? parsed.sitemapindex.sitemap
-      : [parsed.sitemapindex.sitemap];
-    
-    // For sitemap indexes, we just return the first 10 sitemap URLs
-    // In a real app, you might want to fetch all of them
-    urls = sitemaps
-      .slice(0, 10)
-      .map((entry: any) => entry.loc)
-      .filter((url: any) => url && typeof url === 'string');
-    
-    // Add a message that this is a sitemap index
-    return {
-      type: 'sitemapindex',
-      message: 'This is a sitemap index. Consider checking individual sitemaps.',
-      urls,
-    };
+  try {
+    const result = await resolveSitemap(url, { changedSince, maxUrls });
+    return NextResponse.json({
+      ...result,
+      changedSince,
+      ...(result.truncated && {
+        message: `Sitemap resolution was capped; only the first ${result.entries.length} pages were returned.`,
+      }),
+    });
+  } catch (error) {
+    console.error('Sitemap processing error:', error);
+    return NextResponse.json(
+      { error: 'Failed to process sitemap' },
+      { status: 500 }
+    );
   }
-  
-  return {
-    type: 'urlset',
-    urls,
-  };
-} 
\ No newline at end of file
+}
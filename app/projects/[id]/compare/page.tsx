@@ -0,0 +1,43 @@
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import { ChevronLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { getProject } from "@/lib/project-actions"
+import { RunComparison } from "@/components/run-comparison"
+
+interface ComparePageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function ComparePage({ params }: ComparePageProps) {
+  const { id } = await params
+  const project = await getProject(id)
+
+  if (!project) {
+    notFound()
+  }
+
+  return (
+    <div className="container mx-auto py-10">
+      <div className="fixed top-5 left-10">
+        <Link href={`/projects/${project.id}`} className="bg-white py-1 px-4 rounded-md text-black flex items-center gap-2"> <ChevronLeft className="h-4 w-4" /> Back</Link>
+      </div>
+
+      <h1 className="text-3xl font-bold">{project.name}</h1>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Compare Scan Runs</CardTitle>
+          <CardDescription>
+            See which issues a run introduced, fixed or left unchanged compared to an earlier run
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <RunComparison projectId={project.id} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import { ChevronLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { getProject } from "@/lib/project-actions"
+import { FlowEditor } from "@/components/flow-editor"
+
+interface FlowsPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function FlowsPage({ params }: FlowsPageProps) {
+  const { id } = await params
+  const project = await getProject(id)
+
+  if (!project) {
+    notFound()
+  }
+
+  return (
+    <div className="container mx-auto py-10">
+      <div className="fixed top-5 left-10">
+        <Link href={`/projects/${project.id}`} className="bg-white py-1 px-4 rounded-md text-black flex items-center gap-2"> <ChevronLeft className="h-4 w-4" /> Back</Link>
+      </div>
+
+      <h1 className="text-3xl font-bold">{project.name}</h1>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>User Flows</CardTitle>
+          <CardDescription>
+            Multi-step journeys such as checkout, scanned with every run after the steps you mark
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <FlowEditor projectId={project.id} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
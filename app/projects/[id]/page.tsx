@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { getProject } from "@/lib/project-actions"
 import { ProjectHeader } from "@/components/project-header"
 import { ProjectResults } from "@/components/project-results"
+import { PageStructureOutline } from "@/components/page-structure-outline"
 
 interface ProjectPageProps {
   params: Promise<{
@@ -33,6 +34,18 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
           <ProjectResults project={project} />
         </CardContent>
       </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Page Structure</CardTitle>
+          <CardDescription>
+            Heading outline, landmark regions and skip link of each page in the latest scan
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <PageStructureOutline projectId={project.id} />
+        </CardContent>
+      </Card>
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { notFound } from "next/navigation"
+import Link from "next/link"
+import { ChevronLeft } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { getProject } from "@/lib/project-actions"
+import { ScreenReaderView } from "@/components/screen-reader-view"
+
+interface ScreenReaderPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default async function ScreenReaderPage({ params }: ScreenReaderPageProps) {
+  const { id } = await params
+  const project = await getProject(id)
+
+  if (!project) {
+    notFound()
+  }
+
+  return (
+    <div className="container mx-auto py-10">
+      <div className="fixed top-5 left-10">
+        <Link href={`/projects/${project.id}`} className="bg-white py-1 px-4 rounded-md text-black flex items-center gap-2"> <ChevronLeft className="h-4 w-4" /> Back</Link>
+      </div>
+
+      <h1 className="text-3xl font-bold">{project.name}</h1>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Screen Reader View</CardTitle>
+          <CardDescription>
+            Landmarks, headings and reading order as assistive technology gets them, with the issues found on each element
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScreenReaderView projectId={project.id} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+"use client"
+
+import { useState } from "react"
+import { KeyRound, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+import type { AuthConfig, AuthMethod } from "@/lib/types"
+
+type LoadedAuthConfig = Omit<AuthConfig, "storageState"> & {
+  storageStateSummary?: { cookies: number, origins: number }
+}
+
+interface AuthSettingsProps {
+  projectId: string
+}
+
+const EMPTY_CONFIG: LoadedAuthConfig = { method: "none" }
+
+// "name=value" per line
+function parseCookies(text: string) {
+  return text
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line.includes("="))
+    .map(line => {
+      const separator = line.indexOf("=")
+      return { name: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() }
+    })
+}
+
+// "Name: value" per line
+function parseHeaders(text: string) {
+  return Object.fromEntries(
+    text
+      .split("\n")
+      .map(line => line.trim())
+      .filter(line => line.includes(":"))
+      .map(line => {
+        const separator = line.indexOf(":")
+        return [line.slice(0, separator).trim(), line.slice(separator + 1).trim()]
+      })
+  )
+}
+
+export function AuthSettings({ projectId }: AuthSettingsProps) {
+  const [open, setOpen] = useState(false)
+  const [config, setConfig] = useState<LoadedAuthConfig>(EMPTY_CONFIG)
+  const [cookiesText, setCookiesText] = useState("")
+  const [headersText, setHeadersText] = useState("")
+  const [storageStateText, setStorageStateText] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isTesting, setIsTesting] = useState(false)
+  const [testResult, setTestResult] = useState<{ valid: boolean, message: string } | null>(null)
+
+  const loadConfig = async () => {
+    setIsLoading(true)
+    setTestResult(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/auth`)
+      if (!response.ok) throw new Error("Failed to load authentication settings")
+      const data: LoadedAuthConfig = await response.json()
+      setConfig(data)
+      setCookiesText((data.cookies || []).map(cookie => `${cookie.name}=${cookie.value}`).join("\n"))
+      setHeadersText(Object.entries(data.headers || {}).map(([name, value]) => `${name}: ${value}`).join("\n"))
+      setStorageStateText("")
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load authentication settings",
+        variant: "destructive"
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (nextOpen) loadConfig()
+  }
+
+  const update = (changes: Partial<LoadedAuthConfig>) => setConfig({ ...config, ...changes })
+
+  const handleSave = async () => {
+    let storageState: AuthConfig["storageState"] | undefined
+    if (config.method === "storage-state" && storageStateText.trim()) {
+      try {
+        storageState = JSON.parse(storageStateText)
+      } catch {
+        toast({ title: "Error", description: "The storage state is not valid JSON", variant: "destructive" })
+        return
+      }
+    }
+
+    setIsSaving(true)
+    try {
+      const { storageStateSummary, ...rest } = config
+      const response = await fetch(`/api/projects/${projectId}/auth`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...rest,
+          cookies: parseCookies(cookiesText),
+          headers: parseHeaders(headersText),
+          ...(storageState && { storageState })
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save authentication settings")
+
+      setConfig(data)
+      setStorageStateText("")
+      toast({ title: "Success", description: "Authentication settings saved" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save authentication settings",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleTest = async () => {
+    setIsTesting(true)
+    setTestResult(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/auth/test`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to test login")
+      setTestResult(data)
+    } catch (error) {
+      setTestResult({ valid: false, message: error instanceof Error ? error.message : "Failed to test login" })
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <KeyRound className="h-4 w-4 mr-2" />
+          Authentication
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Authentication</DialogTitle>
+          <DialogDescription>
+            Scan pages behind a login. Reference secrets as <code>env:SCAN_SECRET_NAME</code> so they are read from the server environment instead of being stored. Only variables starting with <code>SCAN_SECRET_</code> can be referenced.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={config.method} onValueChange={(value) => update({ method: value as AuthMethod })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (public pages)</SelectItem>
+                  <SelectItem value="login-script">Scripted login form</SelectItem>
+                  <SelectItem value="cookies">Cookies and headers</SelectItem>
+                  <SelectItem value="storage-state">Playwright storage state</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {config.method === "login-script" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="auth-login-url">Login URL</Label>
+                  <Input id="auth-login-url" value={config.loginUrl || ""} onChange={(e) => update({ loginUrl: e.target.value })} placeholder="https://example.com/login" />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="auth-username">Username</Label>
+                    <Input id="auth-username" value={config.username || ""} onChange={(e) => update({ username: e.target.value })} placeholder="env:SCAN_SECRET_USERNAME" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="auth-password">Password</Label>
+                    <Input id="auth-password" value={config.password || ""} onChange={(e) => update({ password: e.target.value })} placeholder="env:SCAN_SECRET_PASSWORD" />
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="auth-username-selector">Username field</Label>
+                    <Input id="auth-username-selector" value={config.usernameSelector || ""} onChange={(e) => update({ usernameSelector: e.target.value })} placeholder="#email" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="auth-password-selector">Password field</Label>
+                    <Input id="auth-password-selector" value={config.passwordSelector || ""} onChange={(e) => update({ passwordSelector: e.target.value })} placeholder="#password" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="auth-submit-selector">Submit button</Label>
+                    <Input id="auth-submit-selector" value={config.submitSelector || ""} onChange={(e) => update({ submitSelector: e.target.value })} placeholder="button[type=submit]" />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {(config.method === "cookies" || config.method === "login-script" || config.method === "storage-state") && (
+              <>
+                {config.method === "cookies" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="auth-cookies">Cookies</Label>
+                    <Textarea id="auth-cookies" rows={3} value={cookiesText} onChange={(e) => setCookiesText(e.target.value)} placeholder={"session=env:SCAN_SECRET_SESSION"} />
+                    <p className="text-xs text-gray-500">One <code>name=value</code> per line, set on the domain of the project&apos;s first URL</p>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="auth-headers">Extra headers</Label>
+                  <Textarea id="auth-headers" rows={2} value={headersText} onChange={(e) => setHeadersText(e.target.value)} placeholder={"Authorization: env:SCAN_SECRET_TOKEN"} />
+                  <p className="text-xs text-gray-500">One <code>Name: value</code> per line</p>
+                </div>
+              </>
+            )}
+
+            {config.method === "storage-state" && (
+              <div className="space-y-2">
+                <Label htmlFor="auth-storage-state">Storage state JSON</Label>
+                <Textarea
+                  id="auth-storage-state"
+                  rows={5}
+                  value={storageStateText}
+                  onChange={(e) => setStorageStateText(e.target.value)}
+                  placeholder={config.storageStateSummary ? "Paste a new storage state to replace the stored one" : '{ "cookies": [...], "origins": [...] }'}
+                />
+                {config.storageStateSummary && (
+                  <p className="text-xs text-gray-500">
+                    Stored: {config.storageStateSummary.cookies} cookies, {config.storageStateSummary.origins} origins
+                  </p>
+                )}
+              </div>
+            )}
+
+            {config.method !== "none" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="auth-success-selector">Logged-in indicator (optional)</Label>
+                  <Input id="auth-success-selector" value={config.successSelector || ""} onChange={(e) => update({ successSelector: e.target.value })} placeholder="[data-testid=user-menu]" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="auth-verify-url">Test page (optional)</Label>
+                  <Input id="auth-verify-url" value={config.verifyUrl || ""} onChange={(e) => update({ verifyUrl: e.target.value })} placeholder="Defaults to the project's first URL" />
+                </div>
+              </>
+            )}
+
+            {testResult && (
+              <p className={`text-sm ${testResult.valid ? "text-green-600" : "text-red-500"}`}>
+                {testResult.valid ? "Session valid: " : "Session invalid: "}{testResult.message}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleTest} disabled={isTesting || isLoading || config.method === "none"}>
+            {isTesting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Test Login
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isLoading}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,272 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { ArrowDown, ArrowUp, Loader2, Plus, Save, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import type { FlowStep, FlowStepAction, ScanFlowDefinition } from "@/lib/types"
+
+const ACTION_LABELS: Record<FlowStepAction, string> = {
+  goto: "Go to URL",
+  click: "Click",
+  fill: "Fill in",
+  press: "Press key",
+  waitFor: "Wait for",
+}
+
+interface FlowEditorProps {
+  projectId: string
+}
+
+const newFlow = (): Omit<ScanFlowDefinition, "id"> & { id: string | null } => ({
+  id: null,
+  name: "",
+  steps: [{ name: "Open start page", action: "goto", url: "", scan: true }],
+})
+
+export function FlowEditor({ projectId }: FlowEditorProps) {
+  const [flows, setFlows] = useState<ScanFlowDefinition[]>([])
+  const [draft, setDraft] = useState(newFlow())
+  const [loading, setLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchFlows = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/flows`)
+      if (!response.ok) throw new Error("Failed to fetch flows")
+      const data = await response.json()
+      setFlows(data.flows)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch flows",
+        variant: "destructive"
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchFlows()
+  }, [fetchFlows])
+
+  const updateStep = (index: number, changes: Partial<FlowStep>) => {
+    setDraft({
+      ...draft,
+      steps: draft.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    })
+  }
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...draft.steps]
+    const [step] = steps.splice(index, 1)
+    steps.splice(index + offset, 0, step)
+    setDraft({ ...draft, steps })
+  }
+
+  const removeStep = (index: number) => {
+    setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) })
+  }
+
+  const addStep = () => {
+    setDraft({
+      ...draft,
+      steps: [...draft.steps, { name: `Step ${draft.steps.length + 1}`, action: "click", selector: "", scan: false }],
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(
+        draft.id ? `/api/projects/${projectId}/flows/${draft.id}` : `/api/projects/${projectId}/flows`,
+        {
+          method: draft.id ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: draft.name, steps: draft.steps })
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save flow")
+
+      setDraft(data)
+      await fetchFlows()
+      toast({ title: "Success", description: "Flow saved. It will run with the next scan of this project." })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save flow",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!draft.id || !confirm(`Delete the flow "${draft.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/flows/${draft.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error("Failed to delete flow")
+      setDraft(newFlow())
+      await fetchFlows()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete flow",
+        variant: "destructive"
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-40">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+      <div className="space-y-2">
+        <Button variant="outline" className="w-full" onClick={() => setDraft(newFlow())}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Flow
+        </Button>
+        {flows.length === 0 && <p className="text-sm text-gray-500">No flows yet.</p>}
+        {flows.map(flow => (
+          <button
+            key={flow.id}
+            type="button"
+            onClick={() => setDraft(flow)}
+            className={`w-full text-left rounded-md px-3 py-2 text-sm ${draft.id === flow.id ? "bg-gray-100 text-black" : "hover:bg-gray-50 hover:text-black"}`}
+          >
+            <div className="font-medium truncate">{flow.name}</div>
+            <div className="text-xs text-gray-500">{flow.steps.length} steps · {flow.steps.filter(step => step.scan).length} scanned</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="md:col-span-3 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="flow-name">Flow name</Label>
+          <Input
+            id="flow-name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Checkout"
+          />
+        </div>
+
+        <div className="space-y-3">
+          {draft.steps.map((step, index) => (
+            <div key={index} className="rounded-md border p-3 space-y-3">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  aria-label="Step name"
+                  value={step.name}
+                  onChange={(e) => updateStep(index, { name: e.target.value })}
+                  placeholder="Step name"
+                  className="sm:w-48"
+                />
+                <Select value={step.action} onValueChange={(value) => updateStep(index, { action: value as FlowStepAction })}>
+                  <SelectTrigger className="sm:w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACTION_LABELS) as FlowStepAction[]).map(action => (
+                      <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {step.action === "goto" ? (
+                  <Input
+                    aria-label="URL"
+                    value={step.url || ""}
+                    onChange={(e) => updateStep(index, { url: e.target.value })}
+                    placeholder="https://example.com/cart"
+                    className="flex-1"
+                  />
+                ) : (
+                  <Input
+                    aria-label="Selector"
+                    value={step.selector || ""}
+                    onChange={(e) => updateStep(index, { selector: e.target.value })}
+                    placeholder="button[type=submit]"
+                    className="flex-1"
+                  />
+                )}
+                {step.action === "fill" && (
+                  <Input
+                    aria-label="Value"
+                    value={step.value || ""}
+                    onChange={(e) => updateStep(index, { value: e.target.value })}
+                    placeholder="Text or env:SCAN_SECRET_NAME"
+                    className="sm:w-40"
+                  />
+                )}
+                {step.action === "press" && (
+                  <Input
+                    aria-label="Key"
+                    value={step.key || ""}
+                    onChange={(e) => updateStep(index, { key: e.target.value })}
+                    placeholder="Enter"
+                    className="sm:w-28"
+                  />
+                )}
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`flow-step-scan-${index}`}
+                    checked={Boolean(step.scan)}
+                    onCheckedChange={(checked) => updateStep(index, { scan: checked === true })}
+                  />
+                  <Label htmlFor={`flow-step-scan-${index}`}>Scan after this step</Label>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" aria-label="Move step up" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" aria-label="Move step down" disabled={index === draft.steps.length - 1} onClick={() => moveStep(index, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" aria-label="Remove step" disabled={draft.steps.length === 1} onClick={() => removeStep(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap justify-between gap-2">
+          <Button variant="outline" onClick={addStep}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Step
+          </Button>
+          <div className="flex gap-2">
+            {draft.id && (
+              <Button variant="outline" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? "Saving..." : "Save Flow"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
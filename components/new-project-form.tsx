@@ -11,7 +11,7 @@ import { Label } from "@/components/ui/label"
 import { useRouter } from "next/navigation"
 import { toast } from "@/components/ui/use-toast"
 import { Card, CardContent } from "@/components/ui/card"
-import { Loader2, Download } from "lucide-react"
+import { Loader2, Download, Globe } from "lucide-react"
 
 const projectSchema = z.object({
   name: z.string().min(1, "Project name is required"),
@@ -21,9 +21,14 @@ const projectSchema = z.object({
   ),
   urls: z.string().optional(),
   wcagLevel: z.enum(["a", "aa", "aaa"]).default("aa"),
+  wcagVersion: z.enum(["2.0", "2.1", "2.2"]).default("2.1"),
   section508: z.boolean().default(false),
   bestPractices: z.boolean().default(true),
   experimental: z.boolean().default(false),
+  engineStrategy: z.enum(["axe-only", "static-only", "all-merged"]).default("all-merged"),
+  viewports: z.array(z.enum(["desktop", "tablet", "mobile", "reflow"])).min(1, "Select at least one viewport").default(["desktop"]),
+  dynamicContentSeconds: z.enum(["0", "10", "30", "60"]).default("0"),
+  interactiveExploration: z.boolean().default(false),
 }).refine(
   (data) => data.sitemapUrl || data.urls,
   {
@@ -34,10 +39,28 @@ const projectSchema = z.object({
 
 type ProjectFormData = z.infer<typeof projectSchema>
 
+const VIEWPORT_OPTIONS: { value: ProjectFormData["viewports"][number], label: string }[] = [
+  { value: "desktop", label: "Desktop (1280×720)" },
+  { value: "tablet", label: "Tablet (iPad emulation)" },
+  { value: "mobile", label: "Mobile (iPhone emulation)" },
+  { value: "reflow", label: "Reflow at 320px wide (WCAG 1.4.10)" },
+]
+
 export function NewProjectForm() {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [isFetchingSitemap, setIsFetchingSitemap] = useState(false)
+  const [sitemapChangedWithinDays, setSitemapChangedWithinDays] = useState("")
+  const [isCrawling, setIsCrawling] = useState(false)
+  const [crawlOptions, setCrawlOptions] = useState({
+    startUrl: "",
+    scope: "same-origin" as "same-origin" | "subdomains",
+    include: "",
+    exclude: "",
+    maxDepth: 3,
+    maxPages: 10,
+    respectRobots: true,
+  })
   const [error, setError] = useState<string | null>(null)
 
   const {
@@ -51,14 +74,98 @@ export function NewProjectForm() {
     resolver: zodResolver(projectSchema),
     defaultValues: {
       wcagLevel: "aa",
+      wcagVersion: "2.1",
       section508: false,
       bestPractices: true,
       experimental: false,
+      engineStrategy: "all-merged",
+      viewports: ["desktop"],
+      dynamicContentSeconds: "0",
+      interactiveExploration: false,
     },
   })
 
   const watchedSitemapUrl = watch("sitemapUrl")
   const watchedUrls = watch("urls")
+  const watchedViewports = watch("viewports")
+
+  // Add discovered URLs to the textarea, preserving any existing URLs
+  const mergeImportedUrls = (importedUrls: string[], source: string) => {
+    const existingUrls = watchedUrls ? watchedUrls.split("\n").filter(u => u.trim() !== "") : []
+    const newUrls = [...new Set([...existingUrls, ...importedUrls])]
+    const MAX_URLS = 10
+
+    // Limit to MAX_URLS
+    if (newUrls.length > MAX_URLS) {
+      setValue("urls", newUrls.slice(0, MAX_URLS).join("\n"))
+      toast({
+        title: "URL Limit Applied",
+        description: `Added ${MAX_URLS} URLs from ${source}. For performance reasons, projects are limited to ${MAX_URLS} URLs.`,
+        variant: "destructive",
+      })
+    } else {
+      setValue("urls", newUrls.join("\n"))
+      toast({
+        title: "URLs Imported",
+        description: `Added ${importedUrls.length} unique URLs from ${source}.`,
+      })
+    }
+  }
+
+  const crawlSiteUrls = async () => {
+    let url = crawlOptions.startUrl.trim()
+    if (!url) return
+    if (!url.startsWith("http://") && !url.startsWith("https://")) {
+      url = `https://${url}`
+    }
+
+    const splitPatterns = (value: string) =>
+      value.split(/[\n,]/).map(pattern => pattern.trim()).filter(Boolean)
+
+    setIsCrawling(true)
+    try {
+      const response = await fetch("/api/crawl", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          url,
+          scope: crawlOptions.scope,
+          include: splitPatterns(crawlOptions.include),
+          exclude: splitPatterns(crawlOptions.exclude),
+          maxDepth: crawlOptions.maxDepth,
+          maxPages: crawlOptions.maxPages,
+          respectRobots: crawlOptions.respectRobots,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to crawl site")
+      }
+
+      if (data.urls && data.urls.length > 0) {
+        mergeImportedUrls(data.urls, "the crawl")
+      } else {
+        toast({
+          title: "No URLs Found",
+          description: data.timedOut
+            ? "The crawl ran out of time before any matching page was found."
+            : data.skipped?.robots
+              ? "No pages could be crawled. robots.txt disallows some of the site."
+              : "No pages matching the crawl settings were found.",
+          variant: "destructive",
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to crawl site.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCrawling(false)
+    }
+  }
 
   const fetchSitemapUrls = async () => {
     const sitemapUrl = watchedSitemapUrl?.trim()
@@ -77,18 +184,15 @@ export function NewProjectForm() {
       url = `https://${url}`
     }
 
-    // Check if the URL ends with sitemap.xml, if not append it
-    if (!url.includes("sitemap.xml") && !url.includes("sitemap")) {
-      if (url.endsWith("/")) {
-        url += "sitemap.xml"
-      } else {
-        url += "/sitemap.xml"
-      }
-    }
+    // A site URL without a sitemap path is resolved through robots.txt on the server
+    const params = new URLSearchParams({
+      url,
+      ...(sitemapChangedWithinDays && { changedWithinDays: sitemapChangedWithinDays })
+    })
 
     setIsFetchingSitemap(true)
     try {
-      const response = await fetch(`/api/sitemap?url=${encodeURIComponent(url)}`)
+      const response = await fetch(`/api/sitemap?${params}`)
       
       if (!response.ok) {
         throw new Error(`Failed to fetch sitemap: ${response.statusText}`)
@@ -97,30 +201,13 @@ export function NewProjectForm() {
       const data = await response.json()
       
       if (data.urls && data.urls.length > 0) {
-        // Add the URLs to our textarea, preserving any existing URLs
-        const existingUrls = watchedUrls ? watchedUrls.split("\n").filter(u => u.trim() !== "") : []
-        const newUrls = [...new Set([...existingUrls, ...data.urls])]
-        const MAX_URLS = 10
-        
-        // Limit to MAX_URLS
-        if (newUrls.length > MAX_URLS) {
-          setValue("urls", newUrls.slice(0, MAX_URLS).join("\n"))
-          toast({
-            title: "URL Limit Applied",
-            description: `Added ${MAX_URLS} URLs from the sitemap. For performance reasons, projects are limited to ${MAX_URLS} URLs.`,
-            variant: "destructive",
-          })
-        } else {
-          setValue("urls", newUrls.join("\n"))
-          toast({
-            title: "Sitemap Processed",
-            description: `Added ${data.urls.length} unique URLs from the sitemap.`,
-          })
-        }
+        mergeImportedUrls(data.urls, "the sitemap")
       } else {
         toast({
           title: "No URLs Found",
-          description: "The sitemap did not contain any valid URLs.",
+          description: sitemapChangedWithinDays
+            ? `No pages in the sitemap changed in the last ${sitemapChangedWithinDays} days.`
+            : "The sitemap did not contain any valid URLs.",
           variant: "destructive",
         })
       }
@@ -205,9 +292,14 @@ export function NewProjectForm() {
           urls,
           complianceOptions: {
             wcagLevel: data.wcagLevel,
+            wcagVersion: data.wcagVersion,
             section508: data.section508,
             bestPractices: data.bestPractices,
             experimental: data.experimental,
+            engineStrategy: data.engineStrategy,
+            viewports: data.viewports,
+            dynamicContentSeconds: Number(data.dynamicContentSeconds),
+            interactiveExploration: data.interactiveExploration,
           },
         }),
       })
@@ -219,26 +311,18 @@ export function NewProjectForm() {
 
       const project = await projectResponse.json()
 
-      // Create scans for each URL
+      // Start the first scan run, which queues a scan for each URL
       if (urls.length > 0) {
-        const scanPromises = urls.map((url) =>
-          fetch("/api/scans", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              projectId: project.id,
-              url,
-              complianceOptions: {
-                wcagLevel: data.wcagLevel,
-                section508: data.section508,
-                bestPractices: data.bestPractices,
-                experimental: data.experimental,
-              },
-            }),
-          })
-        )
+        const runResponse = await fetch(`/api/projects/${project.id}/runs`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ trigger: "initial" }),
+        })
 
-        await Promise.all(scanPromises)
+        if (!runResponse.ok) {
+          const errorData = await runResponse.json()
+          throw new Error(errorData.error || "Failed to start scans")
+        }
       }
 
       toast({
@@ -283,6 +367,19 @@ export function NewProjectForm() {
                 disabled={isLoading || isFetchingSitemap}
                 className="flex-1"
               />
+              <select
+                id="sitemapChangedWithinDays"
+                aria-label="Only pages changed within"
+                value={sitemapChangedWithinDays}
+                onChange={(e) => setSitemapChangedWithinDays(e.target.value)}
+                className="rounded-md border border-input bg-background px-3 py-2"
+                disabled={isLoading || isFetchingSitemap}
+              >
+                <option value="">Any time</option>
+                <option value="1">Changed in last day</option>
+                <option value="7">Changed in last 7 days</option>
+                <option value="30">Changed in last 30 days</option>
+              </select>
               <Button 
                 type="button" 
                 variant="secondary" 
@@ -302,6 +399,9 @@ export function NewProjectForm() {
                 )}
               </Button>
             </div>
+            <p className="text-xs text-gray-600">
+              Sitemap indexes and gzipped sitemaps are followed. Enter a site URL to find its sitemaps through robots.txt.
+            </p>
             {errors.sitemapUrl && (
               <p className="text-sm text-red-500">{errors.sitemapUrl.message}</p>
             )}
@@ -309,6 +409,116 @@ export function NewProjectForm() {
         </CardContent>
       </Card>
 
+      {/* Crawl Section */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-4">
+            <Label>Discover URLs by Crawling (Optional)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="crawlStartUrl"
+                value={crawlOptions.startUrl}
+                onChange={(e) => setCrawlOptions({ ...crawlOptions, startUrl: e.target.value })}
+                placeholder="https://example.com"
+                disabled={isLoading || isCrawling}
+                className="flex-1"
+              />
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={crawlSiteUrls}
+                disabled={isLoading || isCrawling || !crawlOptions.startUrl.trim()}
+              >
+                {isCrawling ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Crawling...
+                  </>
+                ) : (
+                  <>
+                    <Globe className="mr-2 h-4 w-4" />
+                    Crawl
+                  </>
+                )}
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="crawlScope">Scope</Label>
+                <select
+                  id="crawlScope"
+                  value={crawlOptions.scope}
+                  onChange={(e) => setCrawlOptions({ ...crawlOptions, scope: e.target.value as "same-origin" | "subdomains" })}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2"
+                  disabled={isLoading || isCrawling}
+                >
+                  <option value="same-origin">Same origin only</option>
+                  <option value="subdomains">Include subdomains</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crawlMaxDepth">Max depth</Label>
+                <Input
+                  id="crawlMaxDepth"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={crawlOptions.maxDepth}
+                  onChange={(e) => setCrawlOptions({ ...crawlOptions, maxDepth: Number(e.target.value) })}
+                  disabled={isLoading || isCrawling}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crawlMaxPages">Max pages</Label>
+                <Input
+                  id="crawlMaxPages"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={crawlOptions.maxPages}
+                  onChange={(e) => setCrawlOptions({ ...crawlOptions, maxPages: Number(e.target.value) })}
+                  disabled={isLoading || isCrawling}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="crawlInclude">Include patterns</Label>
+                <Input
+                  id="crawlInclude"
+                  value={crawlOptions.include}
+                  onChange={(e) => setCrawlOptions({ ...crawlOptions, include: e.target.value })}
+                  placeholder="/docs/**, /blog/*"
+                  disabled={isLoading || isCrawling}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crawlExclude">Exclude patterns</Label>
+                <Input
+                  id="crawlExclude"
+                  value={crawlOptions.exclude}
+                  onChange={(e) => setCrawlOptions({ ...crawlOptions, exclude: e.target.value })}
+                  placeholder="/admin/**, **/*.pdf"
+                  disabled={isLoading || isCrawling}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="crawlRespectRobots"
+                checked={crawlOptions.respectRobots}
+                onCheckedChange={(checked) => setCrawlOptions({ ...crawlOptions, respectRobots: checked === true })}
+                disabled={isLoading || isCrawling}
+              />
+              <Label htmlFor="crawlRespectRobots">Respect robots.txt</Label>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       <div className="space-y-2">
         <Label htmlFor="urls">URLs to Analyze</Label>
         <Textarea
@@ -330,20 +540,91 @@ export function NewProjectForm() {
       <div className="space-y-4">
         <Label>Compliance Options</Label>
         
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="wcagVersion">WCAG Version</Label>
+            <select
+              id="wcagVersion"
+              {...register("wcagVersion")}
+              className="w-full rounded-md border border-input bg-background px-3 py-2"
+              disabled={isLoading}
+            >
+              <option value="2.0">WCAG 2.0</option>
+              <option value="2.1">WCAG 2.1</option>
+              <option value="2.2">WCAG 2.2</option>
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="wcagLevel">WCAG Level</Label>
+            <select
+              id="wcagLevel"
+              {...register("wcagLevel")}
+              className="w-full rounded-md border border-input bg-background px-3 py-2"
+              disabled={isLoading}
+            >
+              <option value="a">Level A</option>
+              <option value="aa">Level AA</option>
+              <option value="aaa">Level AAA</option>
+            </select>
+          </div>
+        </div>
+
         <div className="space-y-2">
-          <Label htmlFor="wcagLevel">WCAG Level</Label>
+          <Label htmlFor="engineStrategy">Analysis Engines</Label>
           <select
-            id="wcagLevel"
-            {...register("wcagLevel")}
+            id="engineStrategy"
+            {...register("engineStrategy")}
             className="w-full rounded-md border border-input bg-background px-3 py-2"
             disabled={isLoading}
           >
-            <option value="a">WCAG 2.1 Level A</option>
-            <option value="aa">WCAG 2.1 Level AA</option>
-            <option value="aaa">WCAG 2.1 Level AAA</option>
+            <option value="all-merged">All engines (axe + static checks, merged)</option>
+            <option value="axe-only">axe-core only (browser)</option>
+            <option value="static-only">Static HTML checks only (no browser)</option>
           </select>
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="dynamicContentSeconds">Dynamic Content Monitoring</Label>
+          <p className="text-xs text-gray-500">Watch each page for live updates, moving content and timed redirects</p>
+          <select
+            id="dynamicContentSeconds"
+            {...register("dynamicContentSeconds")}
+            className="w-full rounded-md border border-input bg-background px-3 py-2"
+            disabled={isLoading}
+          >
+            <option value="0">Off</option>
+            <option value="10">10 seconds per page</option>
+            <option value="30">30 seconds per page</option>
+            <option value="60">60 seconds per page</option>
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Viewports</Label>
+          <p className="text-xs text-gray-500">Each URL is scanned once per selected viewport</p>
+          {VIEWPORT_OPTIONS.map(option => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`viewport-${option.value}`}
+                checked={watchedViewports.includes(option.value)}
+                onCheckedChange={(checked) =>
+                  setValue(
+                    "viewports",
+                    checked
+                      ? [...watchedViewports, option.value]
+                      : watchedViewports.filter(viewport => viewport !== option.value),
+                    { shouldValidate: true }
+                  )
+                }
+                disabled={isLoading}
+              />
+              <Label htmlFor={`viewport-${option.value}`}>{option.label}</Label>
+            </div>
+          ))}
+          {errors.viewports && <p className="text-sm text-red-500">{errors.viewports.message}</p>}
+        </div>
+
         <div className="flex items-center space-x-2">
           <Checkbox
             id="section508"
@@ -370,6 +651,15 @@ export function NewProjectForm() {
           />
           <Label htmlFor="experimental">Include Experimental Rules</Label>
         </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="interactiveExploration"
+            {...register("interactiveExploration")}
+            disabled={isLoading}
+          />
+          <Label htmlFor="interactiveExploration">Open Menus, Accordions, Tabs and Dialogs</Label>
+        </div>
       </div>
 
       {error && <p className="text-sm text-red-500">{error}</p>}
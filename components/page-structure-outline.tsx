@@ -0,0 +1,182 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { PageStructureReport } from "@/lib/types"
+
+interface StructurePage {
+  id: string
+  url: string
+  viewport: string
+  structure: PageStructureReport
+}
+
+const LANDMARK_LABELS: Record<string, string> = {
+  banner: "Banner",
+  navigation: "Navigation",
+  main: "Main",
+  contentinfo: "Content info",
+  complementary: "Complementary",
+  search: "Search",
+  form: "Form",
+  region: "Region",
+}
+
+function SkipLinkSummary({ structure }: { structure: PageStructureReport }) {
+  const { skipLink } = structure
+  if (!skipLink) {
+    return <p className="text-sm text-gray-500">No skip link found.</p>
+  }
+
+  const broken = structure.problems.some(problem => problem.type === "broken-skip-link")
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Badge className={broken ? "bg-orange-500 hover:bg-orange-600" : "bg-green-500 hover:bg-green-600"}>
+        {broken ? "Needs work" : "Works"}
+      </Badge>
+      <span className="font-medium">{skipLink.text || <span className="italic text-gray-400">no text</span>}</span>
+      <code className="text-xs text-gray-500">{skipLink.href}</code>
+      <span className="text-gray-500">
+        {skipLink.tabIndex === null ? "not focusable" : `tab stop ${skipLink.tabIndex}`}
+        {skipLink.targetPath ? ` · target ${skipLink.targetPath}` : " · target missing"}
+      </span>
+    </div>
+  )
+}
+
+interface PageStructureOutlineProps {
+  projectId: string
+}
+
+export function PageStructureOutline({ projectId }: PageStructureOutlineProps) {
+  const [pages, setPages] = useState<StructurePage[]>([])
+  const [pageId, setPageId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchStructures = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/page-structure`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to fetch page structure")
+        setPages(data.pages)
+        setPageId(data.pages[0]?.id || null)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Failed to fetch page structure")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchStructures()
+  }, [projectId])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-40">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-500">{error}</p>
+  }
+
+  if (pages.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">No page structure in the latest scan run.</p>
+        <p className="text-sm text-gray-400 mt-2">Structure is recorded for URL scans; rescan the project to see it.</p>
+      </div>
+    )
+  }
+
+  const selected = pages.find(page => page.id === pageId) || pages[0]
+  const { structure } = selected
+
+  return (
+    <div className="space-y-6">
+      <Select value={selected.id} onValueChange={setPageId}>
+        <SelectTrigger className="w-full sm:w-[500px]">
+          <SelectValue placeholder="Select a page" />
+        </SelectTrigger>
+        <SelectContent>
+          {pages.map(page => (
+            <SelectItem key={page.id} value={page.id}>
+              {page.url} · {page.viewport} · {page.structure.problems.length} problem{page.structure.problems.length === 1 ? "" : "s"}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {structure.source === "html" && (
+        <p className="text-sm text-gray-500">Read from the HTML as served; content added by scripts isn't included.</p>
+      )}
+
+      {structure.problems.length > 0 && (
+        <ul className="space-y-1">
+          {structure.problems.map((problem, index) => (
+            <li key={index} className="text-sm text-orange-600" title={problem.elementPath}>
+              {problem.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div>
+          <h3 className="font-medium mb-2">Headings ({structure.headings.length})</h3>
+          {structure.headings.length === 0 ? (
+            <p className="text-sm text-gray-500">The page has no headings.</p>
+          ) : (
+            <ol className="divide-y">
+              {structure.headings.map((heading, index) => (
+                <li key={index} className="py-1" style={{ paddingLeft: `${(heading.level - 1) * 16}px` }} title={heading.elementPath}>
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="outline">H{heading.level}</Badge>
+                    {heading.text ? <span>{heading.text}</span> : <span className="italic text-gray-400">empty</span>}
+                  </div>
+                  {heading.skipsFrom !== undefined && (
+                    <div className="text-xs text-orange-600">
+                      Skips from {heading.skipsFrom ? `level ${heading.skipsFrom}` : "the top"} to level {heading.level}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <h3 className="font-medium mb-2">Landmarks ({structure.landmarks.length})</h3>
+            {structure.landmarks.length === 0 ? (
+              <p className="text-sm text-gray-500">The page has no landmarks.</p>
+            ) : (
+              <ul className="divide-y">
+                {structure.landmarks.map((landmark, index) => (
+                  <li key={index} className="py-1" style={{ paddingLeft: `${landmark.depth * 16}px` }} title={landmark.elementPath}>
+                    <div className="flex items-center gap-2 text-sm">
+                      <Badge variant="outline">{LANDMARK_LABELS[landmark.role] || landmark.role}</Badge>
+                      {landmark.name ? <span>{landmark.name}</span> : <span className="italic text-gray-400">no name</span>}
+                      {landmark.duplicate && <Badge className="bg-orange-500 hover:bg-orange-600">Duplicate</Badge>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-medium mb-2">Skip Link</h3>
+            <SkipLinkSummary structure={structure} />
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,13 +2,15 @@
 
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Pencil, Save, X, RefreshCw, ChevronLeft } from "lucide-react"
+import { Pencil, Save, X, RefreshCw, ChevronLeft, GitCompare, Workflow, Ear } from "lucide-react"
 import { useState } from "react"
 import { toast } from "@/components/ui/use-toast"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
+import { ScheduleEditor, type ProjectSchedule } from "@/components/schedule-editor"
+import { AuthSettings } from "@/components/auth-settings"
 
-interface Project {
+interface Project extends ProjectSchedule {
   id: string
   name: string
   urls: { url: string }[]
@@ -146,6 +148,26 @@ export function ProjectHeader({ project }: ProjectHeaderProps) {
             ? new Date(project.scans[0].createdAt).toLocaleDateString()
             : 'Never'}
         </div>
+        <AuthSettings projectId={project.id} />
+        <ScheduleEditor projectId={project.id} schedule={project} />
+        <Button variant="outline" asChild>
+          <Link href={`/projects/${project.id}/flows`}>
+            <Workflow className="h-4 w-4 mr-2" />
+            Flows
+          </Link>
+        </Button>
+        <Button variant="outline" asChild>
+          <Link href={`/projects/${project.id}/compare`}>
+            <GitCompare className="h-4 w-4 mr-2" />
+            Compare Runs
+          </Link>
+        </Button>
+        <Button variant="outline" asChild>
+          <Link href={`/projects/${project.id}/screen-reader`}>
+            <Ear className="h-4 w-4 mr-2" />
+            Screen Reader View
+          </Link>
+        </Button>
         <Button
           variant="outline"
           onClick={handleRescan}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from "react"
 import { ResultsTable } from "@/components/results-table"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { IssueLifecycleSummary, ScanRunSummary, ViewportSummary } from "@/lib/types"
 
 interface Project {
   id: string
@@ -86,6 +88,8 @@ function estimateFixTime(result: any): string {
 export function ProjectResults({ project }: ProjectResultsProps) {
   const [results, setResults] = useState<any[]>([])
   const [summary, setSummary] = useState<any>(null)
+  const [lifecycle, setLifecycle] = useState<IssueLifecycleSummary | null>(null)
+  const [viewports, setViewports] = useState<ViewportSummary[]>([])
   const [loading, setLoading] = useState(true)
   const [page, setPage] = useState(1)
   const [pageSize] = useState(10)
@@ -94,7 +98,23 @@ export function ProjectResults({ project }: ProjectResultsProps) {
   const [searchQuery, setSearchQuery] = useState("")
   const [severityFilters, setSeverityFilters] = useState<string[]>([])
   const [complianceFilters, setComplianceFilters] = useState<string[]>([])
+  const [viewportFilters, setViewportFilters] = useState<string[]>([])
   const [isPolling, setIsPolling] = useState(false)
+  const [runs, setRuns] = useState<ScanRunSummary[]>([])
+  // null follows the latest run; picking a run from the selector pins it
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+  const [displayedRunId, setDisplayedRunId] = useState<string | null>(null)
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${project.id}/runs`)
+      if (!response.ok) return
+      const data = await response.json()
+      setRuns(data.runs || [])
+    } catch (error) {
+      console.error("Error fetching scan runs:", error)
+    }
+  }, [project.id])
 
   const fetchResults = useCallback(async () => {
     setLoading(true)
@@ -105,7 +125,9 @@ export function ProjectResults({ project }: ProjectResultsProps) {
         sortBy,
         search: searchQuery,
         ...(severityFilters.length > 0 && { severityFilters: severityFilters.join(",") }),
-        ...(complianceFilters.length > 0 && { complianceFilters: complianceFilters.join(",") })
+        ...(complianceFilters.length > 0 && { complianceFilters: complianceFilters.join(",") }),
+        ...(viewportFilters.length > 0 && { viewportFilters: viewportFilters.join(",") }),
+        ...(selectedRunId && { runId: selectedRunId })
       })
       
       // Use the new combined project results API
@@ -125,6 +147,9 @@ export function ProjectResults({ project }: ProjectResultsProps) {
 
       setResults(resultsWithTime)
       setSummary(data.summary)
+      setLifecycle(data.lifecycle || null)
+      setViewports(data.viewports || [])
+      setDisplayedRunId(data.runId || null)
       setTotalPages(data.totalPages)
     } catch (error) {
       console.error("Error fetching results:", error)
@@ -140,7 +165,7 @@ export function ProjectResults({ project }: ProjectResultsProps) {
     } finally {
       setLoading(false)
     }
-  }, [project.id, page, sortBy, searchQuery, severityFilters, complianceFilters, pageSize])
+  }, [project.id, page, sortBy, searchQuery, severityFilters, complianceFilters, viewportFilters, pageSize, selectedRunId])
 
   // Check for in-progress scans and start polling if needed
   const checkForInProgressScans = useCallback(async () => {
@@ -177,11 +202,13 @@ export function ProjectResults({ project }: ProjectResultsProps) {
           if (stillInProgress) {
             // Refresh results while scanning
             await fetchResults()
+            await fetchRuns()
           } else {
             // Scans completed, stop polling and do final refresh
             console.log("Scans completed, stopping polling")
             setIsPolling(false)
             await fetchResults()
+            await fetchRuns()
             clearInterval(pollInterval)
           }
         }, 3000) // Poll every 3 seconds
@@ -195,12 +222,40 @@ export function ProjectResults({ project }: ProjectResultsProps) {
         clearInterval(pollInterval)
       }
     }
-  }, [checkForInProgressScans, fetchResults, isPolling])
+  }, [checkForInProgressScans, fetchResults, fetchRuns, isPolling])
 
   useEffect(() => {
     fetchResults()
   }, [fetchResults])
 
+  useEffect(() => {
+    fetchRuns()
+  }, [fetchRuns])
+
+  const handleRunChange = (runId: string) => {
+    setSelectedRunId(runId)
+    setPage(1)
+  }
+
+  const runSelector = runs.length > 1 && (
+    <div className="flex items-center gap-2 mb-4">
+      <span className="text-sm text-gray-500">Scan run</span>
+      <Select value={displayedRunId || undefined} onValueChange={handleRunChange}>
+        <SelectTrigger className="w-full sm:w-[320px]">
+          <SelectValue placeholder="Latest run" />
+        </SelectTrigger>
+        <SelectContent>
+          {runs.map((run, index) => (
+            <SelectItem key={run.id} value={run.id}>
+              {new Date(run.createdAt).toLocaleString()}
+              {index === 0 ? " (latest)" : ""} · {run.status === "completed" ? `${run.totalIssues} issues` : run.status.replace("_", " ")}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
   // Show message if no scans exist
   if (!project.scans || project.scans.length === 0) {
     return (
@@ -222,9 +277,12 @@ export function ProjectResults({ project }: ProjectResultsProps) {
           </div>
           <p className="text-blue-600 text-sm mt-1">Results will automatically refresh when scanning completes.</p>
         </div>
+        {runSelector}
         <ResultsTable
           results={results}
           summary={summary}
+          lifecycle={lifecycle}
+          viewports={viewports}
           loading={loading}
           page={page}
           pageSize={pageSize}
@@ -233,35 +291,46 @@ export function ProjectResults({ project }: ProjectResultsProps) {
           searchQuery={searchQuery}
           severityFilters={severityFilters}
           complianceFilters={complianceFilters}
+          viewportFilters={viewportFilters}
           projectId={project.id}
+          runId={displayedRunId}
           onPageChange={setPage}
           onSortChange={setSortBy}
           onSearchChange={setSearchQuery}
           onSeverityFilterChange={setSeverityFilters}
           onComplianceFilterChange={setComplianceFilters}
+          onViewportFilterChange={setViewportFilters}
         />
       </div>
     )
   }
 
   return (
-    <ResultsTable
-      results={results}
-      summary={summary}
-      loading={loading}
-      page={page}
-      pageSize={pageSize}
-      totalPages={totalPages}
-      sortBy={sortBy}
-      searchQuery={searchQuery}
-      severityFilters={severityFilters}
-      complianceFilters={complianceFilters}
-      projectId={project.id}
-      onPageChange={setPage}
-      onSortChange={setSortBy}
-      onSearchChange={setSearchQuery}
-      onSeverityFilterChange={setSeverityFilters}
-      onComplianceFilterChange={setComplianceFilters}
-    />
+    <div>
+      {runSelector}
+      <ResultsTable
+        results={results}
+        summary={summary}
+        lifecycle={lifecycle}
+        viewports={viewports}
+        loading={loading}
+        page={page}
+        pageSize={pageSize}
+        totalPages={totalPages}
+        sortBy={sortBy}
+        searchQuery={searchQuery}
+        severityFilters={severityFilters}
+        complianceFilters={complianceFilters}
+        viewportFilters={viewportFilters}
+        projectId={project.id}
+        runId={displayedRunId}
+        onPageChange={setPage}
+        onSortChange={setSortBy}
+        onSearchChange={setSearchQuery}
+        onSeverityFilterChange={setSeverityFilters}
+        onComplianceFilterChange={setComplianceFilters}
+        onViewportFilterChange={setViewportFilters}
+      />
+    </div>
   )
-} 
\ No newline at end of file
+}
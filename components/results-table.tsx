@@ -13,7 +13,7 @@ import {
 } from '@/components/ui/pagination'
 import { Download, Search, Loader2, ExternalLink, Filter, X, Code, Copy, Image, Eye } from 'lucide-react'
 import { toast } from '@/components/ui/use-toast'
-import type { AccessibilityResult, AccessibilitySummary } from '@/lib/types'
+import type { AccessibilityResult, AccessibilitySummary, IssueLifecycleSummary, SuggestedColors, ViewportSummary } from '@/lib/types'
 import {
   DropdownMenu,
   DropdownMenuCheckboxItem,
@@ -32,9 +32,75 @@ import {
 } from '@/components/ui/dialog'
 import { useState } from 'react'
 
+const VIEWPORT_LABELS: Record<string, string> = {
+  desktop: 'Desktop',
+  tablet: 'Tablet',
+  mobile: 'Mobile',
+  reflow: 'Reflow (320px)',
+}
+
+// Sample text drawn in the pair's own colors, so a suggestion can be judged by eye
+function ContrastSwatch({ foreground, background, label, contrastRatio }: {
+  foreground: string
+  background: string
+  label: string
+  contrastRatio: number
+}) {
+  const copyColors = () => {
+    navigator.clipboard.writeText(`color: ${foreground}; background-color: ${background};`)
+    toast({ title: "Copied", description: `${foreground} on ${background}` })
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={copyColors}
+      className="flex items-center gap-2 text-xs text-left hover:underline"
+      title="Copy as CSS"
+    >
+      <span
+        className="rounded border px-2 py-0.5 font-semibold"
+        style={{ color: foreground, backgroundColor: background }}
+      >
+        Aa
+      </span>
+      <span className="text-gray-500">
+        {label}: {foreground} on {background} · {contrastRatio.toFixed(2)}:1
+      </span>
+    </button>
+  )
+}
+
+function ContrastSuggestions({ details }: { details: Record<string, any> }) {
+  const suggestions: SuggestedColors[] = details.suggestedColors
+  return (
+    <div className="mt-2 space-y-1">
+      {details.foreground && details.background && (
+        <ContrastSwatch
+          foreground={details.foreground}
+          background={details.background}
+          label="Current"
+          contrastRatio={details.contrastRatio}
+        />
+      )}
+      {suggestions.map(suggestion => (
+        <ContrastSwatch
+          key={suggestion.change}
+          foreground={suggestion.foreground}
+          background={suggestion.background}
+          label={suggestion.change === 'foreground' ? 'New text color' : 'New background'}
+          contrastRatio={suggestion.contrastRatio}
+        />
+      ))}
+    </div>
+  )
+}
+
 interface ResultsTableProps {
   results: AccessibilityResult[]
   summary: AccessibilitySummary | null
+  lifecycle?: IssueLifecycleSummary | null
+  viewports?: ViewportSummary[]
   loading: boolean
   page: number
   pageSize: number
@@ -43,18 +109,23 @@ interface ResultsTableProps {
   searchQuery: string
   severityFilters: string[]
   complianceFilters: string[]
+  viewportFilters?: string[]
   projectId?: string
   scanId?: string
+  runId?: string | null
   onPageChange: (page: number) => void
   onSortChange: (sortBy: string) => void
   onSearchChange: (query: string) => void
   onSeverityFilterChange: (filters: string[]) => void
   onComplianceFilterChange: (filters: string[]) => void
+  onViewportFilterChange?: (filters: string[]) => void
 }
 
 export function ResultsTable({
   results,
   summary,
+  lifecycle,
+  viewports = [],
   loading,
   page,
   pageSize,
@@ -63,13 +134,16 @@ export function ResultsTable({
   searchQuery,
   severityFilters,
   complianceFilters,
+  viewportFilters = [],
   projectId,
   scanId,
+  runId,
   onPageChange,
   onSortChange,
   onSearchChange,
   onSeverityFilterChange,
   onComplianceFilterChange,
+  onViewportFilterChange,
 }: ResultsTableProps) {
   const [selectedImage, setSelectedImage] = useState<string | null>(null)
   const [issueScreenshot, setIssueScreenshot] = useState<string | null>(null)
@@ -83,6 +157,10 @@ export function ResultsTable({
   const [exportProgress, setExportProgress] = useState(0)
   const [exportError, setExportError] = useState<string | null>(null)
 
+  // Viewport filtering and comparison only make sense once a run scanned more than one profile
+  const comparesViewports = viewports.length > 1 && Boolean(onViewportFilterChange)
+  const hasFilters = severityFilters.length > 0 || complianceFilters.length > 0 || viewportFilters.length > 0
+
   const getSeverityColor = (severity: string) => {
     switch (severity.toLowerCase()) {
       case "critical":
@@ -129,6 +207,7 @@ export function ResultsTable({
       if (sortBy) queryParams.append("sortBy", sortBy)
       if (projectId) queryParams.append("projectId", projectId)
       if (scanId) queryParams.append("scanId", scanId)
+      if (runId) queryParams.append("runId", runId)
       if (severityFilters.length > 0) {
         severityFilters.forEach((filter) => queryParams.append("severityFilters", filter))
       }
@@ -214,6 +293,11 @@ export function ResultsTable({
   }
 
   const formatIssuePrompt = (result: AccessibilityResult) => {
+    const suggestions: SuggestedColors[] = result.details?.suggestedColors || []
+    const suggestedColors = suggestions.length > 0
+      ? `\nSuggested colors: ${suggestions.map(s => `${s.foreground} on ${s.background} (${s.contrastRatio}:1)`).join(" or ")}`
+      : ""
+
     return `Fix this accessibility issue:
 
 Issue: ${result.message}
@@ -221,7 +305,7 @@ Element: ${result.element}
 Severity: ${result.severity}
 URL: ${result.url}
 Help: ${result.help}
-Tags: ${result.tags?.join(", ") || "None"}`
+Tags: ${result.tags?.join(", ") || "None"}${suggestedColors}`
   }
 
   const handleCopyPrompt = (result: AccessibilityResult) => {
@@ -333,6 +417,8 @@ Tags: ${result.tags?.join(", ") || "None"}`
           url: result.url,
           elementPath: (result as any).elementPath || '',
           element: result.element,
+          projectId,
+          viewport: result.viewport,
         }),
       })
 
@@ -384,6 +470,34 @@ Tags: ${result.tags?.join(", ") || "None"}`
         </div>
       )}
 
+      {lifecycle && (lifecycle.new + lifecycle.open + lifecycle.regressed + lifecycle.fixed) > 0 && (
+        <div className="flex flex-wrap gap-2 text-sm mb-4">
+          <span className="text-gray-500">Latest scan:</span>
+          <Badge className="bg-red-500 hover:bg-red-600">{lifecycle.new} new</Badge>
+          <Badge className="bg-purple-500 hover:bg-purple-600">{lifecycle.regressed} regressed</Badge>
+          <Badge className="bg-gray-500 hover:bg-gray-600">{lifecycle.open} still open</Badge>
+          <Badge className="bg-green-500 hover:bg-green-600">{lifecycle.fixed} fixed</Badge>
+        </div>
+      )}
+
+      {comparesViewports && (
+        <div className="flex flex-wrap gap-2 text-sm mb-4">
+          <span className="text-gray-500">By viewport:</span>
+          {viewports.map(({ viewport, total, exclusive }) => (
+            <button
+              key={viewport}
+              type="button"
+              aria-pressed={viewportFilters.includes(viewport)}
+              onClick={() => onViewportFilterChange!(viewportFilters.includes(viewport) ? [] : [viewport])}
+              className={`rounded-md border px-2 py-1 ${viewportFilters.includes(viewport) ? "bg-gray-100 text-black" : "hover:bg-gray-50"}`}
+            >
+              {VIEWPORT_LABELS[viewport] || viewport}: {total} issues
+              {exclusive > 0 && <span className="text-gray-500"> ({exclusive} only here)</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="flex flex-col sm:flex-row gap-4 mb-4">
         <div className="relative flex-1">
           <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
@@ -530,6 +644,40 @@ Tags: ${result.tags?.join(", ") || "None"}`
           </DropdownMenuContent>
         </DropdownMenu>
 
+        {comparesViewports && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="w-full sm:w-auto">
+                <Filter className="mr-2 h-4 w-4" />
+                Viewport
+                {viewportFilters.length > 0 && (
+                  <Badge className="ml-2 bg-sky-500" variant="secondary">
+                    {viewportFilters.length}
+                  </Badge>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-[200px]">
+              <DropdownMenuLabel>Filter by Viewport</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {viewports.map(({ viewport }) => (
+                <DropdownMenuCheckboxItem
+                  key={viewport}
+                  checked={viewportFilters.includes(viewport)}
+                  onCheckedChange={(checked) => {
+                    const newFilters = checked
+                      ? [...viewportFilters, viewport]
+                      : viewportFilters.filter(f => f !== viewport)
+                    onViewportFilterChange!(newFilters)
+                  }}
+                >
+                  {VIEWPORT_LABELS[viewport] || viewport}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
         <Select value={sortBy} onValueChange={onSortChange}>
           <SelectTrigger className="w-full sm:w-[180px]">
             <SelectValue placeholder="Sort by" />
@@ -587,7 +735,7 @@ Tags: ${result.tags?.join(", ") || "None"}`
         </DropdownMenu>
       </div>
 
-      {(severityFilters.length > 0 || complianceFilters.length > 0) && (
+      {hasFilters && (
         <div className="flex flex-wrap gap-2 mb-4">
           {severityFilters.map((severity) => (
             <Badge key={severity} variant="outline" className="flex items-center gap-1 bg-teal-400">
@@ -607,7 +755,16 @@ Tags: ${result.tags?.join(", ") || "None"}`
               />
             </Badge>
           ))}
-          {(severityFilters.length > 0 || complianceFilters.length > 0) && (
+          {viewportFilters.map((viewport) => (
+            <Badge key={viewport} variant="outline" className="flex items-center gap-1 bg-sky-400">
+              {VIEWPORT_LABELS[viewport] || viewport}
+              <X
+                className="h-3 w-3 cursor-pointer"
+                onClick={() => onViewportFilterChange?.(viewportFilters.filter(f => f !== viewport))}
+              />
+            </Badge>
+          ))}
+          {hasFilters && (
             <Button
               variant="ghost"
               size="sm"
@@ -615,6 +772,7 @@ Tags: ${result.tags?.join(", ") || "None"}`
               onClick={() => {
                 onSeverityFilterChange([])
                 onComplianceFilterChange([])
+                onViewportFilterChange?.([])
               }}
             >
               Clear all filters
@@ -664,7 +822,7 @@ Tags: ${result.tags?.join(", ") || "None"}`
         </div>
       ) : results.length === 0 ? (
         <div className="text-center py-10 text-gray-500">
-          {searchQuery || severityFilters.length > 0 || complianceFilters.length > 0
+          {searchQuery || hasFilters
             ? "No results match your search filters. Try adjusting your criteria."
             : "No results found. Add URLs to analyze."}
         </div>
@@ -706,9 +864,43 @@ Tags: ${result.tags?.join(", ") || "None"}`
                       <div className="text-xs text-gray-500 mt-1 truncate" title={result.help}>
                         {result.help}
                       </div>
+                      {result.ruleId && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {result.ruleId}
+                          {result.wcagCriteria && result.wcagCriteria.length > 0 && ` · WCAG ${result.wcagCriteria.join(", ")}`}
+                        </div>
+                      )}
+                      {result.details?.suggestedColors?.length > 0 && (
+                        <ContrastSuggestions details={result.details!} />
+                      )}
+                      {result.engines && result.engines.length > 0 && (
+                        <div className="text-xs text-gray-400 mt-1">
+                          Found by: {result.engines.join(", ")}
+                        </div>
+                      )}
+                      {result.details?.revealedBy && (
+                        <div className="text-xs text-gray-400 mt-1" title={result.details.revealedBy.path}>
+                          Revealed by: {result.details.revealedBy.label}
+                        </div>
+                      )}
+                      {result.flowStep && (
+                        <div className="text-xs text-gray-400 mt-1">
+                          Flow step: {result.flowStep}
+                        </div>
+                      )}
+                      {comparesViewports && result.viewport && (
+                        <div className="text-xs text-gray-400 mt-1">
+                          Viewport: {VIEWPORT_LABELS[result.viewport] || result.viewport}
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge className={getSeverityColor(result.severity)}>{result.severity}</Badge>
+                      {(result.issueState === 'new' || result.issueState === 'regressed') && (
+                        <Badge variant="outline" className="ml-1 mt-1">
+                          {result.issueState === 'new' ? 'New' : 'Regressed'}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell className="hidden sm:table-cell">
                       <div className="text-sm font-medium text-blue-600 bg-white rounded-full p-2  w-fit">
@@ -0,0 +1,382 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ArrowRight, Filter, Loader2, Search } from "lucide-react"
+import type { ScanRunSummary } from "@/lib/types"
+
+type Severity = "critical" | "serious" | "moderate" | "minor"
+
+interface ComparedIssue {
+  id: string
+  url: string
+  message: string
+  help: string | null
+  element: string | null
+  severity: string
+  ruleId: string | null
+  previousSeverity?: string
+}
+
+interface UrlComparison {
+  url: string
+  new: ComparedIssue[]
+  fixed: ComparedIssue[]
+  unchanged: ComparedIssue[]
+  severityDelta: Record<Severity, number>
+}
+
+interface NotScannedTarget {
+  url: string
+  viewport: string
+  flowId: string | null
+  fromStatus: string | null
+  toStatus: string | null
+}
+
+interface ComparisonData {
+  summary: {
+    new: number
+    fixed: number
+    unchanged: number
+    severityChanged: number
+    severityDelta: Record<Severity, number>
+  }
+  urls: UrlComparison[]
+  notScanned: NotScannedTarget[]
+}
+
+const SEVERITY_OPTIONS: { value: Severity, label: string }[] = [
+  { value: "critical", label: "Critical" },
+  { value: "serious", label: "Serious" },
+  { value: "moderate", label: "Moderate" },
+  { value: "minor", label: "Minor" },
+]
+
+const COMPLIANCE_OPTIONS = [
+  { value: "wcag2a", label: "WCAG 2.0 A" },
+  { value: "wcag2aa", label: "WCAG 2.0 AA" },
+  { value: "wcag2aaa", label: "WCAG 2.0 AAA" },
+  { value: "section508", label: "Section 508" },
+  { value: "best-practice", label: "Best Practices" },
+]
+
+interface RunComparisonProps {
+  projectId: string
+}
+
+export function RunComparison({ projectId }: RunComparisonProps) {
+  const [runs, setRuns] = useState<ScanRunSummary[]>([])
+  const [fromRunId, setFromRunId] = useState<string | null>(null)
+  const [toRunId, setToRunId] = useState<string | null>(null)
+  const [comparison, setComparison] = useState<ComparisonData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [severityFilters, setSeverityFilters] = useState<string[]>([])
+  const [complianceFilters, setComplianceFilters] = useState<string[]>([])
+  const [showUnchanged, setShowUnchanged] = useState(false)
+
+  useEffect(() => {
+    const fetchRuns = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/runs`)
+        if (!response.ok) throw new Error(`Failed to fetch runs: ${response.statusText}`)
+        const data = await response.json()
+        const finishedRuns = (data.runs as ScanRunSummary[]).filter(run => run.status === "completed")
+        setRuns(finishedRuns)
+
+        // Default to the latest run compared against the one before it
+        if (finishedRuns.length >= 2) {
+          setToRunId(finishedRuns[0].id)
+          setFromRunId(finishedRuns[1].id)
+        }
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Failed to fetch runs")
+      }
+    }
+
+    fetchRuns()
+  }, [projectId])
+
+  const fetchComparison = useCallback(async () => {
+    if (!fromRunId || !toRunId) return
+
+    setLoading(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams({
+        from: fromRunId,
+        to: toRunId,
+        search: searchQuery,
+        ...(severityFilters.length > 0 && { severityFilters: severityFilters.join(",") }),
+        ...(complianceFilters.length > 0 && { complianceFilters: complianceFilters.join(",") })
+      })
+
+      const response = await fetch(`/api/projects/${projectId}/compare?${params}`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || "Failed to compare runs")
+      }
+
+      setComparison(await response.json())
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to compare runs")
+      setComparison(null)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId, fromRunId, toRunId, searchQuery, severityFilters, complianceFilters])
+
+  useEffect(() => {
+    fetchComparison()
+  }, [fetchComparison])
+
+  const toggleFilter = (filters: string[], value: string, checked: boolean) =>
+    checked ? [...filters, value] : filters.filter(f => f !== value)
+
+  const formatRun = (run: ScanRunSummary) =>
+    `${new Date(run.createdAt).toLocaleString()} · ${run.totalIssues} issues`
+
+  const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`)
+
+  if (runs.length < 2 && !error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">At least two completed scan runs are needed for a comparison.</p>
+        <p className="text-sm text-gray-400 mt-2">Rescan the project to create another run.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <Select value={fromRunId || undefined} onValueChange={setFromRunId}>
+          <SelectTrigger className="w-full sm:w-[300px]">
+            <SelectValue placeholder="Baseline run" />
+          </SelectTrigger>
+          <SelectContent>
+            {runs.map(run => (
+              <SelectItem key={run.id} value={run.id}>{formatRun(run)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ArrowRight className="hidden sm:block h-4 w-4 text-gray-500" />
+        <Select value={toRunId || undefined} onValueChange={setToRunId}>
+          <SelectTrigger className="w-full sm:w-[300px]">
+            <SelectValue placeholder="Compared run" />
+          </SelectTrigger>
+          <SelectContent>
+            {runs.map(run => (
+              <SelectItem key={run.id} value={run.id}>{formatRun(run)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500" />
+          <Input
+            placeholder="Search issues..."
+            className="pl-8"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-full sm:w-auto">
+              <Filter className="mr-2 h-4 w-4" />
+              Severity
+              {severityFilters.length > 0 && (
+                <Badge className="ml-2 bg-red-400" variant="secondary">
+                  {severityFilters.length}
+                </Badge>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-[200px]">
+            <DropdownMenuLabel>Filter by Severity</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {SEVERITY_OPTIONS.map(option => (
+              <DropdownMenuCheckboxItem
+                key={option.value}
+                checked={severityFilters.includes(option.value)}
+                onCheckedChange={(checked) => setSeverityFilters(toggleFilter(severityFilters, option.value, checked))}
+              >
+                {option.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="w-full sm:w-auto">
+              <Filter className="mr-2 h-4 w-4" />
+              Compliance
+              {complianceFilters.length > 0 && (
+                <Badge className="ml-2 bg-green-500" variant="secondary">
+                  {complianceFilters.length}
+                </Badge>
+              )}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-[200px]">
+            <DropdownMenuLabel>Filter by Compliance</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {COMPLIANCE_OPTIONS.map(option => (
+              <DropdownMenuCheckboxItem
+                key={option.value}
+                checked={complianceFilters.includes(option.value)}
+                onCheckedChange={(checked) => setComplianceFilters(toggleFilter(complianceFilters, option.value, checked))}
+              >
+                {option.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button variant="outline" onClick={() => setShowUnchanged(!showUnchanged)}>
+          {showUnchanged ? "Hide unchanged" : "Show unchanged"}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-40">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      ) : comparison && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-red-100 p-4 rounded-lg">
+              <div className="text-sm text-gray-500">New</div>
+              <div className="text-2xl font-bold text-black">{comparison.summary.new}</div>
+            </div>
+            <div className="bg-green-100 p-4 rounded-lg">
+              <div className="text-sm text-gray-500">Fixed</div>
+              <div className="text-2xl font-bold text-black">{comparison.summary.fixed}</div>
+            </div>
+            <div className="bg-gray-100 p-4 rounded-lg">
+              <div className="text-sm text-gray-500">Unchanged</div>
+              <div className="text-2xl font-bold text-black">{comparison.summary.unchanged}</div>
+            </div>
+            <div className="bg-yellow-100 p-4 rounded-lg">
+              <div className="text-sm text-gray-500">Severity changed</div>
+              <div className="text-2xl font-bold text-black">{comparison.summary.severityChanged}</div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 text-sm">
+            <span className="text-gray-500">Severity delta:</span>
+            {SEVERITY_OPTIONS.map(option => (
+              <Badge key={option.value} variant="outline">
+                {option.label} {formatDelta(comparison.summary.severityDelta[option.value])}
+              </Badge>
+            ))}
+          </div>
+
+          {comparison.notScanned.length > 0 && (
+            <div className="rounded-lg border border-yellow-300 bg-yellow-50 p-4 text-sm space-y-1">
+              <div className="font-medium text-black">
+                Not scanned in both runs ({comparison.notScanned.length}); these are left out of the comparison
+              </div>
+              {comparison.notScanned.map(target => (
+                <div key={`${target.flowId || target.url}|${target.viewport}`} className="text-gray-600 truncate" title={target.url}>
+                  {target.url}{target.flowId ? " (flow)" : ""} · {target.viewport} · from: {target.fromStatus || "not in run"}, to: {target.toStatus || "not in run"}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {comparison.urls.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No issues match the current filters.</p>
+          )}
+
+          {comparison.urls.map(urlComparison => {
+            const rows = [
+              ...urlComparison.new.map(issue => ({ issue, change: "new" as const })),
+              ...urlComparison.fixed.map(issue => ({ issue, change: "fixed" as const })),
+              ...urlComparison.unchanged
+                .filter(issue => showUnchanged || issue.previousSeverity)
+                .map(issue => ({ issue, change: "unchanged" as const })),
+            ]
+
+            return (
+              <div key={urlComparison.url} className="space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <h3 className="font-medium truncate" title={urlComparison.url}>{urlComparison.url}</h3>
+                  <div className="text-sm text-gray-500">
+                    {urlComparison.new.length} new · {urlComparison.fixed.length} fixed · {urlComparison.unchanged.length} unchanged
+                  </div>
+                </div>
+                {rows.length > 0 && (
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Change</TableHead>
+                          <TableHead>Issue</TableHead>
+                          <TableHead>Severity</TableHead>
+                          <TableHead className="hidden md:table-cell">Element</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map(({ issue, change }) => (
+                          <TableRow key={`${change}-${issue.id}`}>
+                            <TableCell>
+                              <Badge
+                                className={
+                                  change === "new"
+                                    ? "bg-red-500 hover:bg-red-600"
+                                    : change === "fixed"
+                                      ? "bg-green-500 hover:bg-green-600"
+                                      : "bg-gray-500 hover:bg-gray-600"
+                                }
+                              >
+                                {change}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="truncate max-w-[300px]" title={issue.message}>{issue.message}</div>
+                              {issue.ruleId && <div className="text-xs text-gray-500 mt-1">{issue.ruleId}</div>}
+                            </TableCell>
+                            <TableCell>
+                              {issue.previousSeverity ? `${issue.previousSeverity} → ${issue.severity}` : issue.severity}
+                            </TableCell>
+                            <TableCell className="hidden md:table-cell">
+                              <code className="text-xs bg-gray-100 text-black p-1 rounded truncate max-w-[250px] block" title={issue.element || ""}>
+                                {issue.element}
+                              </code>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </>
+      )}
+    </div>
+  )
+}
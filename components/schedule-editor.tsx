@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { CalendarClock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { toast } from "@/components/ui/use-toast"
+
+// Mirrors SCHEDULE_PRESETS in lib/scheduler.ts
+const PRESETS = {
+  daily: { cron: "0 2 * * *", label: "Daily at 02:00" },
+  weekly: { cron: "0 2 * * 1", label: "Weekly on Monday at 02:00" },
+} as const
+
+type ScheduleMode = keyof typeof PRESETS | "custom"
+
+export interface ProjectSchedule {
+  scheduleEnabled: boolean
+  scheduleCron: string | null
+  scheduleTimezone: string
+  nextScheduledAt: Date | string | null
+  lastScheduledAt: Date | string | null
+}
+
+interface ScheduleEditorProps {
+  projectId: string
+  schedule: ProjectSchedule
+}
+
+function modeForCron(cron: string | null): ScheduleMode {
+  if (cron === PRESETS.daily.cron) return "daily"
+  if (cron === PRESETS.weekly.cron) return "weekly"
+  return cron ? "custom" : "daily"
+}
+
+export function ScheduleEditor({ projectId, schedule }: ScheduleEditorProps) {
+  const [open, setOpen] = useState(false)
+  const [enabled, setEnabled] = useState(schedule.scheduleEnabled)
+  const [mode, setMode] = useState<ScheduleMode>(modeForCron(schedule.scheduleCron))
+  const [cron, setCron] = useState(schedule.scheduleCron || "")
+  const [timezone, setTimezone] = useState(
+    schedule.scheduleCron ? schedule.scheduleTimezone : Intl.DateTimeFormat().resolvedOptions().timeZone
+  )
+  const [isSaving, setIsSaving] = useState(false)
+  const router = useRouter()
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/schedule`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled,
+          timezone,
+          ...(mode === "custom" ? { cron } : { preset: mode })
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save schedule')
+
+      toast({
+        title: "Success",
+        description: data.scheduleEnabled && data.nextScheduledAt
+          ? `Next scan: ${new Date(data.nextScheduledAt).toLocaleString()}`
+          : "Scheduled scans disabled"
+      })
+      setOpen(false)
+      router.refresh()
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save schedule",
+        variant: "destructive"
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarClock className="h-4 w-4 mr-2" />
+          {schedule.scheduleEnabled ? "Scheduled" : "Schedule"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Scheduled Scans</DialogTitle>
+          <DialogDescription>
+            Rescan every URL in this project automatically. A scheduled scan is skipped while an earlier scan is still running.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="schedule-enabled">Enabled</Label>
+            <Switch id="schedule-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Frequency</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as ScheduleMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">{PRESETS.daily.label}</SelectItem>
+                <SelectItem value="weekly">{PRESETS.weekly.label}</SelectItem>
+                <SelectItem value="custom">Custom cron expression</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === "custom" && (
+            <div className="space-y-2">
+              <Label htmlFor="schedule-cron">Cron expression</Label>
+              <Input
+                id="schedule-cron"
+                placeholder="0 2 * * 1-5"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">Five fields: minute, hour, day of month, month, day of week</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-timezone">Timezone</Label>
+            <Input
+              id="schedule-timezone"
+              placeholder="Europe/Berlin"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+          </div>
+
+          <div className="text-sm text-gray-500 space-y-1">
+            {schedule.scheduleEnabled && schedule.nextScheduledAt && (
+              <div>Next scan: {new Date(schedule.nextScheduledAt).toLocaleString()}</div>
+            )}
+            {schedule.lastScheduledAt && (
+              <div>Last scheduled: {new Date(schedule.lastScheduledAt).toLocaleString()}</div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,284 @@
+"use client"
+
+import { useState, useEffect, type ReactNode } from "react"
+import { Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { AccessibilityTreeNode, AccessibilityTreeSnapshot } from "@/lib/types"
+
+interface TreeScan {
+  id: string
+  url: string
+  viewport: string
+  completedAt: string | null
+}
+
+interface TreeResult {
+  id: string
+  ruleId: string | null
+  message: string
+  severity: string
+  elementPath: string | null
+  axNodeId: string | null
+}
+
+interface TreeItem {
+  node: AccessibilityTreeNode
+  depth: number
+  issues: TreeResult[]
+}
+
+const LANDMARK_ROLES = ["banner", "navigation", "main", "contentinfo", "complementary", "search", "form", "region"]
+// Read as a whole, with their name standing in for everything inside them
+const LEAF_ROLES = [
+  "link", "button", "heading", "tab", "menuitem", "menuitemcheckbox", "menuitemradio", "option", "treeitem",
+  "checkbox", "radio", "switch", "textbox", "searchbox", "combobox", "slider", "spinbutton", "image", "img",
+  "progressbar", "meter",
+]
+// Announced when entered even without a name
+const STRUCTURE_ROLES = [...LANDMARK_ROLES, "list", "table", "grid", "dialog", "alertdialog", "figure", "group", "radiogroup", "tablist", "menu", "menubar", "tree"]
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: "bg-red-500 hover:bg-red-600",
+  serious: "bg-orange-500 hover:bg-orange-600",
+  moderate: "bg-yellow-500 hover:bg-yellow-600",
+  minor: "bg-blue-500 hover:bg-blue-600",
+}
+
+function headingLevel(node: AccessibilityTreeNode): number {
+  const level = node.properties?.find(property => property.startsWith("level="))
+  return level ? Number(level.slice(6)) || 2 : 2
+}
+
+function subtreeIssues(node: AccessibilityTreeNode, issuesByNode: Map<string, TreeResult[]>): TreeResult[] {
+  return [
+    ...(issuesByNode.get(node.id) || []),
+    ...(node.children || []).flatMap(child => subtreeIssues(child, issuesByNode)),
+  ]
+}
+
+function collectByRole(
+  node: AccessibilityTreeNode,
+  matches: (node: AccessibilityTreeNode) => boolean,
+  issuesByNode: Map<string, TreeResult[]>,
+  depth = 0,
+  items: TreeItem[] = []
+): TreeItem[] {
+  const matched = matches(node)
+  if (matched) items.push({ node, depth, issues: issuesByNode.get(node.id) || [] })
+  for (const child of node.children || []) {
+    collectByRole(child, matches, issuesByNode, matched ? depth + 1 : depth, items)
+  }
+  return items
+}
+
+/**
+ * The order a screen reader's browse mode reads the page in: text, and controls and headings
+ * by their name. Containers are listed when a screen reader would announce entering them, or
+ * when an issue was found on them.
+ */
+function linearize(
+  node: AccessibilityTreeNode,
+  issuesByNode: Map<string, TreeResult[]>,
+  depth = 0,
+  items: TreeItem[] = []
+): TreeItem[] {
+  for (const child of node.children || []) {
+    if (child.role === "StaticText") {
+      items.push({ node: child, depth, issues: [] })
+    } else if (LEAF_ROLES.includes(child.role)) {
+      items.push({ node: child, depth, issues: subtreeIssues(child, issuesByNode) })
+    } else {
+      const issues = issuesByNode.get(child.id) || []
+      const announced = Boolean(child.name) || STRUCTURE_ROLES.includes(child.role) || issues.length > 0
+      if (announced) items.push({ node: child, depth, issues })
+      linearize(child, issuesByNode, announced ? depth + 1 : depth, items)
+    }
+  }
+  return items
+}
+
+function NodeLine({ item, label, children }: { item: TreeItem, label?: string, children?: ReactNode }) {
+  const { node } = item
+  return (
+    <li className="py-1" style={{ paddingLeft: `${item.depth * 16}px` }}>
+      {node.role === "StaticText" ? (
+        <span className="text-sm">{node.name}</span>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="outline">{label || node.role}</Badge>
+          {node.name ? <span className="font-medium">{node.name}</span> : <span className="italic text-gray-400">no name</span>}
+          {node.value && <span className="text-gray-500">value: {node.value}</span>}
+          {node.properties?.map(property => (
+            <span key={property} className="text-xs text-gray-500">{property}</span>
+          ))}
+        </div>
+      )}
+      {node.description && <div className="text-xs text-gray-500">{node.description}</div>}
+      {item.issues.map(issue => (
+        <div key={issue.id} className="flex items-center gap-2 mt-1 text-xs">
+          <Badge className={SEVERITY_COLORS[issue.severity] || "bg-gray-500 hover:bg-gray-600"}>{issue.severity}</Badge>
+          <span>{issue.message}</span>
+          {issue.ruleId && <span className="text-gray-400">{issue.ruleId}</span>}
+        </div>
+      ))}
+      {children}
+    </li>
+  )
+}
+
+interface ScreenReaderViewProps {
+  projectId: string
+}
+
+export function ScreenReaderView({ projectId }: ScreenReaderViewProps) {
+  const [scans, setScans] = useState<TreeScan[]>([])
+  const [scanId, setScanId] = useState<string | null>(null)
+  const [tree, setTree] = useState<AccessibilityTreeSnapshot | null>(null)
+  const [results, setResults] = useState<TreeResult[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchScans = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/accessibility-trees`)
+        if (!response.ok) throw new Error("Failed to fetch scanned pages")
+        const data = await response.json()
+        setScans(data.scans)
+        setScanId(data.scans[0]?.id || null)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Failed to fetch scanned pages")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchScans()
+  }, [projectId])
+
+  useEffect(() => {
+    if (!scanId) return
+
+    const fetchTree = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(`/api/projects/${projectId}/accessibility-trees/${scanId}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to fetch accessibility tree")
+        setTree(data.tree)
+        setResults(data.results)
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "Failed to fetch accessibility tree")
+        setTree(null)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchTree()
+  }, [projectId, scanId])
+
+  if (!loading && scans.length === 0 && !error) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">No accessibility trees in the latest scan run.</p>
+        <p className="text-sm text-gray-400 mt-2">Trees are captured by the browser engine; rescan with a strategy that includes it.</p>
+      </div>
+    )
+  }
+
+  const issuesByNode = new Map<string, TreeResult[]>()
+  for (const result of results) {
+    if (!result.axNodeId) continue
+    issuesByNode.set(result.axNodeId, [...(issuesByNode.get(result.axNodeId) || []), result])
+  }
+  const unlinked = results.filter(result => !result.axNodeId).length
+
+  const landmarks = tree
+    ? collectByRole(tree.root, node => LANDMARK_ROLES.includes(node.role) && ((node.role !== "region" && node.role !== "form") || Boolean(node.name)), issuesByNode)
+    : []
+  const headings = tree ? collectByRole(tree.root, node => node.role === "heading", issuesByNode) : []
+  const readingOrder = tree ? linearize(tree.root, issuesByNode) : []
+
+  return (
+    <div className="space-y-6">
+      <Select value={scanId || undefined} onValueChange={setScanId}>
+        <SelectTrigger className="w-full sm:w-[500px]">
+          <SelectValue placeholder="Select a page" />
+        </SelectTrigger>
+        <SelectContent>
+          {scans.map(scan => (
+            <SelectItem key={scan.id} value={scan.id}>
+              {scan.url} · {scan.viewport}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-40">
+          <Loader2 className="h-8 w-8 animate-spin text-gray-500" />
+        </div>
+      ) : tree && (
+        <>
+          <div className="text-sm text-gray-500">
+            {tree.nodeCount} nodes captured {new Date(tree.capturedAt).toLocaleString()}
+            {tree.truncated && " · the page was larger than a snapshot keeps, so the end is cut off"}
+            {unlinked > 0 && ` · ${unlinked} of ${results.length} issues could not be placed in the tree`}
+          </div>
+
+          <Tabs defaultValue="reading-order">
+            <TabsList>
+              <TabsTrigger value="reading-order">Reading Order</TabsTrigger>
+              <TabsTrigger value="headings">Headings ({headings.length})</TabsTrigger>
+              <TabsTrigger value="landmarks">Landmarks ({landmarks.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="reading-order">
+              <ol className="divide-y">
+                {readingOrder.map(item => <NodeLine key={item.node.id} item={item} />)}
+              </ol>
+            </TabsContent>
+
+            <TabsContent value="headings">
+              {headings.length === 0 ? (
+                <p className="text-gray-500 py-4">The page has no headings.</p>
+              ) : (
+                <ol className="divide-y">
+                  {headings.map((item, index) => {
+                    const level = headingLevel(item.node)
+                    const previousLevel = index > 0 ? headingLevel(headings[index - 1].node) : 0
+                    return (
+                      <NodeLine key={item.node.id} item={{ ...item, depth: level - 1 }} label={`H${level}`}>
+                        {level > previousLevel + 1 && (
+                          <div className="text-xs text-orange-600">
+                            Skips from {previousLevel ? `level ${previousLevel}` : "the top"} to level {level}
+                          </div>
+                        )}
+                      </NodeLine>
+                    )
+                  })}
+                </ol>
+              )}
+            </TabsContent>
+
+            <TabsContent value="landmarks">
+              {landmarks.length === 0 ? (
+                <p className="text-gray-500 py-4">The page has no landmarks.</p>
+              ) : (
+                <ul className="divide-y">
+                  {landmarks.map(item => <NodeLine key={item.node.id} item={item} />)}
+                </ul>
+              )}
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  )
+}
@@ -13,12 +13,13 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
-import type { ComplianceOptions } from "@/lib/types"
+import type { ComplianceOptions, WcagVersion } from "@/lib/types"
 
 export function UrlForm() {
   const [urls, setUrls] = useState("")
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [wcagLevel, setWcagLevel] = useState("aa")
+  const [wcagVersion, setWcagVersion] = useState<WcagVersion>("2.1")
   const [complianceOptions, setComplianceOptions] = useState({
     section508: false,
     bestPractices: true,
@@ -73,6 +74,7 @@ export function UrlForm() {
       const options: ComplianceOptions = {
         // @ts-ignore
         wcagLevel,
+        wcagVersion,
         section508: complianceOptions.section508,
         bestPractices: complianceOptions.bestPractices,
         experimental: complianceOptions.experimental,
@@ -227,20 +229,37 @@ export function UrlForm() {
       {hasUrls && (
         <>
           <div className="space-y-4">
-            <div>
-              <Label htmlFor="wcag-level" className="text-sm font-medium">
-                WCAG Compliance Level
-              </Label>
-              <Select value={wcagLevel} onValueChange={setWcagLevel}>
-                <SelectTrigger id="wcag-level" className="w-full mt-1">
-                  <SelectValue placeholder="Select WCAG level" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="a">WCAG 2.1 A</SelectItem>
-                  <SelectItem value="aa">WCAG 2.1 AA (Recommended)</SelectItem>
-                  <SelectItem value="aaa">WCAG 2.1 AAA</SelectItem>
-                </SelectContent>
-              </Select>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="wcag-version" className="text-sm font-medium">
+                  WCAG Version
+                </Label>
+                <Select value={wcagVersion} onValueChange={value => setWcagVersion(value as WcagVersion)}>
+                  <SelectTrigger id="wcag-version" className="w-full mt-1">
+                    <SelectValue placeholder="Select WCAG version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="2.0">WCAG 2.0</SelectItem>
+                    <SelectItem value="2.1">WCAG 2.1</SelectItem>
+                    <SelectItem value="2.2">WCAG 2.2</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="wcag-level" className="text-sm font-medium">
+                  WCAG Compliance Level
+                </Label>
+                <Select value={wcagLevel} onValueChange={setWcagLevel}>
+                  <SelectTrigger id="wcag-level" className="w-full mt-1">
+                    <SelectValue placeholder="Select WCAG level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="a">Level A</SelectItem>
+                    <SelectItem value="aa">Level AA (Recommended)</SelectItem>
+                    <SelectItem value="aaa">Level AAA</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             <Card>
@@ -0,0 +1,20 @@
+export async function register() {
+  // Scan workers need Prisma and Playwright, so only start them in the Node.js server runtime
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.NEXT_PHASE !== 'phase-production-build' &&
+    process.env.SCAN_WORKERS_DISABLED !== 'true'
+  ) {
+    const { startScanWorkers } = await import('./lib/scan-worker')
+    await startScanWorkers()
+  }
+
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.NEXT_PHASE !== 'phase-production-build' &&
+    process.env.SCAN_SCHEDULER_DISABLED !== 'true'
+  ) {
+    const { startScheduler } = await import('./lib/scheduler')
+    startScheduler()
+  }
+}
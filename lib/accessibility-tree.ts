@@ -0,0 +1,171 @@
+import type { Page } from "playwright-core"
+import type { Protocol } from "playwright-core/types/protocol"
+import type { AccessibilityResult, AccessibilityTreeNode, AccessibilityTreeSnapshot } from "./types"
+
+const MAX_TREE_NODES = 5000
+const MAX_TEXT_LENGTH = 300
+// Roles that only group or lay out content; unnamed ones are left out and their children moved up
+const TRANSPARENT_ROLES = ['none', 'generic', 'presentation', 'LineBreak']
+// Properties a screen reader announces. The rest (focused, settable, url, ...) describe the
+// browser's state rather than the page.
+const ANNOUNCED_PROPERTIES = [
+  'level', 'checked', 'expanded', 'pressed', 'selected', 'disabled', 'required', 'invalid',
+  'readonly', 'hasPopup', 'modal', 'multiselectable', 'live', 'busy', 'valuetext', 'roledescription',
+  'autocomplete', 'focusable',
+]
+// For these a false value is announced too ("not checked", "collapsed")
+const TRISTATE_PROPERTIES = ['checked', 'expanded', 'pressed', 'selected']
+
+export interface CapturedAccessibilityTree {
+  snapshot: AccessibilityTreeSnapshot
+  // Backend DOM node id to the snapshot node it's part of
+  nodeIdsByDomNode: Map<number, string>
+}
+
+/**
+ * Captures Chromium's accessibility tree for the page's main frame: the roles, names and
+ * states assistive technology is given, in document order.
+ */
+export async function captureAccessibilityTree(page: Page): Promise<CapturedAccessibilityTree> {
+  const cdp = await page.context().newCDPSession(page)
+
+  try {
+    const { nodes } = await cdp.send('Accessibility.getFullAXTree')
+    const nodesById = new Map(nodes.map(node => [node.nodeId, node]))
+    const nodeIdsByDomNode = new Map<number, string>()
+    const mergedInto = new Map<string, string>()
+    let nodeCount = 0
+    let truncated = false
+
+    // Chromium splits text at every inline element; a screen reader reads the run as one line
+    const mergeText = (siblings: AccessibilityTreeNode[]) => {
+      const merged: AccessibilityTreeNode[] = []
+      for (const node of siblings) {
+        const previous = merged[merged.length - 1]
+        if (node.role === 'StaticText' && previous?.role === 'StaticText') {
+          previous.name = `${previous.name || ''}${node.name || ''}`
+          mergedInto.set(node.id, previous.id)
+          nodeCount--
+          continue
+        }
+        merged.push(node)
+      }
+      return merged.filter(node => {
+        if (node.role !== 'StaticText') return true
+        node.name = cleanText(node.name)
+        if (node.name === '') nodeCount--
+        return node.name !== ''
+      })
+    }
+
+    const build = (axNode: Protocol.Accessibility.AXNode): AccessibilityTreeNode[] => {
+      const role = String(axNode.role?.value ?? 'unknown')
+      if (role === 'InlineTextBox') return []
+
+      // Text keeps its edge spaces until it's merged with its neighbours
+      const name = role === 'StaticText'
+        ? String(axNode.name?.value ?? '').replace(/\s+/g, ' ')
+        : cleanText(axNode.name?.value)
+      const kept = !axNode.ignored && !(TRANSPARENT_ROLES.includes(role) && !name)
+      if (kept && nodeCount >= MAX_TREE_NODES) {
+        truncated = true
+        return []
+      }
+      if (kept) nodeCount++
+
+      const children = mergeText((axNode.childIds || []).flatMap(childId => {
+        const child = nodesById.get(childId)
+        return child ? build(child) : []
+      }))
+      if (!kept) return children
+
+      const node: AccessibilityTreeNode = { id: axNode.nodeId, role }
+      if (name) node.name = name
+      const description = cleanText(axNode.description?.value)
+      if (description) node.description = description
+      const value = cleanText(axNode.value?.value)
+      if (value) node.value = value
+      const properties = announcedProperties(axNode.properties || [])
+      if (properties.length > 0) node.properties = properties
+      if (children.length > 0) node.children = children
+
+      if (axNode.backendDOMNodeId !== undefined) nodeIdsByDomNode.set(axNode.backendDOMNodeId, node.id)
+      return [node]
+    }
+
+    const rootNode = nodes.find(node => !node.parentId)
+    if (!rootNode) throw new Error('The page has no accessibility tree')
+    const [root = { id: rootNode.nodeId, role: 'RootWebArea' }] = build(rootNode)
+    for (const [domNodeId, nodeId] of nodeIdsByDomNode) {
+      const mergedId = mergedInto.get(nodeId)
+      if (mergedId) nodeIdsByDomNode.set(domNodeId, mergedId)
+    }
+
+    return {
+      snapshot: { root, nodeCount, truncated, capturedAt: new Date().toISOString() },
+      nodeIdsByDomNode,
+    }
+  } finally {
+    await cdp.detach().catch(() => {})
+  }
+}
+
+/**
+ * Records on each result the snapshot node its element belongs to, in `details.axNodeId`.
+ * Elements the tree leaves out link to their closest ancestor in it. Results whose selector
+ * doesn't resolve in the main document (frames, shadow DOM, elements since removed) are left
+ * unlinked, as are those that would only link to the document itself.
+ */
+export async function linkResultsToTree(page: Page, captured: CapturedAccessibilityTree, results: AccessibilityResult[]) {
+  const cdp = await page.context().newCDPSession(page)
+
+  try {
+    const { root } = await cdp.send('DOM.getDocument', { depth: -1 })
+    const domNodes = new Map<number, { backendNodeId: number, parentId?: number }>()
+    const index = (node: Protocol.DOM.Node, parentId?: number) => {
+      domNodes.set(node.nodeId, { backendNodeId: node.backendNodeId, parentId })
+      for (const child of node.children || []) index(child, node.nodeId)
+    }
+    index(root)
+
+    for (const result of results) {
+      if (typeof result.elementPath !== 'string' || !result.elementPath) continue
+
+      let nodeId: number
+      try {
+        ({ nodeId } = await cdp.send('DOM.querySelector', { nodeId: root.nodeId, selector: result.elementPath }))
+      } catch {
+        continue // Not a selector the browser accepts
+      }
+
+      for (let current = domNodes.get(nodeId); current; current = current.parentId === undefined ? undefined : domNodes.get(current.parentId)) {
+        const axNodeId = captured.nodeIdsByDomNode.get(current.backendNodeId)
+        if (!axNodeId) continue
+        if (axNodeId !== captured.snapshot.root.id) {
+          result.details = { ...result.details, axNodeId }
+        }
+        break
+      }
+    }
+  } finally {
+    await cdp.detach().catch(() => {})
+  }
+}
+
+function cleanText(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = String(value).replace(/\s+/g, ' ').trim()
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text
+}
+
+function announcedProperties(properties: Protocol.Accessibility.AXProperty[]): string[] {
+  return properties.flatMap(property => {
+    if (!ANNOUNCED_PROPERTIES.includes(property.name)) return []
+    const value = property.value.value
+    if (value === true || value === 'true') return [property.name]
+    if (value === false || value === 'false' || value === undefined || value === '') {
+      return TRISTATE_PROPERTIES.includes(property.name) ? [`${property.name}=false`] : []
+    }
+    return [`${property.name}=${value}`]
+  })
+}
@@ -0,0 +1,175 @@
+import { analyzeAccessibility as simpleAnalyze } from "./simple-checker"
+import { analyzeAccessibility as playwrightAnalyze } from "./playwright-axe"
+import { analyzeAccessibility as htmlAnalyze } from "./html-validator"
+import { normalizeElementSnippet } from "./issue-tracker"
+import type { AuthSession } from "./auth-session"
+import { getProjectViewports } from "./viewports"
+import { appliesToWcagVersion, DEFAULT_WCAG_VERSION } from "./rule-catalog"
+import type { AccessibilityResult, AccessibilitySummary, AccessibilityTreeSnapshot, ComplianceOptions, EngineStrategy, PageStructureReport, ViewportProfile } from "./types"
+
+export type AnalysisEngine = 'playwright' | 'html-validator' | 'simple'
+
+export const DEFAULT_ENGINE_STRATEGY: EngineStrategy = 'all-merged'
+
+const STRATEGY_ENGINES: Record<EngineStrategy, AnalysisEngine[]> = {
+  'axe-only': ['playwright'],
+  'static-only': ['html-validator', 'simple'],
+  'all-merged': ['playwright', 'html-validator', 'simple'],
+}
+
+// When engines report the same issue, the first engine in this list wins for message/help text
+const ENGINE_PRIORITY: AnalysisEngine[] = ['playwright', 'html-validator', 'simple']
+
+const SEVERITY_RANK: Record<AccessibilityResult['severity'], number> = {
+  critical: 4,
+  serious: 3,
+  moderate: 2,
+  minor: 1,
+}
+
+export interface EngineAnalysisResult {
+  results: AccessibilityResult[]
+  summary: AccessibilitySummary
+  engines: AnalysisEngine[]
+  // Engines the strategy asked for that threw; their issues can't be judged fixed by this scan
+  failedEngines: AnalysisEngine[]
+  axeVersion: string | null
+  // Captured by the browser engine, when it ran
+  accessibilityTree: AccessibilityTreeSnapshot | null
+  // From the rendered page when the browser engine ran, otherwise from the fetched HTML
+  pageStructure: PageStructureReport | null
+}
+
+/**
+ * Runs every engine the strategy asks for and merges their findings. A single engine failing
+ * is logged, skipped and listed in `failedEngines`; the analysis only throws when none of the
+ * engines succeeded. All
+ * engines load the page with the same auth session, if any. Only the browser engine renders
+ * the page, so it's the only one the viewport profile applies to.
+ */
+export async function runAnalysisEngines(
+  url: string,
+  complianceOptions: ComplianceOptions,
+  auth?: AuthSession | null,
+  viewport?: ViewportProfile,
+): Promise<EngineAnalysisResult> {
+  const strategy = complianceOptions.engineStrategy || DEFAULT_ENGINE_STRATEGY
+  const strategyEngines = STRATEGY_ENGINES[strategy] || STRATEGY_ENGINES[DEFAULT_ENGINE_STRATEGY]
+  // Fetch-based engines see the same HTML at every size, so they only run for the project's
+  // first profile rather than reporting the same findings once per viewport. Static-only
+  // projects are only scanned at that profile (see getProjectViewports).
+  const isPrimaryViewport = !viewport || viewport === getProjectViewports(complianceOptions)[0]
+  const engines = isPrimaryViewport
+    ? strategyEngines
+    : strategyEngines.filter(engine => engine === 'playwright')
+
+  const succeeded: AnalysisEngine[] = []
+  const failed: AnalysisEngine[] = []
+  const failures: string[] = []
+  const engineResults: { engine: AnalysisEngine, results: AccessibilityResult[] }[] = []
+  let axeVersion: string | null = null
+  let accessibilityTree: AccessibilityTreeSnapshot | null = null
+  let pageStructure: PageStructureReport | null = null
+
+  // Engines run one after another so a scan never holds more than one browser context
+  for (const engine of engines) {
+    try {
+      console.log(`Running ${engine} analysis for ${url}`)
+      let results: AccessibilityResult[]
+      if (engine === 'playwright') {
+        const analysis = await playwrightAnalyze(url, {
+          ...complianceOptions,
+          captureScreenshots: false // Disable screenshots for faster processing
+        }, auth, viewport)
+        axeVersion = analysis.axeVersion
+        accessibilityTree = analysis.accessibilityTree
+        pageStructure = analysis.pageStructure || pageStructure
+        results = analysis.results
+      } else if (engine === 'html-validator') {
+        const analysis = await htmlAnalyze(url, complianceOptions, auth)
+        if (pageStructure?.source !== 'browser') pageStructure = analysis.pageStructure
+        results = analysis.results
+      } else {
+        results = (await simpleAnalyze(url, complianceOptions, auth)).results
+      }
+      engineResults.push({ engine, results })
+      succeeded.push(engine)
+      console.log(`${engine} analysis succeeded for ${url}, found ${results.length} issues`)
+    } catch (error) {
+      console.warn(`${engine} analysis failed for ${url}:`, error instanceof Error ? error.message : String(error))
+      failed.push(engine)
+      failures.push(`${engine}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  if (succeeded.length === 0) {
+    throw new Error(`All analysis engines failed: ${failures.join(', ')}`)
+  }
+
+  // Native checks don't know the project's WCAG version; drop criteria it doesn't include
+  const wcagVersion = complianceOptions.wcagVersion || DEFAULT_WCAG_VERSION
+  const results = mergeEngineResults(engineResults).filter(result => appliesToWcagVersion(result, wcagVersion))
+
+  return {
+    results,
+    summary: summarizeResults(results),
+    engines: succeeded,
+    failedEngines: failed,
+    axeVersion,
+    accessibilityTree,
+    pageStructure
+  }
+}
+
+// Engines set a catalog rule id on their results; anything without one falls back to its id
+// without the trailing index
+function resolveRuleId(result: AccessibilityResult): string {
+  return result.ruleId || result.id.replace(/-\d+$/, '')
+}
+
+function mergeEngineResults(engineResults: { engine: AnalysisEngine, results: AccessibilityResult[] }[]): AccessibilityResult[] {
+  const ordered = [...engineResults].sort(
+    (a, b) => ENGINE_PRIORITY.indexOf(a.engine) - ENGINE_PRIORITY.indexOf(b.engine)
+  )
+
+  const merged = new Map<string, AccessibilityResult>()
+
+  for (const { engine, results } of ordered) {
+    for (const result of results) {
+      const ruleId = resolveRuleId(result)
+      const key = `${result.url}|${ruleId}|${normalizeElementSnippet(result.element)}`
+      const existing = merged.get(key)
+
+      if (!existing) {
+        merged.set(key, { ...result, ruleId, engines: [engine] })
+        continue
+      }
+
+      if (!existing.engines!.includes(engine)) {
+        existing.engines!.push(engine)
+      }
+      existing.tags = [...new Set([...existing.tags, ...result.tags])]
+      existing.wcagCriteria = [...new Set([...(existing.wcagCriteria || []), ...(result.wcagCriteria || [])])]
+      existing.elementPath = existing.elementPath || result.elementPath
+      // axe reports contrast without the measurements the contrast audit records
+      existing.details = existing.details || result.details
+      if (SEVERITY_RANK[result.severity] > SEVERITY_RANK[existing.severity]) {
+        existing.severity = result.severity
+        existing.impact = result.impact
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+function summarizeResults(results: AccessibilityResult[]): AccessibilitySummary {
+  return {
+    critical: results.filter((r) => r.severity === "critical").length,
+    serious: results.filter((r) => r.severity === "serious").length,
+    moderate: results.filter((r) => r.severity === "moderate").length,
+    minor: results.filter((r) => r.severity === "minor").length,
+    total: results.length,
+    urlsAnalyzed: 1,
+  }
+}
@@ -0,0 +1,386 @@
+import type { BrowserContext, BrowserContextOptions } from "playwright-core"
+import { createHash } from "crypto"
+import { prisma } from "./db"
+import { acquireBrowserContext } from "./browser-pool"
+import type { AuthConfig, FlowStep } from "./types"
+
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>
+
+// Logged-in sessions are reused across scans until they're this old
+const SESSION_TTL_MS = Number(process.env.AUTH_SESSION_TTL_MS || 30 * 60 * 1000)
+const LOGIN_TIMEOUT_MS = 30000
+// Only variables with this prefix can be referenced, so a project can't send other server secrets to its pages
+export const SECRET_ENV_PREFIX = 'SCAN_SECRET_'
+// Stands in for literal header and cookie values in API responses
+export const REDACTED_VALUE = '********'
+
+/**
+ * What every engine needs to load a page as a logged-in user: browser engines use the
+ * storage state as context options and add the headers with `applyAuthHeaders`, fetch-based
+ * engines turn both into headers.
+ */
+export interface AuthSession {
+  storageState?: StorageState
+  headers: Record<string, string>
+  // The project's own origins; headers are only sent to these, never to third-party hosts
+  origins: string[]
+}
+
+interface CachedSession {
+  key: string
+  session: AuthSession
+  expiresAt: number
+}
+
+declare global {
+  var authSessions: undefined | Map<string, CachedSession>
+}
+
+const sessions = globalThis.authSessions ?? new Map<string, CachedSession>()
+globalThis.authSessions = sessions
+
+/**
+ * Resolves `env:SCAN_SECRET_*` references. Returns the literal value otherwise.
+ */
+export function resolveSecret(value: string | undefined): string | undefined {
+  if (!value?.startsWith('env:')) return value
+  const name = value.slice(4)
+  if (!name.startsWith(SECRET_ENV_PREFIX)) {
+    throw new Error(`Environment variable ${name} can't be referenced: only ${SECRET_ENV_PREFIX}* variables are available to scans`)
+  }
+  const resolved = process.env[name]
+  if (resolved === undefined) {
+    throw new Error(`Environment variable ${name} referenced by the auth config is not set`)
+  }
+  return resolved
+}
+
+// Literal values are allowed; `env:` references only to variables with the secret prefix
+export function isAllowedSecretReference(value: string): boolean {
+  return !value.startsWith('env:') || value.slice(4).startsWith(SECRET_ENV_PREFIX)
+}
+
+/**
+ * Returns a message describing why the config can't be used, or null when it's complete.
+ */
+export function validateAuthConfig(config: AuthConfig): string | null {
+  const secrets = [config.username, config.password, ...Object.values(config.headers || {}), ...(config.cookies || []).map(cookie => cookie.value)]
+  const invalidReference = secrets.find(value => value && !isAllowedSecretReference(value))
+  if (invalidReference) {
+    return `"${invalidReference}" can't be used: only ${SECRET_ENV_PREFIX}* environment variables can be referenced`
+  }
+
+  switch (config.method) {
+    case 'none':
+      return null
+    case 'login-script':
+      if (!config.loginUrl || !config.usernameSelector || !config.passwordSelector || !config.submitSelector) {
+        return 'Login URL and username, password and submit selectors are required'
+      }
+      if (!config.username || !config.password) {
+        return 'Username and password are required'
+      }
+      if (!config.password.startsWith('env:')) {
+        return `The password must reference an environment variable (env:${SECRET_ENV_PREFIX}NAME)`
+      }
+      return null
+    case 'cookies':
+      if (!config.cookies?.length && !Object.keys(config.headers || {}).length) {
+        return 'At least one cookie or header is required'
+      }
+      return null
+    case 'storage-state':
+      if (!config.storageState || !Array.isArray(config.storageState.cookies)) {
+        return 'A Playwright storageState with a cookies array is required'
+      }
+      return null
+    default:
+      return `Unknown auth method "${(config as AuthConfig).method}"`
+  }
+}
+
+/**
+ * The config as the API returns it: an imported storage state holds live session cookies,
+ * so only a summary of it leaves the server. Literal header and cookie values are masked;
+ * `env:` references are kept since they name a variable rather than hold its value.
+ */
+export function redactAuthConfig(config: AuthConfig | null | undefined) {
+  if (!config) return { method: 'none' as const }
+  const { storageState, ...rest } = config
+  return {
+    ...rest,
+    ...(rest.headers && {
+      headers: Object.fromEntries(Object.entries(rest.headers).map(([name, value]) => [name, redactValue(value)]))
+    }),
+    ...(rest.cookies && {
+      cookies: rest.cookies.map(cookie => ({ ...cookie, value: redactValue(cookie.value) }))
+    }),
+    ...(storageState && {
+      storageStateSummary: {
+        cookies: storageState.cookies.length,
+        origins: storageState.origins?.length || 0
+      }
+    })
+  }
+}
+
+/**
+ * Puts the stored values back where a client sent a config it loaded with masked values
+ * unchanged. Masked values with no stored counterpart are kept, and fail later like any
+ * wrong credential.
+ */
+export function restoreRedactedValues(config: AuthConfig, existing: AuthConfig | null | undefined): AuthConfig {
+  return {
+    ...config,
+    ...(config.headers && {
+      headers: Object.fromEntries(Object.entries(config.headers).map(([name, value]) =>
+        [name, value === REDACTED_VALUE ? existing?.headers?.[name] ?? value : value]
+      ))
+    }),
+    ...(config.cookies && {
+      cookies: config.cookies.map(cookie => cookie.value === REDACTED_VALUE
+        ? { ...cookie, value: existing?.cookies?.find(stored => stored.name === cookie.name)?.value ?? cookie.value }
+        : cookie
+      )
+    }),
+  }
+}
+
+function redactValue(value: string): string {
+  return value.startsWith('env:') ? value : REDACTED_VALUE
+}
+
+/**
+ * The session for a project, or null when the project scans public pages. Scripted logins
+ * are cached per project so a run logs in once rather than once per URL.
+ */
+export async function getProjectAuthSession(projectId: string, { fresh = false } = {}): Promise<AuthSession | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { authConfig: true, urls: { select: { url: true }, take: 1 } }
+  })
+
+  const config = project?.authConfig as AuthConfig | null | undefined
+  if (!config || config.method === 'none') return null
+
+  const origins = await getProjectOrigins(projectId)
+  const key = createHash('sha1').update(JSON.stringify({ config, origins })).digest('hex')
+  const cached = sessions.get(projectId)
+  if (!fresh && cached && cached.key === key && cached.expiresAt > Date.now()) {
+    return cached.session
+  }
+
+  const session = await createAuthSession(config, origins, project?.urls[0]?.url)
+  sessions.set(projectId, { key, session, expiresAt: Date.now() + SESSION_TTL_MS })
+  return session
+}
+
+export function clearProjectAuthSession(projectId: string) {
+  sessions.delete(projectId)
+}
+
+/**
+ * Origins the project's pages are loaded from: its URLs, the pages its flows go to and the
+ * login and verify pages. Auth headers are only sent to these.
+ */
+export async function getProjectOrigins(projectId: string): Promise<string[]> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { authConfig: true, urls: { select: { url: true } }, flows: { select: { steps: true } } }
+  })
+  if (!project) return []
+
+  const config = project.authConfig as AuthConfig | null
+  const urls = [
+    ...project.urls.map(record => record.url),
+    ...project.flows.flatMap(flow => (flow.steps as unknown as FlowStep[]).filter(step => step.action === 'goto').map(step => step.url)),
+    config?.loginUrl,
+    config?.verifyUrl,
+  ]
+  const origins = urls.flatMap(url => {
+    try {
+      return url ? [new URL(url).origin] : []
+    } catch {
+      return []
+    }
+  })
+  return [...new Set(origins)]
+}
+
+export function isSessionOrigin(session: AuthSession, url: string): boolean {
+  try {
+    return session.origins.includes(new URL(url).origin)
+  } catch {
+    return false
+  }
+}
+
+export async function createAuthSession(config: AuthConfig, origins: string[], defaultUrl?: string): Promise<AuthSession> {
+  const headers = Object.fromEntries(
+    Object.entries(config.headers || {}).map(([name, value]) => [name, resolveSecret(value) || ''])
+  )
+
+  switch (config.method) {
+    case 'login-script':
+      return { storageState: await performScriptedLogin(config, { headers, origins }), headers, origins }
+    case 'cookies':
+      return { storageState: { cookies: buildCookies(config, defaultUrl), origins: [] }, headers, origins }
+    case 'storage-state':
+      return { storageState: config.storageState as StorageState, headers, origins }
+    default:
+      return { headers, origins }
+  }
+}
+
+async function performScriptedLogin(config: AuthConfig, session: AuthSession): Promise<StorageState> {
+  const { context, release } = await acquireBrowserContext()
+  try {
+    await applyAuthHeaders(context, session)
+    const page = await context.newPage()
+    await page.goto(config.loginUrl!, { waitUntil: 'domcontentloaded', timeout: LOGIN_TIMEOUT_MS })
+    await page.fill(config.usernameSelector!, resolveSecret(config.username) || '', { timeout: LOGIN_TIMEOUT_MS })
+    await page.fill(config.passwordSelector!, resolveSecret(config.password) || '', { timeout: LOGIN_TIMEOUT_MS })
+    await page.click(config.submitSelector!, { timeout: LOGIN_TIMEOUT_MS })
+
+    if (config.successSelector) {
+      try {
+        await page.waitForSelector(config.successSelector, { timeout: LOGIN_TIMEOUT_MS })
+      } catch {
+        throw new Error(`Login did not succeed: "${config.successSelector}" never appeared after submitting`)
+      }
+    } else {
+      await page.waitForLoadState('networkidle', { timeout: LOGIN_TIMEOUT_MS }).catch(() => {})
+    }
+
+    return await context.storageState()
+  } finally {
+    await release()
+  }
+}
+
+function buildCookies(config: AuthConfig, defaultUrl?: string): StorageState['cookies'] {
+  const defaultDomain = defaultUrl ? new URL(defaultUrl).hostname : undefined
+
+  return (config.cookies || []).map(cookie => {
+    const domain = cookie.domain || defaultDomain
+    if (!domain) {
+      throw new Error(`Cookie ${cookie.name} needs a domain`)
+    }
+    return {
+      name: cookie.name,
+      value: resolveSecret(cookie.value) || '',
+      domain,
+      path: cookie.path || '/',
+      expires: -1,
+      httpOnly: false,
+      secure: false,
+      sameSite: 'Lax' as const
+    }
+  })
+}
+
+/**
+ * Context options for browser engines. Empty when there's no session so callers can
+ * spread it over their own options unconditionally. Headers aren't context options, which
+ * would send them to every host the page loads from; see `applyAuthHeaders`.
+ */
+export function authContextOptions(session: AuthSession | null | undefined): BrowserContextOptions {
+  if (!session?.storageState) return {}
+  return { storageState: session.storageState }
+}
+
+/**
+ * Adds the session's headers to the context's requests for the project's origins. Page routes
+ * run first, so they must hand requests on with `route.fallback()` for the headers to be added.
+ */
+export async function applyAuthHeaders(context: BrowserContext, session: AuthSession | null | undefined) {
+  if (!session || Object.keys(session.headers).length === 0) return
+  await context.route('**/*', route => {
+    const request = route.request()
+    if (!isSessionOrigin(session, request.url())) return route.fallback()
+    return route.fallback({ headers: { ...request.headers(), ...session.headers } })
+  })
+}
+
+/**
+ * Request headers for fetch-based engines: the configured headers, for the project's origins
+ * only, plus a Cookie header built from the session cookies that apply to `url`.
+ */
+export function authFetchHeaders(session: AuthSession | null | undefined, url: string): Record<string, string> {
+  if (!session) return {}
+
+  const target = new URL(url)
+  const now = Date.now() / 1000
+  const cookies = (session.storageState?.cookies || []).filter(cookie => {
+    const domain = cookie.domain.replace(/^\./, '')
+    const domainMatches = target.hostname === domain || target.hostname.endsWith(`.${domain}`)
+    const pathMatches = target.pathname.startsWith(cookie.path || '/')
+    const notExpired = cookie.expires === -1 || cookie.expires > now
+    const schemeMatches = !cookie.secure || target.protocol === 'https:'
+    return domainMatches && pathMatches && notExpired && schemeMatches
+  })
+
+  const headers: Record<string, string> = isSessionOrigin(session, url) ? { ...session.headers } : {}
+  if (cookies.length > 0) {
+    headers['Cookie'] = [headers['Cookie'], ...cookies.map(cookie => `${cookie.name}=${cookie.value}`)]
+      .filter(Boolean)
+      .join('; ')
+  }
+  return headers
+}
+
+/**
+ * Establishes a fresh session and loads a page with it, reporting whether the page looks
+ * logged in: the success selector is present, or we weren't sent back to the login page.
+ */
+export async function testProjectLogin(projectId: string): Promise<{ valid: boolean, message: string, finalUrl?: string }> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: { authConfig: true, urls: { select: { url: true }, take: 1 } }
+  })
+  const config = project?.authConfig as AuthConfig | null | undefined
+  if (!config || config.method === 'none') {
+    return { valid: false, message: 'Authentication is not configured for this project' }
+  }
+
+  const verifyUrl = config.verifyUrl || project?.urls[0]?.url
+  if (!verifyUrl) {
+    return { valid: false, message: 'Set a verify URL or add a URL to the project to test the login' }
+  }
+
+  let session: AuthSession
+  try {
+    session = (await getProjectAuthSession(projectId, { fresh: true }))!
+  } catch (error) {
+    return { valid: false, message: error instanceof Error ? error.message : String(error) }
+  }
+
+  const { context, release } = await acquireBrowserContext(authContextOptions(session))
+  try {
+    await applyAuthHeaders(context, session)
+    const page = await context.newPage()
+    const response = await page.goto(verifyUrl, { waitUntil: 'domcontentloaded', timeout: LOGIN_TIMEOUT_MS })
+    const finalUrl = page.url()
+
+    if (response && (response.status() === 401 || response.status() === 403)) {
+      return { valid: false, message: `${verifyUrl} responded with ${response.status()}`, finalUrl }
+    }
+
+    if (config.successSelector) {
+      const found = await page.waitForSelector(config.successSelector, { timeout: 10000 }).then(() => true, () => false)
+      return found
+        ? { valid: true, message: `Logged in: found "${config.successSelector}"`, finalUrl }
+        : { valid: false, message: `"${config.successSelector}" was not found on ${finalUrl}`, finalUrl }
+    }
+
+    if (config.loginUrl && new URL(finalUrl).pathname === new URL(config.loginUrl).pathname) {
+      return { valid: false, message: `Redirected to the login page (${finalUrl})`, finalUrl }
+    }
+
+    return { valid: true, message: `Loaded ${finalUrl} without being sent to a login page`, finalUrl }
+  } catch (error) {
+    return { valid: false, message: error instanceof Error ? error.message : String(error) }
+  } finally {
+    await release()
+  }
+}
@@ -0,0 +1,99 @@
+import type { BrowserContextOptions, Frame, Page } from "playwright-core"
+import axe from "axe-core"
+
+// Declare the axe property on the Window interface
+declare global {
+  interface Window {
+    axe: any;
+  }
+}
+
+// How long axe waits for each frame's results before marking it untested
+const FRAME_WAIT_TIME = 10000
+
+// Version of the bundled axe-core, recorded on each scan so results stay comparable
+export const AXE_VERSION: string = axe.version
+
+/**
+ * Context options for pages that get axe injected. axe is added as an inline script,
+ * which a strict Content-Security-Policy would otherwise block.
+ */
+export const AXE_CONTEXT_OPTIONS: BrowserContextOptions = {
+  bypassCSP: true,
+}
+
+/**
+ * Injects the axe-core build from node_modules into the page. No network access is
+ * needed, so this works on air-gapped CI and on sites that block third-party scripts.
+ */
+export async function injectAxe(page: Page | Frame) {
+  const alreadyInjected = await page.evaluate(() => typeof window.axe !== 'undefined')
+  if (alreadyInjected) return
+
+  try {
+    await page.addScriptTag({ content: axe.source })
+  } catch (scriptError) {
+    throw new Error(`Failed to inject axe-core script: ${scriptError}`)
+  }
+}
+
+/**
+ * Injects axe into the page's same-origin iframes (srcdoc and about:blank frames included), so
+ * the top-level run descends into them. Cross-origin frames are usually third-party widgets and
+ * ads the site can't fix, so they're left out.
+ */
+async function injectAxeIntoFrames(page: Page) {
+  const origin = new URL(page.url()).origin
+  for (const frame of page.frames()) {
+    if (frame === page.mainFrame() || frame.isDetached()) continue
+    const frameUrl = frame.url()
+    const sameOrigin = frameUrl.startsWith('about:') || (URL.canParse(frameUrl) && new URL(frameUrl).origin === origin)
+    if (!sameOrigin) continue
+
+    await injectAxe(frame).catch(error => {
+      console.warn(`Failed to inject axe-core into frame ${frameUrl}:`, error instanceof Error ? error.message : String(error))
+    })
+  }
+}
+
+/**
+ * Runs axe against the page (or the given axe context) limited to the given tags, including
+ * same-origin iframes. Errors inside axe resolve to an empty result instead of failing the
+ * whole scan.
+ */
+export async function runAxe(page: Page, tags: string[], context: any = null): Promise<any> {
+  await injectAxe(page)
+  await injectAxeIntoFrames(page)
+
+  return page.evaluate(
+    ({ tags, context, frameWaitTime }) => {
+      return new Promise((resolve) => {
+        if (typeof window.axe === 'undefined') {
+          resolve({ violations: [] })
+          return
+        }
+
+        window.axe.run(
+          context || document,
+          {
+            runOnly: {
+              type: "tag",
+              values: tags,
+            },
+            iframes: true,
+            frameWaitTime,
+          },
+          (err: any, results: any) => {
+            if (err) {
+              console.error('Axe evaluation error:', err)
+              resolve({ violations: [] })
+              return
+            }
+            resolve(results)
+          },
+        )
+      })
+    },
+    { tags, context, frameWaitTime: FRAME_WAIT_TIME },
+  )
+}
@@ -0,0 +1,225 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from "playwright-core"
+import { exec } from 'child_process'
+import { promisify } from 'util'
+
+const execAsync = promisify(exec)
+
+const POOL_SIZE = Math.max(1, Number(process.env.BROWSER_POOL_SIZE || 2))
+const MAX_CONTEXTS_PER_BROWSER = Math.max(1, Number(process.env.BROWSER_MAX_CONTEXTS || 4))
+// Chromium slowly leaks memory over many pages, so browsers are replaced after N contexts
+const MAX_USES_PER_BROWSER = Math.max(1, Number(process.env.BROWSER_MAX_USES || 50))
+const IDLE_TIMEOUT_MS = Number(process.env.BROWSER_IDLE_TIMEOUT_MS || 5 * 60 * 1000)
+
+const LAUNCH_ARGS = ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+
+interface PooledBrowser {
+  id: number
+  browser: Browser
+  activeContexts: number
+  uses: number
+  retired: boolean
+  idleTimer?: NodeJS.Timeout
+}
+
+interface BrowserPoolState {
+  browsers: PooledBrowser[]
+  launching: number
+  waiters: (() => void)[]
+  nextId: number
+  browsersInstalled: boolean
+}
+
+export interface PooledContext {
+  context: BrowserContext
+  release: () => Promise<void>
+}
+
+declare global {
+  var browserPool: undefined | BrowserPoolState
+}
+
+// Kept on globalThis so hot reloads in development don't orphan running browsers
+const pool: BrowserPoolState = globalThis.browserPool ?? {
+  browsers: [],
+  launching: 0,
+  waiters: [],
+  nextId: 1,
+  browsersInstalled: false
+}
+globalThis.browserPool = pool
+
+/**
+ * Hands out an isolated BrowserContext from a warm, shared browser. Callers must call
+ * `release()` when done (see `withBrowserContext`), which closes the context and
+ * returns the slot to the pool.
+ */
+export async function acquireBrowserContext(options: BrowserContextOptions = {}): Promise<PooledContext> {
+  while (true) {
+    const entry = pickBrowser()
+
+    if (entry) {
+      entry.activeContexts++
+      entry.uses++
+      if (entry.idleTimer) {
+        clearTimeout(entry.idleTimer)
+        entry.idleTimer = undefined
+      }
+
+      let context: BrowserContext
+      try {
+        context = await entry.browser.newContext(options)
+      } catch (error) {
+        entry.activeContexts--
+        if (entry.browser.isConnected()) {
+          releaseSlot(entry)
+          throw error
+        }
+        // The browser crashed between picking and using it; try another one
+        retireBrowser(entry)
+        continue
+      }
+
+      let released = false
+      return {
+        context,
+        release: async () => {
+          if (released) return
+          released = true
+          await context.close().catch(error => console.warn('Error closing browser context:', error))
+          entry.activeContexts--
+          releaseSlot(entry)
+        }
+      }
+    }
+
+    if (pool.browsers.length + pool.launching < POOL_SIZE) {
+      pool.launching++
+      try {
+        addBrowser(await launchBrowser())
+        // Callers that queued behind this launch can use the new browser's free slots now
+        // instead of waiting for some other context to be released
+        pool.waiters.splice(0).forEach(wake => wake())
+      } catch (error) {
+        // Callers that queued behind this launch would otherwise wait for a browser that never
+        // comes; they resume after the finally below frees the launch slot, and retry it
+        pool.waiters.splice(0).forEach(wake => wake())
+        throw error
+      } finally {
+        pool.launching--
+      }
+      continue
+    }
+
+    await new Promise<void>(resolve => pool.waiters.push(resolve))
+  }
+}
+
+export async function withBrowserContext<T>(
+  fn: (context: BrowserContext) => Promise<T>,
+  options: BrowserContextOptions = {},
+): Promise<T> {
+  const { context, release } = await acquireBrowserContext(options)
+  try {
+    return await fn(context)
+  } finally {
+    await release()
+  }
+}
+
+export async function closeBrowserPool() {
+  const browsers = [...pool.browsers]
+  pool.browsers = []
+  await Promise.all(browsers.map(entry => closeBrowser(entry)))
+}
+
+function pickBrowser(): PooledBrowser | null {
+  const available = pool.browsers.filter(entry =>
+    !entry.retired &&
+    entry.browser.isConnected() &&
+    entry.activeContexts < MAX_CONTEXTS_PER_BROWSER &&
+    entry.uses < MAX_USES_PER_BROWSER
+  )
+  if (available.length === 0) return null
+
+  // Spread contexts across browsers rather than filling one up first
+  return available.reduce((least, entry) => entry.activeContexts < least.activeContexts ? entry : least)
+}
+
+function addBrowser(browser: Browser) {
+  const entry: PooledBrowser = {
+    id: pool.nextId++,
+    browser,
+    activeContexts: 0,
+    uses: 0,
+    retired: false
+  }
+
+  browser.on('disconnected', () => {
+    if (!entry.retired) {
+      console.warn(`Pooled browser ${entry.id} disconnected unexpectedly`)
+    }
+    retireBrowser(entry)
+  })
+
+  pool.browsers.push(entry)
+}
+
+function releaseSlot(entry: PooledBrowser) {
+  if (entry.activeContexts === 0) {
+    if (entry.retired || entry.uses >= MAX_USES_PER_BROWSER) {
+      retireBrowser(entry)
+    } else if (IDLE_TIMEOUT_MS > 0) {
+      entry.idleTimer = setTimeout(() => retireBrowser(entry), IDLE_TIMEOUT_MS)
+    }
+  }
+
+  pool.waiters.shift()?.()
+}
+
+function retireBrowser(entry: PooledBrowser) {
+  entry.retired = true
+  if (entry.idleTimer) {
+    clearTimeout(entry.idleTimer)
+    entry.idleTimer = undefined
+  }
+
+  // Contexts still in use keep the browser alive until they are released
+  if (entry.activeContexts > 0 && entry.browser.isConnected()) return
+
+  const index = pool.browsers.indexOf(entry)
+  if (index === -1) return
+  pool.browsers.splice(index, 1)
+
+  closeBrowser(entry)
+  pool.waiters.shift()?.()
+}
+
+async function closeBrowser(entry: PooledBrowser) {
+  entry.retired = true
+  if (!entry.browser.isConnected()) return
+  try {
+    await entry.browser.close()
+  } catch (closeError) {
+    console.warn('Error closing browser:', closeError)
+  }
+}
+
+async function launchBrowser(): Promise<Browser> {
+  try {
+    const browser = await chromium.launch({ headless: true, args: LAUNCH_ARGS })
+    pool.browsersInstalled = true
+    return browser
+  } catch (error) {
+    if (pool.browsersInstalled) throw error
+
+    console.log('Chromium not found, attempting to install browsers...')
+    try {
+      await execAsync('npx playwright-core install chromium')
+    } catch (installError) {
+      console.error('Failed to install browsers:', installError)
+      throw new Error('Playwright browsers are not installed. Please run: npx playwright install')
+    }
+    pool.browsersInstalled = true
+    return chromium.launch({ headless: true, args: LAUNCH_ARGS })
+  }
+}
@@ -0,0 +1,449 @@
+import type { ElementHandle, Page } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import {
+  composite,
+  contrastRatio,
+  contrastRequirement,
+  flattenLayers,
+  floorRatio,
+  isLargeText,
+  parseFontWeight,
+  suggestColors,
+  toHex,
+  type RGBA,
+} from "./contrast"
+import type { AccessibilityResult, ComplianceOptions } from "./types"
+
+const MAX_TEXT_ELEMENTS = 500
+// Screenshots are the slow part; text over images beyond this isn't measured
+const MAX_IMAGE_SAMPLES = 20
+const MAX_SAMPLED_PIXELS = 2000
+// Interactive elements re-measured while hovered and focused
+const MAX_STATE_CHECKS = 30
+// Text is judged against the darkest (or lightest) 5% of the image behind it, not the average
+const IMAGE_PERCENTILE = 0.05
+const SAMPLE_ATTRIBUTE = 'data-wcag-contrast-sample'
+const STYLE_ID = 'wcag-contrast-audit-style'
+
+type TextState = 'default' | 'hover' | 'focus'
+
+interface TextSample {
+  path: string
+  html: string
+  foreground: RGBA | null
+  // Opacity of the ancestors the text fades with, down to its solid background
+  opacity: number
+  fontSize: number
+  fontWeight: string
+  // Background colors from the topmost down to the first opaque one
+  layers: RGBA[]
+  // An image, gradient or media element sits between the text and its solid background
+  hasImage: boolean
+  shadow: RGBA | null
+  interactive: boolean
+}
+
+interface Measurement {
+  ratio: number
+  foreground: RGBA
+  background: RGBA
+  backgroundSource: 'color' | 'image'
+  range?: [number, number]
+  sampledPixels?: number
+  textShadow?: string
+}
+
+declare global {
+  interface Window {
+    __wcagContrast?: {
+      elements: Element[]
+      sample(index: number): TextSample
+    }
+  }
+}
+
+/**
+ * Measures the contrast of every visible piece of text against what is actually painted behind
+ * it. Semi-transparent text and backgrounds are composited; text over background images,
+ * gradients or media is measured against a screenshot of the element with its text hidden.
+ * Interactive elements that pass are measured again while hovered and while focused. The
+ * required ratio follows the project's WCAG level, and nothing is checked at level A.
+ */
+export async function auditColorContrast(
+  page: Page,
+  url: string,
+  wcagLevel: ComplianceOptions['wcagLevel'],
+): Promise<AccessibilityResult[]> {
+  if (!contrastRequirement(wcagLevel, false)) return []
+
+  await installPageHelpers(page)
+  const count = await collectTextElements(page)
+  const results: AccessibilityResult[] = []
+  let imageSamples = 0
+  let stateChecks = 0
+
+  const measure = async (index: number, sample: TextSample): Promise<Measurement | null> => {
+    if (!sample.foreground) return null
+    const foreground: RGBA = [...sample.foreground.slice(0, 3), sample.foreground[3] * sample.opacity] as RGBA
+
+    if (sample.hasImage) {
+      if (imageSamples >= MAX_IMAGE_SAMPLES) return null
+      imageSamples++
+      return measureOverImage(page, index, foreground)
+    }
+
+    const background = flattenLayers(sample.layers)
+    const measurement: Measurement = {
+      ratio: contrastRatio(foreground, background),
+      foreground,
+      background,
+      backgroundSource: 'color',
+    }
+
+    // A shadow or outline drawn around the glyphs separates them from the background
+    if (sample.shadow) {
+      const halo = composite(sample.shadow, background)
+      const haloRatio = contrastRatio(foreground, halo)
+      if (haloRatio > measurement.ratio) {
+        measurement.ratio = haloRatio
+        measurement.textShadow = toHex(halo)
+      }
+    }
+    return measurement
+  }
+
+  try {
+    await setAuditStyles(page, true)
+
+    for (let index = 0; index < count; index++) {
+      const sample = await sampleText(page, index)
+      if (!sample) continue
+
+      const measurement = await measure(index, sample)
+      const result = measurement && toResult(url, index, 'default', sample, measurement, wcagLevel)
+      if (result) {
+        results.push(result)
+        continue
+      }
+
+      if (!sample.interactive || stateChecks >= MAX_STATE_CHECKS) continue
+      stateChecks++
+
+      for (const state of ['hover', 'focus'] as const) {
+        const entered = await enterState(page, index, state)
+        if (!entered) continue
+        try {
+          const stateSample = await sampleText(page, index)
+          const stateMeasurement = stateSample && await measure(index, stateSample)
+          const stateResult = stateMeasurement && toResult(url, index, state, stateSample, stateMeasurement, wcagLevel)
+          if (stateResult) {
+            results.push(stateResult)
+            break
+          }
+        } finally {
+          await leaveState(page, state)
+        }
+      }
+    }
+  } finally {
+    await setAuditStyles(page, false).catch(() => {})
+  }
+
+  return results
+}
+
+function toResult(
+  url: string,
+  index: number,
+  state: TextState,
+  sample: TextSample,
+  measurement: Measurement,
+  wcagLevel: ComplianceOptions['wcagLevel'],
+): AccessibilityResult | null {
+  const fontWeight = parseFontWeight(sample.fontWeight)
+  const largeText = isLargeText(sample.fontSize, fontWeight)
+  const requirement = contrastRequirement(wcagLevel, largeText)
+  if (!requirement || measurement.ratio >= requirement.ratio) return null
+
+  const ratio = floorRatio(measurement.ratio)
+  const where = [
+    measurement.backgroundSource === 'image' ? 'against the background image' : '',
+    state === 'default' ? '' : `on ${state}`,
+  ].filter(Boolean).join(' ')
+
+  return {
+    id: state === 'default' ? `contrast-${index}` : `contrast-${state}-${index}`,
+    ruleId: requirement.ruleId,
+    url,
+    message: `Insufficient color contrast${where ? ` ${where}` : ''}: ${ratio.toFixed(2)}:1 (required: ${requirement.ratio}:1)`,
+    help: 'Text elements must have sufficient color contrast against their background',
+    element: sample.html,
+    elementPath: sample.path,
+    impact: 'serious',
+    severity: 'serious',
+    tags: requirement.tags,
+    details: {
+      state,
+      contrastRatio: ratio,
+      requiredRatio: requirement.ratio,
+      foreground: toHex(composite(measurement.foreground, measurement.background)),
+      background: toHex(measurement.background),
+      backgroundSource: measurement.backgroundSource,
+      ...(measurement.range && {
+        contrastRange: measurement.range.map(floorRatio),
+        sampledPixels: measurement.sampledPixels,
+      }),
+      ...(measurement.textShadow && { textShadow: measurement.textShadow }),
+      fontSize: `${sample.fontSize}px`,
+      fontWeight,
+      largeText,
+      suggestedColors: suggestColors(
+        measurement.foreground,
+        measurement.background,
+        requirement.ratio,
+        measurement.backgroundSource === 'color',
+      ),
+    },
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Finds the elements with their own visible text and installs the sampler that reads their
+ * colors and backgrounds. Returns how many elements there are to sample.
+ */
+async function collectTextElements(page: Page): Promise<number> {
+  return page.evaluate((maxElements) => {
+    const helpers = window.__wcagHelpers!
+    const skippedTags = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'OPTION', 'TITLE']
+    const mediaTags = ['IMG', 'VIDEO', 'CANVAS', 'PICTURE', 'IFRAME', 'EMBED', 'OBJECT', 'svg']
+    const focusableSelector = 'a[href], button, input, select, textarea, summary, [tabindex]:not([tabindex="-1"]), [role="button"], [role="link"], [role="tab"], [role="menuitem"]'
+    const elements: Element[] = []
+    const texts: Text[] = []
+
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT)
+    for (let node = walker.nextNode(); node && elements.length < maxElements; node = walker.nextNode()) {
+      const parent = node.parentElement
+      if (!parent || !node.textContent?.trim() || elements.includes(parent)) continue
+      if (skippedTags.includes(parent.tagName) || parent.closest('svg')) continue
+      // Disabled controls are exempt from the contrast requirement
+      if (parent.closest(':disabled, [aria-disabled="true"]')) continue
+      if (!helpers.isVisible(parent)) continue
+      elements.push(parent)
+      texts.push(node as Text)
+    }
+
+    const textRect = (index: number): DOMRect | null => {
+      const range = document.createRange()
+      range.selectNodeContents(texts[index])
+      const rect = range.getClientRects()[0]
+      return rect && rect.width > 0 && rect.height > 0 ? rect : null
+    }
+
+    const sample = (index: number) => {
+      const element = elements[index]
+      const style = getComputedStyle(element)
+
+      let rect = textRect(index)
+      if (rect && (rect.bottom < 0 || rect.right < 0 || rect.top > innerHeight || rect.left > innerWidth)) {
+        element.scrollIntoView({ block: 'center', inline: 'center' })
+        rect = textRect(index)
+      }
+
+      // What's painted under the text may be a sibling positioned behind it, not an ancestor
+      const ancestors: Element[] = []
+      for (let current: Element | null = element; current; current = current.parentElement) ancestors.push(current)
+      let stack = ancestors
+      if (rect) {
+        const hits = document.elementsFromPoint(rect.left + rect.width / 2, rect.top + rect.height / 2)
+        const start = ancestors.map(ancestor => hits.indexOf(ancestor)).find(position => position !== -1)
+        if (start !== undefined) stack = hits.slice(start)
+      }
+
+      const layers: [number, number, number, number][] = []
+      let hasImage = false
+      let solid: Element | null = null
+      for (const layer of stack) {
+        const layerStyle = getComputedStyle(layer)
+        if (layerStyle.backgroundImage !== 'none' || (layer !== element && mediaTags.includes(layer.tagName))) {
+          hasImage = true
+          break
+        }
+        const background = helpers.colorToRgba(layerStyle.backgroundColor)
+        if (!background || background[3] === 0) continue
+        layers.push(background)
+        if (background[3] >= 1) {
+          solid = layer
+          break
+        }
+      }
+
+      let opacity = 1
+      for (const ancestor of ancestors) {
+        if (ancestor === solid) break
+        opacity *= parseFloat(getComputedStyle(ancestor).opacity) || 0
+      }
+
+      const shadowColor = style.textShadow !== 'none' ? style.textShadow.match(/rgba?\([^)]*\)/) : null
+
+      return {
+        path: helpers.elementPath(element),
+        html: helpers.elementHtml(element),
+        foreground: helpers.colorToRgba(style.webkitTextFillColor || style.color),
+        opacity,
+        fontSize: parseFloat(style.fontSize) || 16,
+        fontWeight: style.fontWeight,
+        layers,
+        hasImage,
+        shadow: shadowColor ? helpers.colorToRgba(shadowColor[0]) : null,
+        interactive: Boolean(element.closest(focusableSelector)),
+      }
+    }
+
+    window.__wcagContrast = { elements, sample }
+    return elements.length
+  }, MAX_TEXT_ELEMENTS)
+}
+
+async function sampleText(page: Page, index: number): Promise<TextSample | null> {
+  return page.evaluate((index) => {
+    const element = window.__wcagContrast!.elements[index]
+    if (!element?.isConnected || !window.__wcagHelpers!.isVisible(element)) return null
+    return window.__wcagContrast!.sample(index)
+  }, index)
+}
+
+/**
+ * Measures text drawn over an image or gradient: the element is screenshotted with its text made
+ * transparent, and the text color is compared against the sampled pixels.
+ */
+async function measureOverImage(page: Page, index: number, foreground: RGBA): Promise<Measurement | null> {
+  let handle: ElementHandle | null = null
+
+  try {
+    handle = (await page.evaluateHandle(
+      (index) => window.__wcagContrast!.elements[index],
+      index
+    )).asElement()
+    if (!handle) return null
+
+    await markSampled(page, index, true)
+    const screenshot = await handle.screenshot({ animations: 'disabled', caret: 'hide', timeout: 5000 })
+
+    const pixels = await page.evaluate(async ({ data, maxPixels }) => {
+      const image = new Image()
+      image.src = `data:image/png;base64,${data}`
+      await image.decode()
+      const canvas = document.createElement('canvas')
+      canvas.width = image.naturalWidth
+      canvas.height = image.naturalHeight
+      const context = canvas.getContext('2d')!
+      context.drawImage(image, 0, 0)
+      const rgba = context.getImageData(0, 0, canvas.width, canvas.height).data
+
+      const total = canvas.width * canvas.height
+      const step = Math.max(1, Math.floor(total / maxPixels))
+      const sampled: number[] = []
+      for (let pixel = 0; pixel < total; pixel += step) {
+        sampled.push(rgba[pixel * 4], rgba[pixel * 4 + 1], rgba[pixel * 4 + 2])
+      }
+      return sampled
+    }, { data: screenshot.toString('base64'), maxPixels: MAX_SAMPLED_PIXELS })
+
+    const measured: { ratio: number, background: RGBA }[] = []
+    for (let offset = 0; offset + 2 < pixels.length; offset += 3) {
+      const background: RGBA = [pixels[offset], pixels[offset + 1], pixels[offset + 2], 1]
+      measured.push({ ratio: contrastRatio(foreground, background), background })
+    }
+    if (measured.length === 0) return null
+
+    measured.sort((a, b) => a.ratio - b.ratio)
+    const worst = measured[Math.floor((measured.length - 1) * IMAGE_PERCENTILE)]
+    return {
+      ratio: worst.ratio,
+      foreground,
+      background: worst.background,
+      backgroundSource: 'image',
+      range: [measured[0].ratio, measured[measured.length - 1].ratio],
+      sampledPixels: measured.length,
+    }
+  } catch (error) {
+    // e.g. a content security policy that blocks data: images
+    console.warn(`Contrast sampling failed for text element ${index}:`, error instanceof Error ? error.message : String(error))
+    return null
+  } finally {
+    await markSampled(page, index, false).catch(() => {})
+    await handle?.dispose()
+  }
+}
+
+async function markSampled(page: Page, index: number, marked: boolean) {
+  await page.evaluate(({ index, marked, attribute }) => {
+    window.__wcagContrast!.elements[index].toggleAttribute(attribute, marked)
+  }, { index, marked, attribute: SAMPLE_ATTRIBUTE })
+}
+
+async function enterState(page: Page, index: number, state: Exclude<TextState, 'default'>): Promise<boolean> {
+  try {
+    if (state === 'focus') {
+      return await page.evaluate((index) => {
+        const element = window.__wcagContrast!.elements[index]
+        const focusable = element.closest<HTMLElement>('a[href], button, input, select, textarea, summary, [tabindex]')
+        if (!focusable) return false
+        focusable.focus({ preventScroll: true })
+        return document.activeElement === focusable || focusable.contains(document.activeElement)
+      }, index)
+    }
+
+    const handle = (await page.evaluateHandle(
+      (index) => window.__wcagContrast!.elements[index],
+      index
+    )).asElement()
+    if (!handle) return false
+    try {
+      await handle.hover({ timeout: 2000 })
+      return true
+    } finally {
+      await handle.dispose()
+    }
+  } catch {
+    // Covered by another element, detached or otherwise not hoverable
+    return false
+  }
+}
+
+async function leaveState(page: Page, state: Exclude<TextState, 'default'>) {
+  if (state === 'focus') {
+    await page.evaluate(() => (document.activeElement as HTMLElement | null)?.blur?.())
+  } else {
+    await page.mouse.move(0, 0)
+  }
+}
+
+/**
+ * Transitions are turned off while auditing so hover and focus colors apply immediately, and
+ * the element being screenshotted has its text made transparent.
+ */
+async function setAuditStyles(page: Page, enabled: boolean) {
+  await page.evaluate(({ enabled, styleId, attribute }) => {
+    document.getElementById(styleId)?.remove()
+    if (!enabled) {
+      window.scrollTo(0, 0)
+      return
+    }
+
+    const style = document.createElement('style')
+    style.id = styleId
+    style.textContent = `
+      *, *::before, *::after { transition: none !important; }
+      [${attribute}], [${attribute}] * {
+        color: transparent !important;
+        -webkit-text-fill-color: transparent !important;
+        text-shadow: none !important;
+        text-decoration-color: transparent !important;
+        caret-color: transparent !important;
+      }
+    `
+    document.head.appendChild(style)
+  }, { enabled, styleId: STYLE_ID, attribute: SAMPLE_ATTRIBUTE })
+}
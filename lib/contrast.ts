@@ -0,0 +1,252 @@
+import type { ComplianceOptions, SuggestedColors } from "./types"
+
+// Channels 0-255, alpha 0-1
+export type RGBA = [number, number, number, number]
+
+const WHITE: RGBA = [255, 255, 255, 1]
+
+const NAMED_COLORS: Record<string, RGBA> = {
+  transparent: [0, 0, 0, 0],
+  black: [0, 0, 0, 1],
+  white: [255, 255, 255, 1],
+  gray: [128, 128, 128, 1],
+  grey: [128, 128, 128, 1],
+  silver: [192, 192, 192, 1],
+  red: [255, 0, 0, 1],
+  maroon: [128, 0, 0, 1],
+  yellow: [255, 255, 0, 1],
+  olive: [128, 128, 0, 1],
+  lime: [0, 255, 0, 1],
+  green: [0, 128, 0, 1],
+  aqua: [0, 255, 255, 1],
+  teal: [0, 128, 128, 1],
+  blue: [0, 0, 255, 1],
+  navy: [0, 0, 128, 1],
+  fuchsia: [255, 0, 255, 1],
+  purple: [128, 0, 128, 1],
+  orange: [255, 165, 0, 1],
+}
+
+/**
+ * Parses the color formats computed styles and inline styles use: hex, rgb(a), hsl(a) and the
+ * basic named colors. Returns null for anything else (e.g. currentColor, color-mix()).
+ */
+export function parseCssColor(value: string | null | undefined): RGBA | null {
+  if (!value) return null
+  const color = value.trim().toLowerCase()
+
+  if (color in NAMED_COLORS) return [...NAMED_COLORS[color]]
+
+  const hex = color.match(/^#([0-9a-f]{3,8})$/)
+  if (hex) {
+    let digits = hex[1]
+    if (digits.length === 3 || digits.length === 4) {
+      digits = digits.split('').map(digit => digit + digit).join('')
+    }
+    if (digits.length !== 6 && digits.length !== 8) return null
+    const channel = (offset: number) => parseInt(digits.slice(offset, offset + 2), 16)
+    return [channel(0), channel(2), channel(4), digits.length === 8 ? channel(6) / 255 : 1]
+  }
+
+  const functional = color.match(/^(rgba?|hsla?)\(([^)]*)\)$/)
+  if (!functional) return null
+
+  const parts = functional[2].split(/[\s,/]+/).filter(Boolean)
+  if (parts.length < 3) return null
+  const alpha = parts[3] === undefined ? 1 : parseAlpha(parts[3])
+
+  if (functional[1].startsWith('rgb')) {
+    const [r, g, b] = parts.slice(0, 3).map(part =>
+      part.endsWith('%') ? parseFloat(part) * 2.55 : parseFloat(part)
+    )
+    if ([r, g, b, alpha].some(Number.isNaN)) return null
+    return [clampChannel(r), clampChannel(g), clampChannel(b), alpha]
+  }
+
+  const [h, s, l] = [parseFloat(parts[0]), parseFloat(parts[1]) / 100, parseFloat(parts[2]) / 100]
+  if ([h, s, l, alpha].some(Number.isNaN)) return null
+  return [...hslToRgb(h, s, l), alpha]
+}
+
+function parseAlpha(part: string): number {
+  const alpha = part.endsWith('%') ? parseFloat(part) / 100 : parseFloat(part)
+  return Math.min(Math.max(alpha, 0), 1)
+}
+
+function clampChannel(value: number): number {
+  return Math.round(Math.min(Math.max(value, 0), 255))
+}
+
+export function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = ((h % 360) + 360) % 360
+  const chroma = (1 - Math.abs(2 * l - 1)) * s
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1))
+  const m = l - chroma / 2
+  const [r, g, b] =
+    hue < 60 ? [chroma, x, 0] :
+    hue < 120 ? [x, chroma, 0] :
+    hue < 180 ? [0, chroma, x] :
+    hue < 240 ? [0, x, chroma] :
+    hue < 300 ? [x, 0, chroma] :
+    [chroma, 0, x]
+  return [clampChannel((r + m) * 255), clampChannel((g + m) * 255), clampChannel((b + m) * 255)]
+}
+
+/**
+ * Source-over compositing of a (possibly semi-transparent) color onto another.
+ */
+export function composite(top: RGBA, bottom: RGBA): RGBA {
+  const alpha = top[3] + bottom[3] * (1 - top[3])
+  if (alpha === 0) return [0, 0, 0, 0]
+  const channel = (index: number) =>
+    (top[index] * top[3] + bottom[index] * bottom[3] * (1 - top[3])) / alpha
+  return [channel(0), channel(1), channel(2), alpha]
+}
+
+/**
+ * Composites background layers, listed from the topmost down, onto the white canvas.
+ */
+export function flattenLayers(layers: RGBA[]): RGBA {
+  return layers.reduceRight<RGBA>((below, layer) => composite(layer, below), WHITE)
+}
+
+export function relativeLuminance([r, g, b]: RGBA): number {
+  const linear = [r, g, b].map(value => {
+    const channel = value / 255
+    return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2]
+}
+
+/**
+ * WCAG contrast ratio of text over an opaque background. A translucent foreground is first
+ * composited onto the background, as the browser would draw it.
+ */
+export function contrastRatio(foreground: RGBA, background: RGBA): number {
+  const text = foreground[3] < 1 ? composite(foreground, background) : foreground
+  const lighter = Math.max(relativeLuminance(text), relativeLuminance(background))
+  const darker = Math.min(relativeLuminance(text), relativeLuminance(background))
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+export function toHex([r, g, b]: RGBA): string {
+  return '#' + [r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')
+}
+
+export function parseFontWeight(value: string | null | undefined): number {
+  if (value === 'bold' || value === 'bolder') return 700
+  if (value === 'lighter') return 300
+  return Number.parseInt(value || '', 10) || 400
+}
+
+// 18pt, or 14pt bold; 1pt is 4/3 CSS px
+export function isLargeText(fontSizePx: number, fontWeight: number): boolean {
+  return fontSizePx >= 24 || (fontSizePx >= 18.66 && fontWeight >= 700)
+}
+
+/**
+ * The ratio text must reach, and the rule it's reported under, for the project's WCAG level:
+ * 4.5:1 (3:1 for large text) at AA, 7:1 (4.5:1) at AAA. Level A doesn't cover contrast.
+ */
+export function contrastRequirement(
+  wcagLevel: ComplianceOptions['wcagLevel'],
+  largeText: boolean,
+): { ratio: number, ruleId: string, tags: string[] } | null {
+  if (wcagLevel === 'aaa') {
+    return { ratio: largeText ? 4.5 : 7, ruleId: 'color-contrast-enhanced', tags: ['wcag2aaa', 'wcag146'] }
+  }
+  if (wcagLevel === 'aa') {
+    return { ratio: largeText ? 3 : 4.5, ruleId: 'color-contrast', tags: ['wcag2aa', 'wcag143'] }
+  }
+  return null
+}
+
+export function rgbToHsl([r, g, b]: RGBA): [number, number, number] {
+  const [red, green, blue] = [r / 255, g / 255, b / 255]
+  const max = Math.max(red, green, blue)
+  const min = Math.min(red, green, blue)
+  const l = (max + min) / 2
+  if (max === min) return [0, 0, l]
+
+  const delta = max - min
+  const s = delta / (1 - Math.abs(2 * l - 1))
+  const h =
+    max === red ? 60 * (((green - blue) / delta) % 6) :
+    max === green ? 60 * ((blue - red) / delta + 2) :
+    60 * ((red - green) / delta + 4)
+  return [(h + 360) % 360, s, l]
+}
+
+// Truncated rather than rounded so a failing 4.499 never displays as 4.50
+export function floorRatio(ratio: number): number {
+  return Math.floor(ratio * 100) / 100
+}
+
+/**
+ * Passing color pairs for a failing one: the text color changed, keeping the background, and
+ * the background changed, keeping the text. Each keeps the hue and saturation of the color it
+ * replaces and moves its lightness as little as possible. Backgrounds measured from an image
+ * can't be swapped for a color, so those only get a text color.
+ */
+export function suggestColors(
+  foreground: RGBA,
+  background: RGBA,
+  ratio: number,
+  adjustBackground = true,
+): SuggestedColors[] {
+  const text = foreground[3] < 1 ? composite(foreground, background) : foreground
+  const suggestions: SuggestedColors[] = []
+
+  const newForeground = closestLightness(text, candidate => contrastRatio(candidate, background) >= ratio)
+  if (newForeground) {
+    suggestions.push({
+      change: 'foreground',
+      foreground: toHex(newForeground),
+      background: toHex(background),
+      contrastRatio: floorRatio(contrastRatio(newForeground, background)),
+    })
+  }
+
+  const newBackground = adjustBackground
+    ? closestLightness(background, candidate => contrastRatio(text, candidate) >= ratio)
+    : null
+  if (newBackground) {
+    suggestions.push({
+      change: 'background',
+      foreground: toHex(text),
+      background: toHex(newBackground),
+      contrastRatio: floorRatio(contrastRatio(text, newBackground)),
+    })
+  }
+
+  return suggestions
+}
+
+/**
+ * Searches lighter and darker versions of the color for the one nearest in lightness that
+ * passes. In either direction the passing lightnesses form one range that ends at black or
+ * white, so each direction is a binary search. Candidates are whole-channel colors, so the
+ * result passes exactly as reported.
+ */
+function closestLightness(color: RGBA, passes: (candidate: RGBA) => boolean): RGBA | null {
+  const [h, s, l] = rgbToHsl(color)
+  const at = (lightness: number): RGBA => [...hslToRgb(h, s, lightness), 1]
+  let best: { distance: number, color: RGBA } | null = null
+
+  for (const limit of [0, 1]) {
+    if (!passes(at(limit))) continue
+
+    let near = l
+    let far = limit
+    for (let step = 0; step < 24; step++) {
+      const mid = (near + far) / 2
+      if (passes(at(mid))) far = mid
+      else near = mid
+    }
+
+    const distance = Math.abs(far - l)
+    if (!best || distance < best.distance) best = { distance, color: at(far) }
+  }
+
+  return best?.color || null
+}
@@ -0,0 +1,268 @@
+import * as cheerio from "cheerio"
+import { CRAWLER_USER_AGENT, fetchRobotsPolicy, isAllowedByRobots, type RobotsPolicy } from "./robots"
+
+export const MAX_CRAWL_PAGES = 50
+export const MAX_CRAWL_DEPTH = 10
+// The crawl runs inside the request, so it stops with what it has once this much time has passed
+const CRAWL_DEADLINE_MS = Number(process.env.CRAWL_DEADLINE_MS || 60 * 1000)
+const FETCH_TIMEOUT_MS = 15000
+
+export type CrawlScope = 'same-origin' | 'subdomains'
+
+export interface CrawlOptions {
+  startUrl: string
+  scope?: CrawlScope
+  include?: string[]
+  exclude?: string[]
+  maxDepth?: number
+  maxPages?: number
+  respectRobots?: boolean
+  // Treat URLs that differ only in their query string as the same page
+  dedupeQueryVariants?: boolean
+}
+
+export interface CrawledPage {
+  url: string
+  depth: number
+  status: number
+}
+
+export interface CrawlResult {
+  urls: string[]
+  pages: CrawledPage[]
+  skipped: {
+    robots: number
+    scope: number
+    pattern: number
+    duplicate: number
+    failed: number
+  }
+  // The deadline passed before the crawl finished
+  timedOut: boolean
+}
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = /^(utm_.+|fbclid|gclid|msclkid|mc_cid|mc_eid|_ga|ref)$/i
+
+const NON_HTML_EXTENSIONS = /\.(pdf|zip|gz|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|txt|mp3|mp4|mov|avi|woff2?|ttf|eot|docx?|xlsx?|pptx?)$/i
+
+/**
+ * Canonical form of a crawled URL: no fragment, lower-case host, no default port, tracking
+ * parameters removed, remaining parameters sorted and no trailing slash except on the root.
+ */
+export function normalizeCrawlUrl(url: string): string {
+  const parsed = new URL(url)
+  parsed.hash = ''
+  parsed.hostname = parsed.hostname.toLowerCase()
+  if (
+    (parsed.protocol === 'https:' && parsed.port === '443') ||
+    (parsed.protocol === 'http:' && parsed.port === '80')
+  ) {
+    parsed.port = ''
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b))
+  parsed.search = new URLSearchParams(params).toString()
+
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '')
+  }
+
+  return parsed.toString()
+}
+
+/**
+ * Matches a glob against a URL's path and query. `*` matches within one path segment, `**`
+ * across segments. Patterns starting with a scheme are matched against the full URL.
+ */
+export function matchesGlob(url: string, pattern: string): boolean {
+  const parsed = new URL(url)
+  const target = /^https?:\/\//.test(pattern) ? url : parsed.pathname + parsed.search
+
+  const regex = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map(part => {
+      if (part === '**') return '.*'
+      if (part === '*') return '[^/]*'
+      if (part === '?') return '[^/]'
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('')
+  return new RegExp(`^${regex}$`).test(target)
+}
+
+function isInScope(url: URL, start: URL, scope: CrawlScope): boolean {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false
+  if (scope === 'same-origin') return url.origin === start.origin
+
+  const rootHost = start.hostname.replace(/^www\./, '')
+  return url.hostname === rootHost || url.hostname.endsWith(`.${rootHost}`)
+}
+
+function dedupeKey(url: string, dedupeQueryVariants: boolean): string {
+  if (!dedupeQueryVariants) return url
+  const parsed = new URL(url)
+  return `${parsed.origin}${parsed.pathname}`
+}
+
+/**
+ * Breadth-first crawl from `startUrl`, following `<a href>` links in scope. Pages are fetched
+ * one at a time; the crawl stops once `maxPages` HTML pages have been collected. When a page
+ * declares an in-scope canonical URL, the canonical URL is recorded instead. When the start URL
+ * redirects (e.g. http to https, or to www), the scope is taken from where it redirected to.
+ * The whole crawl is bounded by `CRAWL_DEADLINE_MS`.
+ */
+export async function crawlSite(options: CrawlOptions): Promise<CrawlResult> {
+  const scope = options.scope || 'same-origin'
+  const include = (options.include || []).filter(Boolean)
+  const exclude = (options.exclude || []).filter(Boolean)
+  const maxDepth = Math.min(Math.max(options.maxDepth ?? 3, 0), MAX_CRAWL_DEPTH)
+  const maxPages = Math.min(Math.max(options.maxPages ?? 10, 1), MAX_CRAWL_PAGES)
+  const respectRobots = options.respectRobots !== false
+  const dedupeQueryVariants = options.dedupeQueryVariants !== false
+
+  let start = new URL(normalizeCrawlUrl(options.startUrl))
+  const deadline = Date.now() + CRAWL_DEADLINE_MS
+  const robotsByOrigin = new Map<string, RobotsPolicy>()
+  const seen = new Set<string>()
+  const collected = new Set<string>()
+  const result: CrawlResult = {
+    urls: [],
+    pages: [],
+    skipped: { robots: 0, scope: 0, pattern: 0, duplicate: 0, failed: 0 },
+    timedOut: false
+  }
+
+  const isAllowed = async (url: string) => {
+    if (!respectRobots) return true
+    const origin = new URL(url).origin
+    let policy = robotsByOrigin.get(origin)
+    if (!policy) {
+      policy = await fetchRobotsPolicy(url)
+      robotsByOrigin.set(origin, policy)
+    }
+    return isAllowedByRobots(policy, url)
+  }
+
+  // Include patterns only decide which pages are kept; links are still followed through
+  // pages that don't match so deeper matching pages can be reached
+  const isIncluded = (url: string) =>
+    include.length === 0 || include.some(pattern => matchesGlob(url, pattern))
+
+  const queue: { url: string, depth: number }[] = [{ url: start.toString(), depth: 0 }]
+  seen.add(dedupeKey(start.toString(), dedupeQueryVariants))
+
+  // Bound the number of requests so a site full of excluded pages can't keep us busy forever
+  const maxFetches = maxPages * 10
+  let fetches = 0
+
+  while (queue.length > 0 && result.urls.length < maxPages && fetches < maxFetches) {
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      result.timedOut = true
+      break
+    }
+    const { url, depth } = queue.shift()!
+
+    if (!await isAllowed(url)) {
+      result.skipped.robots++
+      continue
+    }
+
+    fetches++
+    let html: string
+    let finalUrl = url
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT, 'Accept': 'text/html' },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(Math.min(FETCH_TIMEOUT_MS, remaining))
+      })
+
+      const contentType = response.headers.get('content-type') || ''
+      if (!response.ok || !contentType.includes('text/html')) {
+        result.skipped.failed++
+        continue
+      }
+
+      // Redirects can leave the crawl scope; the start page's redirect defines it instead
+      if (response.url && response.url !== url) {
+        const redirected = new URL(normalizeCrawlUrl(response.url))
+        if (depth === 0) {
+          start = redirected
+          seen.add(dedupeKey(start.toString(), dedupeQueryVariants))
+        } else if (!isInScope(redirected, start, scope)) {
+          result.skipped.scope++
+          continue
+        }
+        finalUrl = redirected.toString()
+      }
+
+      html = await response.text()
+      result.pages.push({ url: finalUrl, depth, status: response.status })
+    } catch (error) {
+      console.warn(`Crawler failed to fetch ${url}:`, error instanceof Error ? error.message : String(error))
+      result.skipped.failed++
+      continue
+    }
+
+    const $ = cheerio.load(html)
+
+    let pageUrl = finalUrl
+    const canonicalHref = $('link[rel="canonical"]').attr('href')
+    if (canonicalHref) {
+      try {
+        const canonical = new URL(normalizeCrawlUrl(new URL(canonicalHref, finalUrl).toString()))
+        if (isInScope(canonical, start, scope)) pageUrl = canonical.toString()
+      } catch {
+        // Ignore malformed canonical links
+      }
+    }
+
+    const pageKey = dedupeKey(pageUrl, dedupeQueryVariants)
+    if (collected.has(pageKey)) {
+      result.skipped.duplicate++
+    } else if (!isIncluded(pageUrl) || exclude.some(pattern => matchesGlob(pageUrl, pattern))) {
+      result.skipped.pattern++
+    } else {
+      collected.add(pageKey)
+      result.urls.push(pageUrl)
+    }
+    seen.add(pageKey)
+
+    if (depth >= maxDepth) continue
+
+    $('a[href]').each((_, element) => {
+      const href = $(element).attr('href')
+      if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) return
+
+      let link: URL
+      try {
+        link = new URL(normalizeCrawlUrl(new URL(href, finalUrl).toString()))
+      } catch {
+        return
+      }
+
+      if (!isInScope(link, start, scope)) {
+        result.skipped.scope++
+        return
+      }
+      if (NON_HTML_EXTENSIONS.test(link.pathname)) return
+
+      const linkUrl = link.toString()
+      if (exclude.some(pattern => matchesGlob(linkUrl, pattern))) {
+        result.skipped.pattern++
+        return
+      }
+
+      const key = dedupeKey(linkUrl, dedupeQueryVariants)
+      if (seen.has(key)) return
+      seen.add(key)
+      queue.push({ url: linkUrl, depth: depth + 1 })
+    })
+  }
+
+  return result
+}
@@ -0,0 +1,301 @@
+import type { Page } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import type { AccessibilityResult } from "./types"
+
+// Longest monitoring period a project can ask for
+const MAX_MONITOR_SECONDS = 120
+const POLL_INTERVAL_MS = 500
+const MAX_RECORDED_CHANGES = 2000
+// WCAG 2.2.2 covers moving or updating content that keeps going for more than five seconds
+const AUTO_ADVANCE_MS = 5000
+const AUTO_ADVANCE_MIN_CHANGES = 3
+// Infinite CSS animations smaller than this (spinners, pulsing dots) aren't counted as moving content
+const MIN_ANIMATED_AREA = 2500
+
+type UpdateKind = 'toast' | 'spinner' | 'carousel' | 'text'
+
+interface ContentUpdate {
+  path: string
+  html: string
+  kind: UpdateKind
+  text: string
+  // Milliseconds from the start of monitoring
+  changedAt: number[]
+  // Inside an aria-live region, alert, status, log, timer or marquee, or an <output>
+  announced: boolean
+  // A pause, stop or hide button in or next to the content
+  pauseControl: boolean
+}
+
+interface InfiniteAnimation {
+  path: string
+  html: string
+  name: string
+  pauseControl: boolean
+}
+
+declare global {
+  interface Window {
+    __wcagDynamicContent?: {
+      updates: Map<Element, { kind: UpdateKind, changedAt: number[], announced: boolean }>
+      observer: MutationObserver
+      recorded: number
+    }
+  }
+}
+
+/**
+ * Watches the page for the given number of seconds without interacting with it. Reports, with
+ * the time into the monitoring period at which they happened:
+ * - text that appears or changes outside a live region, e.g. toasts, loading indicators and
+ *   status text (WCAG 4.1.3)
+ * - content that keeps changing or moving for more than five seconds, such as carousels and
+ *   tickers, without a pause or stop control (WCAG 2.2.2)
+ * - the page navigating on its own, e.g. a meta refresh or a session timeout redirect (WCAG 2.2.1)
+ * When the page navigates, the rest of the period is skipped and it's loaded again so the
+ * audits that follow see the original page.
+ */
+export async function monitorDynamicContent(page: Page, url: string, seconds: number): Promise<AccessibilityResult[]> {
+  await installPageHelpers(page)
+  const startedAt = Date.now()
+  const periodMs = Math.min(seconds, MAX_MONITOR_SECONDS) * 1000
+
+  // Only a new document fires this; history and hash changes don't
+  let navigatedAt: number | null = null
+  const onNewDocument = () => {
+    if (navigatedAt === null) navigatedAt = Date.now() - startedAt
+  }
+  page.on('domcontentloaded', onNewDocument)
+
+  await page.evaluate(({ maxChanges }) => {
+    const helpers = window.__wcagHelpers!
+    const start = performance.now()
+    const ignored = 'script, style, link, meta, noscript, template, head'
+    const liveSelector = '[aria-live]:not([aria-live="off"]), [role="alert"], [role="status"], [role="log"], [role="timer"], [role="marquee"], output'
+    const carouselSelector = '[aria-roledescription="carousel" i], [aria-roledescription="slide" i], [class*="carousel" i], [class*="slider" i], [class*="swiper" i], [class*="slick" i], [class*="ticker" i], [class*="marquee" i]'
+    const updates = new Map<Element, { kind: UpdateKind, changedAt: number[], announced: boolean }>()
+
+    const kindOf = (element: Element): UpdateKind => {
+      const carousel = element.closest(carouselSelector)
+      if (carousel) return 'carousel'
+      const described = `${element.getAttribute('role') || ''} ${element.getAttribute('class') || ''} ${element.getAttribute('aria-label') || ''}`
+      if (/progressbar|spinner|loading|loader|skeleton/i.test(described) || element.getAttribute('aria-busy') === 'true') return 'spinner'
+      const position = getComputedStyle(element).position
+      if (/toast|snackbar|notification|notice|flash|banner/i.test(described) || position === 'fixed' || position === 'sticky') return 'toast'
+      return 'text'
+    }
+
+    const record = (element: Element | null) => {
+      if (!element || element.closest(ignored) || state.recorded >= maxChanges) return
+      // A carousel counts as one piece of content, however many slides change
+      const key = element.closest(carouselSelector) || element
+      if (!helpers.isVisible(key) && !(key.textContent || '').trim()) return
+
+      const now = Math.round(performance.now() - start)
+      const update = updates.get(key) || { kind: kindOf(key), changedAt: [], announced: false }
+      // Batched changes to the same content count once
+      if (update.changedAt[update.changedAt.length - 1] !== now) update.changedAt.push(now)
+      update.announced = update.announced || Boolean(key.closest(liveSelector))
+      updates.set(key, update)
+      state.recorded++
+    }
+
+    const observer = new MutationObserver(mutations => {
+      for (const mutation of mutations) {
+        if (mutation.type === 'childList') {
+          const added = Array.from(mutation.addedNodes)
+          const elements = added.filter((node): node is Element => node.nodeType === 1)
+          if (elements.length > 0) elements.forEach(record)
+          else if (added.length > 0 || mutation.removedNodes.length > 0) record(mutation.target as Element)
+        } else if (mutation.type === 'characterData') {
+          record(mutation.target.parentElement)
+        } else {
+          record(mutation.target as Element)
+        }
+      }
+    })
+    const state = { updates, observer, recorded: 0 }
+    window.__wcagDynamicContent = state
+    observer.observe(document.body, {
+      subtree: true,
+      childList: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['class', 'style', 'hidden', 'aria-hidden', 'src'],
+    })
+  }, { maxChanges: MAX_RECORDED_CHANGES })
+
+  while (Date.now() - startedAt < periodMs && navigatedAt === null) {
+    await page.waitForTimeout(Math.min(POLL_INTERVAL_MS, periodMs - (Date.now() - startedAt)))
+  }
+  page.off('domcontentloaded', onNewDocument)
+
+  const monitoredFrom = new Date(startedAt).toISOString()
+  const createdAt = new Date().toISOString()
+
+  if (navigatedAt !== null) {
+    const target = page.url()
+    const at: number = navigatedAt
+    await page.goto(url, { waitUntil: 'networkidle', timeout: 60000 }).catch(error => {
+      console.warn(`Reloading ${url} after it navigated on its own failed:`, error instanceof Error ? error.message : String(error))
+    })
+    return [{
+      id: 'dynamic-navigation-0',
+      ruleId: 'timing-adjustable',
+      url,
+      message: target === url
+        ? `The page reloaded itself ${formatSeconds(at)} into monitoring`
+        : `The page navigated to ${target} on its own ${formatSeconds(at)} into monitoring`,
+      help: 'Pages must not refresh, redirect or end a session on a timer unless the user can turn off, adjust or extend the time limit',
+      element: '<html>',
+      elementPath: 'html',
+      impact: 'serious',
+      severity: 'serious',
+      tags: ['wcag2a', 'wcag221'],
+      details: { monitoredFrom, observedAt: observedAt(startedAt, at), observedAfterMs: at, navigatedTo: target },
+      createdAt,
+    }]
+  }
+
+  const { updates, animations } = await readDynamicContent(page)
+  const results: AccessibilityResult[] = []
+
+  for (const update of updates) {
+    const span = update.changedAt[update.changedAt.length - 1] - update.changedAt[0]
+    const details = {
+      monitoredFrom,
+      observedAt: observedAt(startedAt, update.changedAt[0]),
+      observedAfterMs: update.changedAt[0],
+      changedAt: update.changedAt,
+      kind: update.kind,
+      text: update.text,
+    }
+
+    if (update.changedAt.length >= AUTO_ADVANCE_MIN_CHANGES && span > AUTO_ADVANCE_MS) {
+      if (update.pauseControl) continue
+      results.push({
+        id: `dynamic-auto-advance-${results.length}`,
+        ruleId: 'pause-stop-hide',
+        url,
+        message: `${update.kind === 'carousel' ? 'Carousel' : 'Content'} changed ${update.changedAt.length} times over ${formatSeconds(span)} with no control to pause or stop it`,
+        help: 'Content that moves, scrolls or updates automatically for more than five seconds needs a way to pause, stop or hide it',
+        element: update.html,
+        elementPath: update.path,
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag222'],
+        details,
+        createdAt,
+      })
+      continue
+    }
+
+    if (update.announced || !update.text) continue
+    results.push({
+      id: `dynamic-status-${results.length}`,
+      ruleId: 'status-messages',
+      url,
+      message: update.kind === 'spinner'
+        ? `A loading indicator appeared ${formatSeconds(update.changedAt[0])} into monitoring without being announced to screen readers`
+        : update.kind === 'toast'
+          ? `A notification ("${update.text}") appeared ${formatSeconds(update.changedAt[0])} into monitoring outside a live region`
+          : `Text changed to "${update.text}" ${formatSeconds(update.changedAt[0])} into monitoring outside a live region`,
+      help: 'Status messages that appear without moving focus must be in a live region, e.g. role="status" for updates or role="alert" for errors, so screen readers announce them',
+      element: update.html,
+      elementPath: update.path,
+      impact: 'moderate',
+      severity: 'moderate',
+      tags: ['wcag21aa', 'wcag413'],
+      details,
+      createdAt,
+    })
+  }
+
+  for (const animation of animations) {
+    if (animation.pauseControl) continue
+    results.push({
+      id: `dynamic-animation-${results.length}`,
+      ruleId: 'pause-stop-hide',
+      url,
+      message: `The "${animation.name}" animation runs indefinitely with no control to pause or stop it`,
+      help: 'Content that moves, scrolls or updates automatically for more than five seconds needs a way to pause, stop or hide it; honoring prefers-reduced-motion alone is not enough',
+      element: animation.html,
+      elementPath: animation.path,
+      impact: 'moderate',
+      severity: 'moderate',
+      tags: ['wcag2a', 'wcag222'],
+      details: { monitoredFrom, animation: animation.name },
+      createdAt,
+    })
+  }
+
+  return results
+}
+
+async function readDynamicContent(page: Page): Promise<{ updates: ContentUpdate[], animations: InfiniteAnimation[] }> {
+  return page.evaluate((minArea) => {
+    const helpers = window.__wcagHelpers!
+    const state = window.__wcagDynamicContent!
+    state.observer.disconnect()
+
+    const pausePattern = /pause|stop|hide|play|close|dismiss/i
+    const hasPauseControl = (element: Element) => {
+      let container: Element | null = element
+      for (let level = 0; container && container !== document.body && level < 3; level++) {
+        const controls = Array.from(container.querySelectorAll('button, [role="button"], input[type="button"], input[type="checkbox"]'))
+        if (controls.some(control => pausePattern.test(`${control.textContent || ''} ${control.getAttribute('aria-label') || ''} ${control.getAttribute('title') || ''}`))) return true
+        container = container.parentElement
+      }
+      return false
+    }
+
+    // Keep the outermost of nested changes, with all their change times
+    const entries = Array.from(state.updates.entries()).filter(([element]) => element.isConnected || element.textContent)
+    const outermost = entries.filter(([element]) => !entries.some(([other]) => other !== element && other.contains(element)))
+    const updates = outermost.map(([element, update]) => {
+      const changedAt = new Set(update.changedAt)
+      let announced = update.announced
+      for (const [other, nested] of entries) {
+        if (other === element || !element.contains(other)) continue
+        nested.changedAt.forEach(time => changedAt.add(time))
+        announced = announced || nested.announced
+      }
+      return {
+        path: helpers.elementPath(element),
+        html: helpers.elementHtml(element),
+        kind: update.kind,
+        text: (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 100),
+        changedAt: Array.from(changedAt).sort((a, b) => a - b),
+        announced,
+        pauseControl: hasPauseControl(element),
+      }
+    })
+
+    const animated = new Map<Element, string>()
+    for (const animation of document.getAnimations()) {
+      const effect = animation.effect as KeyframeEffect | null
+      const target = effect?.target
+      if (!target || animation.playState !== 'running' || effect.getTiming().iterations !== Infinity) continue
+      const rect = target.getBoundingClientRect()
+      if (rect.width * rect.height < minArea || !helpers.isVisible(target)) continue
+      animated.set(target, (animation as CSSAnimation).animationName || animation.id || 'unnamed')
+    }
+    const animations = Array.from(animated.entries()).map(([element, name]) => ({
+      path: helpers.elementPath(element),
+      html: helpers.elementHtml(element),
+      name,
+      pauseControl: hasPauseControl(element),
+    }))
+
+    delete window.__wcagDynamicContent
+    return { updates, animations }
+  }, MIN_ANIMATED_AREA)
+}
+
+function observedAt(startedAt: number, offsetMs: number): string {
+  return new Date(startedAt + offsetMs).toISOString()
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`
+}
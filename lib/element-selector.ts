@@ -0,0 +1,59 @@
+import type { FrameLocator, Locator, Page } from "playwright-core"
+
+/**
+ * Composite selectors locate elements inside iframes and open shadow roots, which a single CSS
+ * selector can't reach. They're stored in `elementPath` as plain CSS selectors joined by:
+ * - `FRAME_SEPARATOR`: the selector before it is an iframe; the rest is inside its document
+ * - `SHADOW_SEPARATOR`: the selector before it is a shadow host; the rest is inside its shadow root
+ *
+ * e.g. `iframe#checkout |> payment-form >>> input#card`. Paths in the main document have no
+ * separators, so existing selectors are valid composite selectors too.
+ */
+export const FRAME_SEPARATOR = ' |> '
+export const SHADOW_SEPARATOR = ' >>> '
+
+// One entry per document, outermost first; each is the shadow host chain within that document
+export type SelectorChain = string[][]
+
+export function parseCompositeSelector(selector: string): SelectorChain {
+  return selector.split(FRAME_SEPARATOR).map(frame => frame.split(SHADOW_SEPARATOR))
+}
+
+export function formatCompositeSelector(chain: SelectorChain): string {
+  return chain.map(frame => frame.join(SHADOW_SEPARATOR)).join(FRAME_SEPARATOR)
+}
+
+/**
+ * axe targets have one entry per frame, each a selector or, inside shadow DOM, the array of
+ * selectors from the outermost host down.
+ */
+export function fromAxeTarget(target: (string | string[])[] | null | undefined): string | null {
+  if (!target || target.length === 0) return null
+  return formatCompositeSelector(target.map(frame => Array.isArray(frame) ? frame : [frame]))
+}
+
+// The axe context selector for a composite selector, e.g. for `include`
+export function toAxeSelector(selector: string): (string | string[])[] {
+  return parseCompositeSelector(selector).map(frame => frame.length === 1 ? frame[0] : frame)
+}
+
+/**
+ * A locator for the element a composite selector points at. Playwright's CSS engine already
+ * pierces open shadow roots, so shadow hosts become chained locators scoped to the host.
+ */
+export function locateElement(page: Page, selector: string): Locator {
+  const chain = parseCompositeSelector(selector)
+  let scope: Page | FrameLocator = page
+  for (const frame of chain.slice(0, -1)) {
+    scope = hostChainLocator(scope, frame).contentFrame()
+  }
+  return hostChainLocator(scope, chain[chain.length - 1])
+}
+
+function hostChainLocator(scope: Page | FrameLocator, hosts: string[]): Locator {
+  let locator = scope.locator(hosts[0]).first()
+  for (const segment of hosts.slice(1)) {
+    locator = locator.locator(segment).first()
+  }
+  return locator
+}
@@ -0,0 +1,81 @@
+import type { FlowStep, FlowStepAction } from "./types"
+import { SECRET_ENV_PREFIX, isAllowedSecretReference } from "./auth-session"
+
+export const FLOW_STEP_ACTIONS: FlowStepAction[] = ['goto', 'click', 'fill', 'press', 'waitFor']
+
+const MAX_FLOW_STEPS = 50
+
+/**
+ * Returns a message describing the first problem with a flow, or null when it can be saved.
+ * A flow must start by navigating somewhere and must scan at least once.
+ */
+export function validateFlow(name: unknown, steps: unknown): string | null {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Flow name is required'
+  }
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return 'A flow needs at least one step'
+  }
+  if (steps.length > MAX_FLOW_STEPS) {
+    return `A flow can have at most ${MAX_FLOW_STEPS} steps`
+  }
+  if (steps[0]?.action !== 'goto') {
+    return 'The first step must be a goto'
+  }
+
+  for (const [index, step] of (steps as FlowStep[]).entries()) {
+    const label = `Step ${index + 1}${step?.name ? ` (${step.name})` : ''}`
+    if (!step || typeof step.name !== 'string' || !step.name.trim()) {
+      return `Step ${index + 1} needs a name`
+    }
+    if (!FLOW_STEP_ACTIONS.includes(step.action)) {
+      return `${label} has an unknown action "${step.action}"`
+    }
+    if (step.action === 'goto') {
+      try {
+        new URL(step.url || '')
+      } catch {
+        return `${label} needs a valid URL`
+      }
+    } else if (!step.selector) {
+      return `${label} needs a selector`
+    }
+    if (step.action === 'press' && !step.key) {
+      return `${label} needs a key`
+    }
+    if (step.action === 'fill' && step.value && !isAllowedSecretReference(step.value)) {
+      return `${label} can only reference ${SECRET_ENV_PREFIX}* environment variables`
+    }
+  }
+
+  const names = (steps as FlowStep[]).map(step => step.name.trim())
+  if (new Set(names).size !== names.length) {
+    return 'Step names must be unique within a flow'
+  }
+
+  if (!(steps as FlowStep[]).some(step => step.scan)) {
+    return 'Mark at least one step to scan after it'
+  }
+
+  return null
+}
+
+// Only the fields a step's action uses are kept
+export function normalizeFlowSteps(steps: FlowStep[]): FlowStep[] {
+  return steps.map(step => ({
+    name: step.name.trim(),
+    action: step.action,
+    ...(step.action === 'goto' && { url: step.url }),
+    ...(step.action !== 'goto' && { selector: step.selector }),
+    ...(step.action === 'fill' && { value: step.value || '' }),
+    ...(step.action === 'press' && { key: step.key }),
+    scan: Boolean(step.scan)
+  }))
+}
+
+/**
+ * The URL a flow scan is listed under: where its first step navigates to.
+ */
+export function getFlowStartUrl(steps: FlowStep[]): string {
+  return steps.find(step => step.action === 'goto')?.url || ''
+}
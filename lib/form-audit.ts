@@ -0,0 +1,470 @@
+import type { Page } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import type { AccessibilityResult, ComplianceOptions } from "./types"
+
+const MAX_FIELDS = 300
+// Each submission reloads the page, so only the first few forms are submitted
+const MAX_SUBMITTED_FORMS = 3
+// Time given to client-side validation to show its errors after submitting
+const SUBMIT_SETTLE_MS = 1000
+const SUBMIT_NAVIGATION_TIMEOUT = 30000
+
+// Input purposes from WCAG 1.3.5, matched on a field's name, id, label and placeholder. The
+// first match wins, so the more specific purposes come first.
+const PERSONAL_DATA_PURPOSES: { token: string, pattern: RegExp }[] = [
+  { token: 'cc-name', pattern: /name on (the )?card|card ?holder|cc-?name/ },
+  { token: 'cc-number', pattern: /card ?(number|no\b)|cc-?(number|num)\b|credit ?card/ },
+  { token: 'cc-exp', pattern: /expir|\bexp(iry)? ?date|cc-?exp/ },
+  { token: 'cc-csc', pattern: /\b(cvc|cvv|csc|security code)\b/ },
+  { token: 'email', pattern: /e-?mail/ },
+  { token: 'tel', pattern: /phone|\btel\b|mobile|cell/ },
+  { token: 'username', pattern: /user ?name|login|user ?id/ },
+  { token: 'given-name', pattern: /first ?name|given ?name|fore ?name|\bfname\b/ },
+  { token: 'family-name', pattern: /last ?name|family ?name|surname|\blname\b/ },
+  { token: 'organization', pattern: /company|organi[sz]ation|employer/ },
+  { token: 'street-address', pattern: /street|address ?(line)? ?1?\b|\baddr\b/ },
+  { token: 'address-level2', pattern: /\bcity\b|\btown\b/ },
+  { token: 'address-level1', pattern: /\bstate\b|province|county|region/ },
+  { token: 'postal-code', pattern: /zip|postal|post ?code/ },
+  { token: 'country-name', pattern: /country/ },
+  { token: 'bday', pattern: /birth|\bdob\b|bday/ },
+  { token: 'name', pattern: /full ?name|your name|^name\b|\bname$/ },
+]
+
+interface FormField {
+  path: string
+  html: string
+  formIndex: number
+  type: string
+  name: string
+  // Name, id, label text and placeholder, for guessing what the field is for
+  descriptor: string
+  autocomplete: string | null
+  required: boolean
+  // Label, description or a ::before/::after on the label shows an asterisk or "required"
+  markedRequired: boolean
+  // Inside a fieldset with a legend, or a named group or radiogroup
+  grouped: boolean
+}
+
+interface SubmissionOutcome {
+  formPath: string
+  formHtml: string
+  hasRequiredFields: boolean
+  // The browser's own validation stopped the submission; it announces and focuses the first error
+  nativeValidation: boolean
+  // The form tried to send data, which the sandbox blocked
+  sent: boolean
+  dialog: string | null
+  messages: { path: string, html: string, text: string, announced: boolean }[]
+  invalidFields: { path: string, html: string, described: boolean }[]
+  focusOnError: boolean
+  focusPath: string | null
+}
+
+declare global {
+  interface Window {
+    __wcagFormAudit?: { form: HTMLFormElement, changed: Set<Element>, observer: MutationObserver }
+  }
+}
+
+/**
+ * Audits the page's forms: radio and checkbox groups without a group label, personal-data
+ * fields without an `autocomplete` purpose (WCAG 1.3.5, AA and up), and required fields that
+ * are only indicated visually or only programmatically. It then submits the first few forms
+ * empty, each on a fresh copy of the page where every request the submission makes is blocked,
+ * and checks the errors that appear are tied to their fields, announced and given focus.
+ */
+export async function auditForms(page: Page, url: string, wcagLevel: ComplianceOptions['wcagLevel']): Promise<AccessibilityResult[]> {
+  await installPageHelpers(page)
+  const fields = await readFormFields(page)
+  const formCount = await page.evaluate(() => document.forms.length)
+  const createdAt = new Date().toISOString()
+  const results: AccessibilityResult[] = []
+
+  const groups = new Map<string, FormField[]>()
+  for (const field of fields) {
+    if ((field.type !== 'radio' && field.type !== 'checkbox') || !field.name) continue
+    const key = `${field.formIndex}|${field.type}|${field.name}`
+    groups.set(key, [...(groups.get(key) || []), field])
+  }
+  for (const group of groups.values()) {
+    if (group.length < 2 || group.every(field => field.grouped)) continue
+    results.push({
+      id: `form-group-${results.length}`,
+      ruleId: 'form-group-label',
+      url,
+      message: `${group.length} ${group[0].type === 'radio' ? 'radio buttons' : 'checkboxes'} named "${group[0].name}" are not grouped with a fieldset and legend`,
+      help: 'Wrap related radio buttons and checkboxes in a <fieldset> with a <legend> (or a role="group"/"radiogroup" with a label) so the question they answer is announced',
+      element: group[0].html,
+      elementPath: group[0].path,
+      impact: 'serious',
+      severity: 'serious',
+      tags: ['wcag2a', 'wcag131'],
+      details: { fields: group.map(field => field.path) },
+      createdAt,
+    })
+  }
+
+  if (wcagLevel !== 'a') {
+    for (const field of fields) {
+      const purpose = personalDataPurpose(field)
+      if (!purpose) continue
+      const autocomplete = (field.autocomplete || '').trim().toLowerCase()
+      if (autocomplete && autocomplete !== 'on' && autocomplete !== 'off') continue
+
+      results.push({
+        id: `form-autocomplete-${results.length}`,
+        ruleId: 'autocomplete-valid',
+        url,
+        message: autocomplete === 'off'
+          ? `Field appears to collect personal data (${purpose}) but turns autocomplete off`
+          : `Field appears to collect personal data (${purpose}) but doesn't identify its purpose with autocomplete`,
+        help: `Add autocomplete="${purpose}" so browsers and assistive technology can recognize and fill the field`,
+        element: field.html,
+        elementPath: field.path,
+        impact: 'moderate',
+        severity: 'moderate',
+        tags: ['wcag21aa', 'wcag135'],
+        details: { suggestedAutocomplete: purpose, autocomplete: field.autocomplete },
+        createdAt,
+      })
+    }
+  }
+
+  for (const field of fields) {
+    // A radio group's requirement is marked on its legend, not on each option
+    if (field.required === field.markedRequired || field.type === 'radio') continue
+    results.push({
+      id: `form-required-${results.length}`,
+      ruleId: 'form-required-indication',
+      url,
+      message: field.required
+        ? 'Required field is not marked as required in its label'
+        : 'Field is marked as required in its label but not with required or aria-required',
+      help: field.required
+        ? 'Show that the field is required in its visible label, e.g. with "(required)" or an asterisk explained at the start of the form'
+        : 'Add the required attribute (or aria-required="true") so assistive technology announces the field as required',
+      element: field.html,
+      elementPath: field.path,
+      impact: field.required ? 'minor' : 'moderate',
+      severity: field.required ? 'minor' : 'moderate',
+      tags: ['wcag2a', 'wcag332'],
+      createdAt,
+    })
+  }
+
+  for (let formIndex = 0; formIndex < Math.min(formCount, MAX_SUBMITTED_FORMS); formIndex++) {
+    const outcome = await submitEmptyForm(page, formIndex).catch(error => {
+      console.warn(`Submitting form ${formIndex} on ${url} failed:`, error instanceof Error ? error.message : String(error))
+      return null
+    })
+    if (outcome) results.push(...submissionResults(outcome, formIndex, url, createdAt))
+  }
+
+  return results
+}
+
+function personalDataPurpose(field: FormField): string | null {
+  if (field.type === 'email') return 'email'
+  if (field.type === 'tel') return 'tel'
+  if (field.type === 'password') return /new|confirm|repeat|create|choose/.test(field.descriptor) ? 'new-password' : 'current-password'
+  if (!['text', 'search', 'url', 'number', 'date', 'month', 'textarea', 'select-one'].includes(field.type)) return null
+  return PERSONAL_DATA_PURPOSES.find(purpose => purpose.pattern.test(field.descriptor))?.token || null
+}
+
+async function readFormFields(page: Page): Promise<FormField[]> {
+  return page.evaluate((maxFields) => {
+    const helpers = window.__wcagHelpers!
+    const requiredMark = /\*|\brequired\b/i
+
+    const textOf = (ids: string | null) =>
+      (ids || '').split(/\s+/).filter(Boolean).map(id => document.getElementById(id)?.textContent || '').join(' ')
+
+    const markedInLabel = (label: Element) =>
+      requiredMark.test(label.textContent || '') ||
+      ['::before', '::after'].some(pseudo => getComputedStyle(label, pseudo).content.includes('*'))
+
+    const controls = Array.from(document.querySelectorAll('input, select, textarea'))
+      .filter((control): control is HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement => {
+        const type = (control as HTMLInputElement).type
+        return !['hidden', 'submit', 'button', 'reset', 'image'].includes(type) && helpers.isVisible(control)
+      })
+      .slice(0, maxFields)
+
+    return controls.map(control => {
+      const labels = Array.from(control.labels || [])
+      const labelText = labels.map(label => label.textContent || '').join(' ')
+      const description = textOf(control.getAttribute('aria-describedby'))
+      const group = control.closest('fieldset, [role="group"], [role="radiogroup"]')
+      const grouped = group
+        ? group.tagName === 'FIELDSET'
+          ? Boolean(group.querySelector(':scope > legend')?.textContent?.trim() || group.getAttribute('aria-label') || group.getAttribute('aria-labelledby'))
+          : Boolean(group.getAttribute('aria-label') || textOf(group.getAttribute('aria-labelledby')).trim())
+        : false
+
+      return {
+        path: helpers.elementPath(control),
+        html: helpers.elementHtml(control),
+        formIndex: control.form ? Array.from(document.forms).indexOf(control.form) : -1,
+        type: control.type,
+        name: control.name,
+        descriptor: [
+          control.name,
+          control.id,
+          labelText,
+          control.getAttribute('aria-label'),
+          textOf(control.getAttribute('aria-labelledby')),
+          control.getAttribute('placeholder'),
+        ].filter(Boolean).join(' ').replace(/[_\-[\]]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase(),
+        autocomplete: control.getAttribute('autocomplete'),
+        required: control.required || control.getAttribute('aria-required') === 'true',
+        markedRequired:
+          labels.some(markedInLabel) ||
+          requiredMark.test(control.getAttribute('aria-label') || '') ||
+          requiredMark.test(textOf(control.getAttribute('aria-labelledby'))) ||
+          /\brequired\b/i.test(description),
+        grouped,
+      }
+    })
+  }, MAX_FIELDS)
+}
+
+/**
+ * Loads the page again in a new tab of the same context (so a logged-in session carries over),
+ * clears the form's text fields and submits it. From the moment of submitting, navigations,
+ * fetches and non-GET requests are aborted, so nothing reaches the server. Returns null for
+ * forms that can't be submitted empty in a meaningful way: search forms and forms without
+ * fields.
+ */
+async function submitEmptyForm(page: Page, formIndex: number): Promise<SubmissionOutcome | null> {
+  const sandbox = await page.context().newPage()
+  let submitted = false
+  let sent = false
+  let dialog: string | null = null
+
+  try {
+    await sandbox.goto(page.url(), { waitUntil: 'load', timeout: SUBMIT_NAVIGATION_TIMEOUT })
+    await sandbox.route('**/*', route => {
+      const request = route.request()
+      if (submitted && (request.method() !== 'GET' || request.isNavigationRequest() || ['fetch', 'xhr'].includes(request.resourceType()))) {
+        sent = true
+        return route.abort()
+      }
+      return route.fallback()
+    })
+    sandbox.on('dialog', async shown => {
+      dialog = shown.message()
+      await shown.dismiss().catch(() => {})
+    })
+    await installPageHelpers(sandbox)
+
+    const prepared = await sandbox.evaluate((index) => {
+      const form = document.forms[index]
+      if (!form || form.method === 'dialog' || form.getAttribute('role') === 'search') return null
+
+      const fields = Array.from(form.elements).filter(element =>
+        element instanceof HTMLTextAreaElement ||
+        element instanceof HTMLSelectElement ||
+        (element instanceof HTMLInputElement && !['hidden', 'submit', 'button', 'reset', 'image'].includes(element.type))
+      )
+      if (fields.length === 0 || fields.every(field => (field as HTMLInputElement).type === 'search')) return null
+
+      for (const field of fields) {
+        if (field instanceof HTMLTextAreaElement || (field instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'color', 'file'].includes(field.type))) {
+          field.value = ''
+          field.dispatchEvent(new Event('input', { bubbles: true }))
+          field.dispatchEvent(new Event('change', { bubbles: true }))
+        }
+      }
+
+      // Everything that appears or changes after submitting is a candidate error message
+      const changed = new Set<Element>()
+      const observer = new MutationObserver(mutations => {
+        for (const mutation of mutations) {
+          const target = mutation.target.nodeType === 1 ? mutation.target as Element : mutation.target.parentElement
+          if (target) changed.add(target)
+          mutation.addedNodes.forEach(node => {
+            if (node.nodeType === 1) changed.add(node as Element)
+            else if (node.parentElement) changed.add(node.parentElement)
+          })
+        }
+      })
+      observer.observe(document.body, { subtree: true, childList: true, characterData: true, attributes: true, attributeFilter: ['class', 'style', 'hidden', 'aria-hidden', 'aria-invalid'] })
+      window.__wcagFormAudit = { form, changed, observer }
+      ;(document.activeElement as HTMLElement | null)?.blur?.()
+
+      const submitter = form.querySelector('button:not([type]), button[type="submit"], input[type="submit"], input[type="image"]')
+      return {
+        submitterPath: submitter && window.__wcagHelpers!.isVisible(submitter) ? window.__wcagHelpers!.elementPath(submitter) : null,
+      }
+    }, formIndex)
+    if (!prepared) return null
+
+    submitted = true
+    const clicked = prepared.submitterPath
+      ? await sandbox.locator(prepared.submitterPath).first().click({ timeout: 5000 }).then(() => true, () => false)
+      : false
+    if (!clicked) {
+      await sandbox.evaluate(() => window.__wcagFormAudit!.form.requestSubmit())
+    }
+    await sandbox.waitForTimeout(SUBMIT_SETTLE_MS)
+
+    const outcome = await sandbox.evaluate(() => {
+      const helpers = window.__wcagHelpers!
+      const state = window.__wcagFormAudit
+      // The page navigated away, e.g. a form that submits through a full page load
+      if (!state || !state.form.isConnected) return null
+      state.observer.disconnect()
+      const { form } = state
+      const errorPattern = /error|required|invalid|please|must|missing|enter a|not valid|incorrect/i
+
+      const controls = Array.from(form.elements).filter(element => element.matches('input, select, textarea'))
+      const hasRequiredFields = controls.some(control => (control as HTMLInputElement).required || control.getAttribute('aria-required') === 'true')
+      const describedBy = (control: Element) =>
+        [control.getAttribute('aria-describedby'), control.getAttribute('aria-errormessage')]
+          .join(' ').split(/\s+/).filter(Boolean)
+          .map(id => document.getElementById(id))
+          .filter((element): element is HTMLElement => element !== null)
+
+      // Topmost visible elements that changed and now read like an error
+      const candidates = Array.from(state.changed).filter(element =>
+        element.isConnected &&
+        !element.matches('input, select, textarea, option') &&
+        helpers.isVisible(element) &&
+        errorPattern.test(`${element.textContent || ''} ${element.getAttribute('class') || ''} ${element.id}`) &&
+        (element.textContent || '').trim().length > 0 &&
+        (element.textContent || '').length < 500
+      )
+      const messageElements = candidates.filter(element => !candidates.some(other => other !== element && other.contains(element)))
+
+      const liveSelector = '[aria-live]:not([aria-live="off"]), [role="alert"], [role="status"], [role="log"], output'
+      const referenced = controls.flatMap(describedBy)
+      const messages = messageElements.map(element => ({
+        path: helpers.elementPath(element),
+        html: helpers.elementHtml(element),
+        text: (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 200),
+        announced: Boolean(element.closest(liveSelector) || element.querySelector(liveSelector)) ||
+          referenced.some(description => description.contains(element) || element.contains(description)),
+      }))
+
+      const invalidControls = controls.filter(control => control.getAttribute('aria-invalid') === 'true')
+      const invalidFields = invalidControls.map(control => ({
+        path: helpers.elementPath(control),
+        html: helpers.elementHtml(control),
+        described: describedBy(control).some(description => (description.textContent || '').trim().length > 0 && helpers.isVisible(description)),
+      }))
+
+      const active = helpers.deepActiveElement()
+      const focusOnError = Boolean(active && active !== document.body && (
+        invalidControls.includes(active) ||
+        messageElements.some(element => element.contains(active) || active.contains(element)) ||
+        (controls.includes(active) && (active as HTMLInputElement).validity?.valid === false)
+      ))
+
+      // Checked last: checkValidity fires invalid events that custom validation may listen to
+      const submitter = form.querySelector('button:not([type]), button[type="submit"], input[type="submit"]') as HTMLButtonElement | HTMLInputElement | null
+      const nativeValidation = !form.noValidate && !submitter?.formNoValidate && !form.checkValidity()
+
+      return {
+        formPath: helpers.elementPath(form),
+        formHtml: helpers.elementHtml(form),
+        hasRequiredFields,
+        nativeValidation,
+        messages,
+        invalidFields,
+        focusOnError,
+        focusPath: active && active !== document.body ? helpers.elementPath(active) : null,
+      }
+    })
+
+    return outcome ? { ...outcome, sent, dialog } : null
+  } finally {
+    await sandbox.close().catch(() => {})
+  }
+}
+
+function submissionResults(outcome: SubmissionOutcome, formIndex: number, url: string, createdAt: string): AccessibilityResult[] {
+  // The browser's validation bubble and an alert() are both read out and keep focus on the form
+  if (outcome.nativeValidation || outcome.dialog) return []
+
+  const results: AccessibilityResult[] = []
+  const details = {
+    submission: {
+      sent: outcome.sent,
+      messages: outcome.messages.map(message => message.text),
+      invalidFields: outcome.invalidFields.map(field => field.path),
+      focus: outcome.focusPath,
+    },
+  }
+  const formResult = (id: string, fields: Omit<AccessibilityResult, 'id' | 'url' | 'element' | 'elementPath' | 'createdAt' | 'details'>) => {
+    results.push({ id: `${id}-${formIndex}`, url, element: outcome.formHtml, elementPath: outcome.formPath, details, createdAt, ...fields })
+  }
+
+  if (outcome.messages.length === 0 && outcome.invalidFields.length === 0) {
+    // Forms validated only by the server can't be judged without letting the data through
+    if (!outcome.sent && outcome.hasRequiredFields) {
+      formResult('form-submit-no-errors', {
+        ruleId: 'form-error-identification',
+        message: 'Submitting the form with its required fields empty shows no error',
+        help: 'When input is missing or invalid, identify the field and describe the error in text',
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag331'],
+      })
+    }
+    return results
+  }
+
+  if (outcome.messages.length > 0 && !outcome.messages.some(message => message.announced)) {
+    formResult('form-errors-not-announced', {
+      ruleId: 'form-error-announcement',
+      message: `Submitting the empty form shows ${outcome.messages.length === 1 ? 'an error' : `${outcome.messages.length} errors`} that screen readers don't announce`,
+      help: 'Put error messages in a live region (e.g. role="alert") or tie them to their fields with aria-describedby and move focus to the first one',
+      impact: 'serious',
+      severity: 'serious',
+      tags: ['wcag21aa', 'wcag413'],
+    })
+  }
+
+  if (outcome.messages.length > 0 && outcome.invalidFields.length === 0) {
+    formResult('form-errors-no-invalid-fields', {
+      ruleId: 'form-error-identification',
+      message: 'Submitting the empty form shows errors, but no field is marked with aria-invalid',
+      help: 'Set aria-invalid="true" on each field in error so screen readers announce it as invalid',
+      impact: 'moderate',
+      severity: 'moderate',
+      tags: ['wcag2a', 'wcag331'],
+    })
+  }
+
+  for (const field of outcome.invalidFields.filter(field => !field.described)) {
+    results.push({
+      id: `form-invalid-field-${formIndex}-${results.length}`,
+      ruleId: 'form-error-identification',
+      url,
+      message: 'Field is marked invalid but no visible error message is associated with it',
+      help: 'Reference the error message from the field with aria-describedby or aria-errormessage',
+      element: field.html,
+      elementPath: field.path,
+      impact: 'serious',
+      severity: 'serious',
+      tags: ['wcag2a', 'wcag331'],
+      details,
+      createdAt,
+    })
+  }
+
+  if (!outcome.focusOnError) {
+    formResult('form-error-focus', {
+      ruleId: 'form-error-focus',
+      message: 'Focus does not move to the first error after submitting the empty form',
+      help: 'Move focus to the first invalid field or to an error summary so keyboard and screen reader users find the errors',
+      impact: 'moderate',
+      severity: 'moderate',
+      tags: ['best-practice'],
+    })
+  }
+
+  return results
+}
@@ -0,0 +1,88 @@
+import { authFetchHeaders, type AuthSession } from "./auth-session"
+import { FRAME_SEPARATOR } from "./element-selector"
+
+// Frame documents loaded per page, across all nesting levels
+const MAX_FRAME_DOCUMENTS = 10
+const MAX_FRAME_DEPTH = 3
+
+export interface FrameSource {
+  // Selector path of the iframe element in its parent document
+  path: string
+  src: string | null
+  srcdoc: string | null
+}
+
+export interface FrameDocument<T> {
+  document: T
+  url: string
+  // Composite selector prefix for elements inside the frame, ending in the frame separator
+  pathPrefix: string
+}
+
+/**
+ * Loads a page's same-origin iframes, and the iframes inside those, for the static engines,
+ * which parse markup without a browser. `srcdoc` frames use their inline markup. Cross-origin
+ * frames are skipped, as they are in the browser engine. Each engine lists the frames in its own
+ * parsed documents and parses the markup of the ones found.
+ */
+export async function loadFrameDocuments<T>(
+  pageUrl: string,
+  page: T,
+  listFrames: (document: T) => FrameSource[],
+  parse: (html: string, url: string) => T,
+  auth?: AuthSession | null,
+): Promise<FrameDocument<T>[]> {
+  const origin = new URL(pageUrl).origin
+  const loaded: FrameDocument<T>[] = []
+  let parents: FrameDocument<T>[] = [{ document: page, url: pageUrl, pathPrefix: '' }]
+
+  for (let depth = 0; depth < MAX_FRAME_DEPTH && parents.length > 0; depth++) {
+    const children: FrameDocument<T>[] = []
+
+    for (const parent of parents) {
+      for (const frame of listFrames(parent.document)) {
+        if (loaded.length >= MAX_FRAME_DOCUMENTS) return loaded
+        const pathPrefix = `${parent.pathPrefix}${frame.path}${FRAME_SEPARATOR}`
+
+        const source = frame.srcdoc !== null
+          ? { url: parent.url, html: frame.srcdoc }
+          : await fetchFrame(frame.src, parent.url, origin, auth)
+        if (!source) continue
+
+        const child = { document: parse(source.html, source.url), url: source.url, pathPrefix }
+        loaded.push(child)
+        children.push(child)
+      }
+    }
+
+    parents = children
+  }
+
+  return loaded
+}
+
+async function fetchFrame(
+  src: string | null,
+  baseUrl: string,
+  origin: string,
+  auth?: AuthSession | null,
+): Promise<{ url: string, html: string } | null> {
+  if (!src) return null
+
+  let frameUrl: URL
+  try {
+    frameUrl = new URL(src, baseUrl)
+  } catch {
+    return null
+  }
+  if (frameUrl.origin !== origin) return null
+
+  try {
+    const response = await fetch(frameUrl.href, { headers: authFetchHeaders(auth, frameUrl.href) })
+    if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) return null
+    return { url: frameUrl.href, html: await response.text() }
+  } catch (error) {
+    console.warn(`Failed to fetch frame ${frameUrl.href}:`, error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
@@ -1,9 +1,28 @@
 import { JSDOM } from "jsdom"
-import type { ComplianceOptions, AccessibilityResult } from "./types"
+import type { ComplianceOptions, AccessibilityResult, PageStructureReport } from "./types"
+import { withRuleMetadata } from "./rule-catalog"
+import { authFetchHeaders, type AuthSession } from "./auth-session"
+import {
+  composite,
+  contrastRatio,
+  contrastRequirement,
+  flattenLayers,
+  floorRatio,
+  isLargeText,
+  parseCssColor,
+  parseFontWeight,
+  suggestColors,
+  toHex,
+  type RGBA,
+} from "./contrast"
+import { buildStructureReport, collectPageStructure } from "./page-structure"
+import { SHADOW_SEPARATOR } from "./element-selector"
+import { loadFrameDocuments } from "./frame-documents"
 
 export async function analyzeAccessibility(
   url: string,
   complianceOptions: ComplianceOptions,
+  auth?: AuthSession | null,
 ): Promise<{
   results: AccessibilityResult[]
   summary: {
@@ -14,10 +33,11 @@ export async function analyzeAccessibility(
     total: number
     urlsAnalyzed: number
   }
+  pageStructure: PageStructureReport
 }> {
   try {
     // Fetch the HTML content
-    const response = await fetch(url)
+    const response = await fetch(url, { headers: authFetchHeaders(auth, url) })
     if (!response.ok) {
       throw new Error(`Failed to fetch ${url}: ${response.statusText}`)
     }
@@ -27,33 +47,40 @@ export async function analyzeAccessibility(
     // Parse the HTML with JSDOM
     const dom = new JSDOM(html)
     const document = dom.window.document
+    attachDeclarativeShadowRoots(document)
 
     // Collect accessibility issues
-    const issues: AccessibilityResult[] = []
-
-    // Check for basic accessibility issues
-    issues.push(...checkImagesWithoutAlt(document, url))
-    issues.push(...checkHeadingStructure(document, url))
-    issues.push(...checkFormLabels(document, url))
-    issues.push(...checkLinkText(document, url))
-
-    // Add additional checks based on compliance options
-    if (complianceOptions.wcagLevel === "aa" || complianceOptions.wcagLevel === "aaa") {
-      issues.push(...checkColorContrast(document, url))
-      issues.push(...checkARIAAttributes(document, url))
-    }
-
-    if (complianceOptions.wcagLevel === "aaa") {
-      issues.push(...checkTextSpacing(document, url))
-    }
-
-    if (complianceOptions.section508) {
-      issues.push(...checkKeyboardAccessibility(document, url))
-    }
+    const issues = checkDocumentContent(document, url, complianceOptions)
+    issues.push(...checkMainHeading(document, url))
 
     // Check for basic HTML validation issues
     issues.push(...checkBasicHtmlIssues(document, url))
 
+    // Same-origin iframes get the content checks too; their paths start with the frame chain
+    const frames = await loadFrameDocuments(
+      url,
+      document,
+      parent => queryAll(parent, "iframe").map(frame => ({
+        path: generateElementPath(frame),
+        src: frame.getAttribute("src"),
+        srcdoc: frame.getAttribute("srcdoc"),
+      })),
+      (frameHtml, frameUrl) => {
+        const frameDocument = new JSDOM(frameHtml, { url: frameUrl }).window.document
+        attachDeclarativeShadowRoots(frameDocument)
+        return frameDocument
+      },
+      auth,
+    )
+    frames.forEach((frame, frameIndex) => {
+      issues.push(...checkDocumentContent(frame.document, url, complianceOptions).map(issue => ({
+        ...issue,
+        id: `frame-${frameIndex}-${issue.id}`,
+        elementPath: frame.pathPrefix + (issue.elementPath || "body"),
+        details: { ...issue.details, frameUrl: frame.url },
+      })))
+    })
+
     // Generate summary
     const summary = {
       critical: issues.filter((r) => r.severity === "critical").length,
@@ -65,8 +92,9 @@ export async function analyzeAccessibility(
     }
 
     return {
-      results: issues,
+      results: issues.map(withRuleMetadata),
       summary,
+      pageStructure: buildStructureReport(collectPageStructure(document), 'html'),
     }
   } catch (error) {
     console.error(`Error analyzing ${url}:`, error)
@@ -74,12 +102,74 @@ export async function analyzeAccessibility(
   }
 }
 
-// Enhanced helper function to generate CSS selector paths
+// Checks that apply to any document, the page's own or one framed in it
+function checkDocumentContent(document: Document, url: string, complianceOptions: ComplianceOptions): AccessibilityResult[] {
+  const issues: AccessibilityResult[] = []
+
+  // Check for basic accessibility issues
+  issues.push(...checkImagesWithoutAlt(document, url))
+  issues.push(...checkHeadingStructure(document, url))
+  issues.push(...checkFormLabels(document, url))
+  issues.push(...checkLinkText(document, url))
+
+  // Add additional checks based on compliance options
+  if (complianceOptions.wcagLevel === "aa" || complianceOptions.wcagLevel === "aaa") {
+    issues.push(...checkColorContrast(document, url, complianceOptions.wcagLevel))
+    issues.push(...checkARIAAttributes(document, url))
+  }
+
+  if (complianceOptions.wcagLevel === "aaa") {
+    issues.push(...checkTextSpacing(document, url))
+  }
+
+  if (complianceOptions.section508) {
+    issues.push(...checkKeyboardAccessibility(document, url))
+  }
+
+  return issues
+}
+
+/**
+ * jsdom doesn't parse declarative shadow DOM, so `<template shadowrootmode="open">` is attached
+ * to its host by hand. Closed shadow roots stay as they are, since a browser wouldn't expose them.
+ */
+function attachDeclarativeShadowRoots(root: Document | ShadowRoot) {
+  for (const template of Array.from(root.querySelectorAll<HTMLTemplateElement>('template[shadowrootmode="open"]'))) {
+    const host = template.parentElement
+    if (!host || host.shadowRoot) continue
+
+    try {
+      const shadowRoot = host.attachShadow({ mode: "open" })
+      shadowRoot.appendChild(template.content)
+      template.remove()
+      attachDeclarativeShadowRoots(shadowRoot)
+    } catch {
+      // Not an element that can host a shadow root
+    }
+  }
+}
+
+// querySelectorAll that also looks inside open shadow roots, in document order
+function queryAll(root: Document | ShadowRoot, selector: string): Element[] {
+  return Array.from(root.querySelectorAll("*")).flatMap(element => [
+    ...(element.matches(selector) ? [element] : []),
+    ...(element.shadowRoot ? queryAll(element.shadowRoot, selector) : []),
+  ])
+}
+
+// Selector path to the element, with the shadow host chain when it's inside shadow DOM
 function generateElementPath(element: Element): string {
+  const root = element.getRootNode() as Document | ShadowRoot
+  const path = scopedElementPath(element)
+  return "host" in root && root.host ? `${generateElementPath(root.host)}${SHADOW_SEPARATOR}${path}` : path
+}
+
+// Enhanced helper function to generate CSS selector paths within the element's document or shadow root
+function scopedElementPath(element: Element): string {
   const path: string[] = []
   let current: Element | null = element
 
-  while (current && current.nodeType === Node.ELEMENT_NODE) {
+  while (current && current.nodeType === current.ELEMENT_NODE) {
     let selector = current.tagName.toLowerCase()
 
     // Add ID if present (most specific)
@@ -103,7 +193,7 @@ function generateElementPath(element: Element): string {
         sibling => sibling.tagName === current!.tagName
       )
       if (siblings.length > 1) {
-        const index = siblings.indexOf(current) + 1
+        const index = Array.from(current.parentElement.children).indexOf(current) + 1
         selector += `:nth-child(${index})`
       }
     }
@@ -119,12 +209,13 @@ function generateElementPath(element: Element): string {
 
 function checkImagesWithoutAlt(document: Document, url: string): AccessibilityResult[] {
   const issues: AccessibilityResult[] = []
-  const images = document.querySelectorAll("img")
+  const images = queryAll(document, "img")
 
   images.forEach((img, index) => {
     if (!img.hasAttribute("alt")) {
       issues.push({
         id: `img-no-alt-${index}`,
+        ruleId: "image-alt",
         url,
         message: "Image missing alt attribute",
         help: "Images must have alternate text",
@@ -141,6 +232,7 @@ function checkImagesWithoutAlt(document: Document, url: string): AccessibilityRe
       if (role !== "presentation" && role !== "none") {
         issues.push({
           id: `img-empty-alt-${index}`,
+          ruleId: "image-empty-alt",
           url,
           message: "Image has empty alt attribute but is not marked as decorative",
           help: "Non-decorative images should have meaningful alt text",
@@ -160,7 +252,7 @@ function checkImagesWithoutAlt(document: Document, url: string): AccessibilityRe
 
 function checkHeadingStructure(document: Document, url: string): AccessibilityResult[] {
   const issues: AccessibilityResult[] = []
-  const headings = document.querySelectorAll("h1, h2, h3, h4, h5, h6")
+  const headings = queryAll(document, "h1, h2, h3, h4, h5, h6")
   let previousLevel = 0
 
   headings.forEach((heading, index) => {
@@ -170,6 +262,7 @@ function checkHeadingStructure(document: Document, url: string): AccessibilityRe
     if (level - previousLevel > 1 && previousLevel !== 0) {
       issues.push({
         id: `heading-skip-${index}`,
+        ruleId: "heading-order",
         url,
         message: `Heading level skipped from h${previousLevel} to h${level}`,
         help: "Heading levels should only increase by one",
@@ -185,10 +278,18 @@ function checkHeadingStructure(document: Document, url: string): AccessibilityRe
     previousLevel = level
   })
 
+  return issues
+}
+
+// Only the page needs a main heading; documents framed in it are part of its content
+function checkMainHeading(document: Document, url: string): AccessibilityResult[] {
+  const issues: AccessibilityResult[] = []
+
   // Check if there's an h1
-  if (!document.querySelector("h1")) {
+  if (!queryAll(document, "h1").length) {
     issues.push({
       id: "missing-h1",
+      ruleId: "page-has-heading-one",
       url,
       message: "Document does not have a main heading (h1)",
       help: "Pages should contain a main heading to describe their content",
@@ -206,7 +307,7 @@ function checkHeadingStructure(document: Document, url: string): AccessibilityRe
 
 function checkFormLabels(document: Document, url: string): AccessibilityResult[] {
   const issues: AccessibilityResult[] = []
-  const formControls = document.querySelectorAll("input, select, textarea")
+  const formControls = queryAll(document, "input, select, textarea")
 
   formControls.forEach((control, index) => {
     const id = control.getAttribute("id")
@@ -218,11 +319,14 @@ function checkFormLabels(document: Document, url: string): AccessibilityResult[]
     }
 
     // Check if control has an id and a corresponding label
-    if (!id || !document.querySelector(`label[for="${id}"]`)) {
+    // Labels only point at controls in their own document or shadow root
+    const scope = control.getRootNode() as Document | ShadowRoot
+    if (!id || !scope.querySelector(`label[for="${id}"]`)) {
       // Check if control is inside a label
       if (!control.closest("label")) {
         issues.push({
           id: `form-control-no-label-${index}`,
+          ruleId: "label",
           url,
           message: "Form control does not have a label",
           help: "Form controls must have associated labels",
@@ -242,7 +346,7 @@ function checkFormLabels(document: Document, url: string): AccessibilityResult[]
 
 function checkLinkText(document: Document, url: string): AccessibilityResult[] {
   const issues: AccessibilityResult[] = []
-  const links = document.querySelectorAll("a")
+  const links = queryAll(document, "a")
 
   links.forEach((link, index) => {
     const text = link.textContent?.trim() || ""
@@ -254,6 +358,7 @@ function checkLinkText(document: Document, url: string): AccessibilityResult[] {
     if (!text && !ariaLabel && !ariaLabelledBy && !title) {
       issues.push({
         id: `empty-link-${index}`,
+        ruleId: "link-name",
         url,
         message: "Link has no text",
         help: "Links must have discernible text",
@@ -270,6 +375,7 @@ function checkLinkText(document: Document, url: string): AccessibilityResult[] {
     if (["click here", "here", "more", "read more"].includes(text.toLowerCase()) && !ariaLabel && !ariaLabelledBy) {
       issues.push({
         id: `generic-link-${index}`,
+        ruleId: "link-generic-text",
         url,
         message: "Link has generic text",
         help: "Link text should be descriptive",
@@ -286,33 +392,82 @@ function checkLinkText(document: Document, url: string): AccessibilityResult[] {
   return issues
 }
 
-function checkColorContrast(document: Document, url: string): AccessibilityResult[] {
-  // Note: Proper color contrast checking requires browser rendering
-  // This is a simplified check that looks for potential inline style issues
+/**
+ * Contrast from the styles jsdom can resolve: inline styles and <style> blocks. External
+ * stylesheets aren't loaded, so on pages that use them an element is only checked when both its
+ * text color and a solid background behind it are declared in the page itself. Text over
+ * background images is left to the browser engine.
+ */
+function checkColorContrast(document: Document, url: string, wcagLevel: ComplianceOptions["wcagLevel"]): AccessibilityResult[] {
   const issues: AccessibilityResult[] = []
-  const elements = document.querySelectorAll('[style*="color"], [style*="background"]')
-
-  elements.forEach((element, index) => {
-    const style = element.getAttribute("style") || ""
-
-    // This is a very simplified check - real contrast checking requires computing styles
-    if (
-      (style.includes("color") && style.includes("background")) ||
-      (element.textContent?.trim() && (style.includes("color: #") || style.includes("background: #")))
-    ) {
-      issues.push({
-        id: `potential-contrast-issue-${index}`,
-        url,
-        message: "Potential color contrast issue with inline styles",
-        help: "Text elements must have sufficient color contrast",
-        element: element.outerHTML,
-        elementPath: generateElementPath(element),
-        impact: "moderate",
-        severity: "moderate",
-        tags: ["wcag2aa", "wcag2aaa"],
-        createdAt: new Date().toISOString(),
-      })
+  const view = document.defaultView
+  if (!view) return issues
+
+  const hasExternalStyles = document.querySelector('link[rel~="stylesheet"]') !== null
+  const skippedTags = ["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "OPTION", "TITLE"]
+
+  Array.from(document.body?.querySelectorAll("*") || []).forEach((element, index) => {
+    if (skippedTags.includes(element.tagName) || element.closest('svg, :disabled, [aria-disabled="true"]')) return
+    const hasOwnText = Array.from(element.childNodes).some(
+      node => node.nodeType === node.TEXT_NODE && node.textContent?.trim()
+    )
+    if (!hasOwnText) return
+
+    const style = view.getComputedStyle(element)
+    const declaredForeground = parseCssColor(style.color)
+    if (style.display === "none" || style.visibility === "hidden") return
+
+    const layers: RGBA[] = []
+    let solidBackground = false
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      const currentStyle = view.getComputedStyle(current)
+      const backgroundImage = currentStyle.backgroundImage
+      if (backgroundImage && backgroundImage !== "none") return
+      const background = parseCssColor(currentStyle.backgroundColor)
+      if (!background || background[3] === 0) continue
+      layers.push(background)
+      if (background[3] >= 1) {
+        solidBackground = true
+        break
+      }
     }
+    if (hasExternalStyles && (!declaredForeground || !solidBackground)) return
+
+    const foreground = declaredForeground || [0, 0, 0, 1] as RGBA
+    const background = flattenLayers(layers)
+    const fontSize = parseFloat(style.fontSize) || 16
+    const fontWeight = parseFontWeight(style.fontWeight)
+    const largeText = isLargeText(fontSize, fontWeight)
+    const requirement = contrastRequirement(wcagLevel, largeText)
+    const ratio = contrastRatio(foreground, background)
+    if (!requirement || ratio >= requirement.ratio) return
+
+    const measured = floorRatio(ratio)
+    issues.push({
+      id: `contrast-${index}`,
+      ruleId: requirement.ruleId,
+      url,
+      message: `Insufficient color contrast: ${measured.toFixed(2)}:1 (required: ${requirement.ratio}:1)`,
+      help: "Text elements must have sufficient color contrast against their background",
+      element: element.outerHTML,
+      elementPath: generateElementPath(element),
+      impact: "serious",
+      severity: "serious",
+      tags: requirement.tags,
+      details: {
+        state: "default",
+        contrastRatio: measured,
+        requiredRatio: requirement.ratio,
+        foreground: toHex(composite(foreground, background)),
+        background: toHex(background),
+        backgroundSource: "color",
+        fontSize: `${fontSize}px`,
+        fontWeight,
+        largeText,
+        suggestedColors: suggestColors(foreground, background, requirement.ratio),
+      },
+      createdAt: new Date().toISOString(),
+    })
   })
 
   return issues
@@ -320,7 +475,7 @@ function checkColorContrast(document: Document, url: string): AccessibilityResul
 
 function checkARIAAttributes(document: Document, url: string): AccessibilityResult[] {
   const issues: AccessibilityResult[] = []
-  const elementsWithRole = document.querySelectorAll("[role]")
+  const elementsWithRole = queryAll(document, "[role]")
 
   // Valid ARIA roles
   const validRoles = [
@@ -401,6 +556,7 @@ function checkARIAAttributes(document: Document, url: string): AccessibilityResu
     if (role && !validRoles.includes(role)) {
       issues.push({
         id: `invalid-role-${index}`,
+        ruleId: "aria-roles",
         url,
         message: `Invalid ARIA role: ${role}`,
         help: "ARIA roles must be valid",
@@ -419,7 +575,7 @@ function checkARIAAttributes(document: Document, url: string): AccessibilityResu
 
 function checkTextSpacing(document: Document, url: string): AccessibilityResult[] {
   const issues: AccessibilityResult[] = []
-  const elementsWithLineHeight = document.querySelectorAll('[style*="line-height"]')
+  const elementsWithLineHeight = queryAll(document, '[style*="line-height"]')
 
   elementsWithLineHeight.forEach((element, index) => {
     const style = element.getAttribute("style") || ""
@@ -428,6 +584,7 @@ function checkTextSpacing(document: Document, url: string): AccessibilityResult[
     if (style.includes("line-height: 1") || style.includes("line-height:1") || style.includes("line-height: 0")) {
       issues.push({
         id: `restrictive-line-height-${index}`,
+        ruleId: "line-height",
         url,
         message: "Restrictive line height may cause readability issues",
         help: "Text spacing should be adjustable without loss of content",
@@ -448,7 +605,7 @@ function checkKeyboardAccessibility(document: Document, url: string): Accessibil
   const issues: AccessibilityResult[] = []
 
   // Check for elements with click handlers but no keyboard equivalent
-  const elementsWithOnClick = document.querySelectorAll("[onclick]")
+  const elementsWithOnClick = queryAll(document, "[onclick]")
 
   elementsWithOnClick.forEach((element, index) => {
     const tagName = element.tagName.toLowerCase()
@@ -459,6 +616,7 @@ function checkKeyboardAccessibility(document: Document, url: string): Accessibil
     if (!["a", "button", "input", "select", "textarea"].includes(tagName) && role !== "button" && !tabIndex) {
       issues.push({
         id: `keyboard-inaccessible-${index}`,
+        ruleId: "keyboard-access",
         url,
         message: "Element has click handler but may not be keyboard accessible",
         help: "Interactive elements must be accessible via keyboard",
@@ -473,7 +631,7 @@ function checkKeyboardAccessibility(document: Document, url: string): Accessibil
   })
 
   // Check for positive tabindex which disrupts natural tab order
-  const elementsWithPositiveTabIndex = document.querySelectorAll("[tabindex]")
+  const elementsWithPositiveTabIndex = queryAll(document, "[tabindex]")
 
   elementsWithPositiveTabIndex.forEach((element, index) => {
     const tabIndex = Number.parseInt(element.getAttribute("tabindex") || "0")
@@ -481,6 +639,7 @@ function checkKeyboardAccessibility(document: Document, url: string): Accessibil
     if (tabIndex > 0) {
       issues.push({
         id: `positive-tabindex-${index}`,
+        ruleId: "tabindex",
         url,
         message: `Element has positive tabindex (${tabIndex}) which disrupts natural tab order`,
         help: "Avoid using positive tabindex values",
@@ -505,6 +664,7 @@ function checkBasicHtmlIssues(document: Document, url: string): AccessibilityRes
   if (!doctype) {
     issues.push({
       id: "missing-doctype",
+      ruleId: "doctype",
       url,
       message: "Missing DOCTYPE declaration",
       help: "Include a proper DOCTYPE declaration for better accessibility",
@@ -522,6 +682,7 @@ function checkBasicHtmlIssues(document: Document, url: string): AccessibilityRes
   if (!html.hasAttribute("lang")) {
     issues.push({
       id: "missing-lang",
+      ruleId: "html-has-lang",
       url,
       message: "Missing language attribute on HTML element",
       help: "Specify the document language using the lang attribute",
@@ -538,6 +699,7 @@ function checkBasicHtmlIssues(document: Document, url: string): AccessibilityRes
   if (!document.title) {
     issues.push({
       id: "missing-title",
+      ruleId: "document-title",
       url,
       message: "Missing document title",
       help: "Provide a descriptive title for the document",
@@ -567,6 +729,7 @@ function checkBasicHtmlIssues(document: Document, url: string): AccessibilityRes
       elements.forEach((element, index) => {
         issues.push({
           id: `duplicate-id-${id}-${index}`,
+          ruleId: "duplicate-id",
           url,
           message: `Duplicate ID: "${id}" appears ${elements.length} times`,
           help: "IDs must be unique within the document",
@@ -0,0 +1,343 @@
+import type { Page, Route } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import { runAxe } from "./axe-runner"
+import { toAxeSelector } from "./element-selector"
+import type { AccessibilityResult } from "./types"
+
+const MAX_TRIGGERS = 20
+// Time for transitions and lazily rendered content after a trigger is activated or Escape pressed
+const SETTLE_MS = 400
+const CLICK_TIMEOUT = 2000
+// axe runs on at most this many revealed regions per trigger, in document order
+const MAX_REGIONS_PER_TRIGGER = 5
+
+export type RevealTriggerKind = 'disclosure' | 'popup' | 'tab' | 'details' | 'dialog'
+
+export interface RevealTrigger {
+  index: number
+  kind: RevealTriggerKind
+  label: string
+  path: string
+  html: string
+}
+
+export interface RevealedContent {
+  trigger: RevealTrigger
+  // Selectors of the outermost elements that became visible, which axe was limited to
+  regions: string[]
+  axeResults: any
+}
+
+interface TriggerOutcome {
+  regions: { path: string, html: string }[]
+  dialog: { path: string, html: string } | null
+  focusInDialog: boolean
+}
+
+declare global {
+  interface Window {
+    __wcagExplore?: {
+      triggers: Element[]
+      known: WeakSet<Element>
+      hiddenBefore: Set<Element>
+    }
+  }
+}
+
+/**
+ * Activates the page's disclosure buttons, popup and menu buttons, tabs, `<summary>` elements and
+ * dialog triggers one at a time and runs axe on just the content each one reveals, so findings in
+ * collapsed menus, accordions and dialogs aren't missed. Dialogs also get their focus management
+ * checked: focus should move into the dialog when it opens, Escape should close it, and focus
+ * should go back to the trigger afterwards. Navigations, fetch and XHR requests and anything
+ * other than GET are blocked while exploring, so triggers can't change data on the site; a
+ * trigger that tries to leave the page is skipped.
+ */
+export async function exploreInteractiveContent(page: Page, url: string, axeTags: string[]): Promise<{
+  revealed: RevealedContent[]
+  results: AccessibilityResult[]
+}> {
+  await installPageHelpers(page)
+  const revealed: RevealedContent[] = []
+  const findings: Omit<AccessibilityResult, 'url' | 'details' | 'createdAt'>[] = []
+  const findingDetails: Record<string, any>[] = []
+
+  let navigationBlocked = false
+  const blockRequests = (route: Route) => {
+    const request = route.request()
+    if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+      navigationBlocked = true
+      return route.abort()
+    }
+    // With an authenticated session a trigger's requests are real: nothing may be saved, sent or deleted
+    if (request.method() !== 'GET' || ['fetch', 'xhr'].includes(request.resourceType())) {
+      return route.abort()
+    }
+    return route.fallback()
+  }
+  await page.route('**/*', blockRequests)
+  // Triggers that open a new tab or window
+  const closePopup = (popup: Page) => {
+    popup.close().catch(() => {})
+  }
+  page.context().on('page', closePopup)
+
+  let triggers: RevealTrigger[] = []
+  // Back to the page as loaded, for when a trigger left it changed in a way that can't be undone
+  const reload = async () => {
+    await page.unroute('**/*', blockRequests)
+    await page.goto(url, { waitUntil: 'load' }).catch(() => {})
+    await page.route('**/*', blockRequests)
+    await installPageHelpers(page)
+    triggers = await findTriggers(page)
+  }
+
+  try {
+    triggers = await findTriggers(page)
+
+    for (let index = 0; index < triggers.length; index++) {
+      const trigger = triggers[index]
+      const ready = await page.evaluate((triggerIndex) => {
+        const helpers = window.__wcagHelpers!
+        const state = window.__wcagExplore!
+        const element = state.triggers[triggerIndex]
+        if (!element?.isConnected || !helpers.isVisible(element)) return false
+
+        // What's on the page now, so whatever shows up after the click can be told apart
+        const elements = Array.from(document.body.querySelectorAll('*'))
+        state.known = new WeakSet(elements)
+        state.hiddenBefore = new Set(elements.filter(candidate => !helpers.isVisible(candidate)))
+        return true
+      }, index)
+      if (!ready) continue
+
+      navigationBlocked = false
+      const pathBefore = pathOf(page.url())
+      await activate(page, index)
+      await page.waitForTimeout(SETTLE_MS)
+
+      // Client-side routing changes the URL without a request; reload to get back to the page
+      if (pathOf(page.url()) !== pathBefore) {
+        await reload()
+        continue
+      }
+      if (navigationBlocked) continue
+
+      const outcome = await readRevealedContent(page, index)
+      if (outcome.regions.length > 0) {
+        const axeResults = await runAxe(page, axeTags, { include: outcome.regions.map(region => toAxeSelector(region.path)) })
+        revealed.push({ trigger, regions: outcome.regions.map(region => region.path), axeResults })
+      }
+
+      if (outcome.dialog) {
+        const dialog = outcome.dialog
+        const details = { revealedBy: trigger, dialogPath: dialog.path }
+        if (!outcome.focusInDialog) {
+          findings.push({
+            id: `explore-dialog-focus-${index}`,
+            ruleId: 'dialog-focus',
+            message: `Focus stayed outside the dialog opened by "${trigger.label}"`,
+            help: 'Move focus into a dialog when it opens, to its first focusable element or the dialog itself, so keyboard and screen reader users start inside it',
+            element: dialog.html,
+            elementPath: dialog.path,
+            impact: 'serious',
+            severity: 'serious',
+            tags: ['wcag2a', 'wcag243'],
+          })
+          findingDetails.push(details)
+        }
+
+        await page.keyboard.press('Escape')
+        await page.waitForTimeout(SETTLE_MS)
+        const afterEscape = await page.evaluate(({ triggerIndex, dialogPath }) => {
+          const helpers = window.__wcagHelpers!
+          const dialogElement = helpers.resolvePath(dialogPath)
+          const trigger = window.__wcagExplore!.triggers[triggerIndex]
+          const active = helpers.deepActiveElement()
+          return {
+            closed: !dialogElement || !helpers.isVisible(dialogElement),
+            focusReturned: Boolean(active && (active === trigger || trigger.contains(active))),
+          }
+        }, { triggerIndex: index, dialogPath: dialog.path })
+
+        if (!afterEscape.closed) {
+          findings.push({
+            id: `explore-dialog-escape-${index}`,
+            ruleId: 'dialog-escape',
+            message: `The dialog opened by "${trigger.label}" doesn't close with Escape`,
+            help: 'Let Escape close dialogs, in addition to any close button, so keyboard users can always get out of them',
+            element: dialog.html,
+            elementPath: dialog.path,
+            impact: 'moderate',
+            severity: 'moderate',
+            tags: ['best-practice'],
+          })
+          findingDetails.push(details)
+        } else if (!afterEscape.focusReturned) {
+          findings.push({
+            id: `explore-dialog-return-${index}`,
+            ruleId: 'dialog-focus',
+            message: `Focus didn't return to "${trigger.label}" after its dialog closed`,
+            help: 'When a dialog closes, move focus back to the element that opened it so keyboard users keep their place',
+            element: trigger.html,
+            elementPath: trigger.path,
+            impact: 'moderate',
+            severity: 'moderate',
+            tags: ['wcag2a', 'wcag243'],
+          })
+          findingDetails.push(details)
+        }
+
+        // A modal left open would sit in front of every later trigger
+        if (!afterEscape.closed) {
+          await reload()
+          continue
+        }
+      }
+
+      // Put things back before the next trigger: Escape closes most popups, clicking again
+      // collapses disclosures. Anything still open stays; later triggers only look at what they change.
+      if (!outcome.dialog) await page.keyboard.press('Escape')
+      const stillExpanded = await page.evaluate((triggerIndex) => {
+        const trigger = window.__wcagExplore!.triggers[triggerIndex]
+        return trigger.getAttribute('aria-expanded') === 'true' || Boolean(trigger.parentElement?.matches('details[open]') && trigger.tagName === 'SUMMARY')
+      }, index)
+      if (stillExpanded) {
+        await activate(page, index)
+        await page.waitForTimeout(SETTLE_MS)
+      }
+    }
+  } finally {
+    page.context().off('page', closePopup)
+    await page.unroute('**/*', blockRequests).catch(() => {})
+  }
+
+  const createdAt = new Date().toISOString()
+  return {
+    revealed,
+    results: findings.map((finding, index) => ({
+      ...finding,
+      url,
+      details: findingDetails[index],
+      createdAt,
+    })),
+  }
+}
+
+async function findTriggers(page: Page): Promise<RevealTrigger[]> {
+  return page.evaluate((maxTriggers) => {
+    const helpers = window.__wcagHelpers!
+    const candidates = Array.from(document.querySelectorAll([
+      '[aria-expanded="false"]',
+      '[aria-haspopup]:not([aria-haspopup="false"])',
+      '[role="tab"][aria-selected="false"]',
+      'details:not([open]) > summary',
+      '[aria-controls]',
+      '[popovertarget]',
+      '[commandfor]',
+      '[data-bs-toggle="modal"]',
+      '[data-toggle="modal"]',
+    ].join(', ')))
+
+    const controlled = (element: Element): Element | null => {
+      const id = element.getAttribute('aria-controls')?.split(/\s+/)[0]
+        || element.getAttribute('popovertarget')
+        || element.getAttribute('commandfor')
+        || (element.getAttribute('data-bs-target') || element.getAttribute('data-target') || '').replace(/^#/, '')
+      return id ? document.getElementById(id) : null
+    }
+    const isDialog = (element: Element | null) =>
+      Boolean(element && element.matches('dialog, [role="dialog"], [role="alertdialog"], [aria-modal="true"]'))
+
+    const triggers: Element[] = []
+    const found = []
+    for (const element of candidates) {
+      if (found.length >= maxTriggers) break
+      if (!helpers.isVisible(element) || element.matches(':disabled, [aria-disabled="true"]')) continue
+
+      const target = controlled(element)
+      const popup = element.getAttribute('aria-haspopup')
+      // aria-controls alone also appears on controls that are already showing their content
+      const onlyControls = !element.matches('[aria-expanded], [aria-haspopup], [role="tab"], summary, [popovertarget], [commandfor], [data-bs-toggle], [data-toggle]')
+      if (onlyControls && (!target || helpers.isVisible(target))) continue
+      if (element.getAttribute('aria-expanded') === 'true' || element.getAttribute('aria-selected') === 'true') continue
+
+      let kind: RevealTriggerKind = 'disclosure'
+      if (element.tagName === 'SUMMARY') kind = 'details'
+      else if (element.getAttribute('role') === 'tab') kind = 'tab'
+      else if (isDialog(target) || popup === 'dialog' || /modal/.test(element.getAttribute('data-bs-toggle') || element.getAttribute('data-toggle') || '')) kind = 'dialog'
+      else if (popup) kind = 'popup'
+
+      triggers.push(element)
+      found.push({
+        index: found.length,
+        kind,
+        label: (element.getAttribute('aria-label') || element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 80) || element.tagName.toLowerCase(),
+        path: helpers.elementPath(element),
+        html: helpers.elementHtml(element),
+      })
+    }
+
+    window.__wcagExplore = { triggers, known: new WeakSet(), hiddenBefore: new Set() }
+    return found
+  }, MAX_TRIGGERS)
+}
+
+// A real click first; covered or animated triggers fall back to a DOM click
+async function activate(page: Page, index: number) {
+  const handle = await page.evaluateHandle((triggerIndex) => window.__wcagExplore!.triggers[triggerIndex], index)
+  try {
+    const element = handle.asElement()
+    if (!element) return
+    await element.click({ timeout: CLICK_TIMEOUT }).catch(() =>
+      element.evaluate(trigger => (trigger as HTMLElement).click())
+    )
+  } finally {
+    await handle.dispose()
+  }
+}
+
+async function readRevealedContent(page: Page, index: number): Promise<TriggerOutcome> {
+  return page.evaluate(({ triggerIndex, maxRegions }) => {
+    const helpers = window.__wcagHelpers!
+    const state = window.__wcagExplore!
+    const trigger = state.triggers[triggerIndex]
+    const ignored = 'script, style, link, meta, noscript, template'
+
+    const shown = new Set(Array.from(document.body.querySelectorAll('*')).filter(element =>
+      (!state.known.has(element) || state.hiddenBefore.has(element))
+      && !element.matches(ignored)
+      && helpers.isVisible(element)
+    ))
+    // Only the outermost revealed elements; a re-rendered container holding the trigger isn't content it revealed
+    const regions = Array.from(shown)
+      .filter(element => !(element.parentElement && shown.has(element.parentElement)))
+      .filter(element => !element.contains(trigger) && !trigger.contains(element))
+      .slice(0, maxRegions)
+
+    const dialogSelector = 'dialog[open], [role="dialog"], [role="alertdialog"], [aria-modal="true"]'
+    let dialog: Element | null = null
+    for (const region of regions) {
+      dialog = region.matches(dialogSelector)
+        ? region
+        : Array.from(region.querySelectorAll(dialogSelector)).find(candidate => helpers.isVisible(candidate)) || null
+      if (dialog) break
+    }
+    const active = helpers.deepActiveElement()
+
+    return {
+      regions: regions.map(region => ({ path: helpers.elementPath(region), html: helpers.elementHtml(region) })),
+      dialog: dialog ? { path: helpers.elementPath(dialog), html: helpers.elementHtml(dialog) } : null,
+      focusInDialog: Boolean(dialog && active && dialog.contains(active)),
+    }
+  }, { triggerIndex: index, maxRegions: MAX_REGIONS_PER_TRIGGER })
+}
+
+function pathOf(pageUrl: string): string {
+  try {
+    const parsed = new URL(pageUrl)
+    return parsed.origin + parsed.pathname + parsed.search
+  } catch {
+    return pageUrl
+  }
+}
@@ -0,0 +1,224 @@
+import { createHash } from "crypto"
+import { Prisma } from "@prisma/client"
+import { prisma } from "./db"
+import { DEFAULT_VIEWPORT } from "./viewports"
+import type { IssueLifecycleSummary, OccurrenceState } from "./types"
+
+interface FingerprintInput {
+  url: string
+  ruleId?: string | null
+  message: string
+  elementPath?: string | null
+  element?: string | null
+  flowId?: string | null
+  flowStep?: string | null
+  viewport?: string | null
+}
+
+interface TrackedResult extends FingerprintInput {
+  id: string
+  fingerprint: string | null
+  severity: string
+  engines?: string[]
+}
+
+/**
+ * Stable identity of an issue: rule + normalized selector + normalized element snippet. Only
+ * the opening tag of the snippet is used, so text or child changes inside the element don't
+ * turn an existing issue into a new one. Flow results are also keyed by flow and step, so the
+ * same element seen in two steps is two issues, and results from a viewport other than desktop
+ * by their profile. Desktop results keep the fingerprint they had before profiles existed.
+ */
+export function computeFingerprint(result: FingerprintInput): string {
+  const parts = [
+    result.url,
+    result.ruleId || result.message,
+    normalizeSelector(result.elementPath),
+    normalizeElementSnippet(result.element)
+  ]
+  if (result.flowId) {
+    parts.push(`flow:${result.flowId}:${result.flowStep || ''}`)
+  }
+  if (result.viewport && result.viewport !== DEFAULT_VIEWPORT) {
+    parts.push(`viewport:${result.viewport}`)
+  }
+  return createHash('sha1').update(parts.join('|')).digest('hex')
+}
+
+export function normalizeSelector(selector: string | null | undefined): string {
+  if (!selector) return ''
+  return selector
+    .replace(/\s*([>+~])\s*/g, ' $1 ')
+    .replace(/\s+/g, ' ')
+    // Generated ids and class names (ember123, css-1a2b3c) change between builds
+    .replace(/\d{3,}/g, 'N')
+    .trim()
+}
+
+export function normalizeElementSnippet(element: string | null | undefined): string {
+  if (!element) return ''
+  const openingTag = element.match(/^\s*<[^>]*>/)
+  return (openingTag ? openingTag[0] : element)
+    .replace(/\s+style\s*=\s*("[^"]*"|'[^']*')/gi, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*(\/?>)$/, '$1')
+    .replace(/\d{3,}/g, 'N')
+    .trim()
+    .toLowerCase()
+}
+
+/**
+ * Records the results of a completed scan against the project's issues. Issues seen again stay
+ * open (or are reopened as regressed), new fingerprints create issues, and open issues on the
+ * same URL (or of the same flow, for flow scans) and viewport that were not seen are marked
+ * fixed, as long as every engine that found them ran in this scan. Issues recorded before
+ * engines were tracked are only resolved by scans where no engine failed. One occurrence row
+ * is written per issue per scan.
+ */
+export async function trackScanIssues(
+  tx: Prisma.TransactionClient,
+  { projectId, scanId, url, flowId = null, viewport = DEFAULT_VIEWPORT, engines, failedEngines, results }: {
+    projectId: string
+    scanId: string
+    url: string
+    flowId?: string | null
+    viewport?: string
+    // Engines that ran and that failed in this scan
+    engines: string[]
+    failedEngines: string[]
+    results: TrackedResult[]
+  }
+): Promise<IssueLifecycleSummary> {
+  const now = new Date()
+  const summary: IssueLifecycleSummary = { new: 0, open: 0, regressed: 0, fixed: 0 }
+
+  // A scan is re-recorded from scratch if it is processed again
+  await tx.issueOccurrence.deleteMany({ where: { scanId } })
+
+  const existingIssues = await tx.issue.findMany({
+    where: flowId ? { projectId, flowId, viewport } : { projectId, url, flowId: null, viewport }
+  })
+  const issuesByFingerprint = new Map(existingIssues.map(issue => [issue.fingerprint, issue]))
+  const seen = new Set<string>()
+
+  for (const result of results) {
+    const fingerprint = result.fingerprint || computeFingerprint(result)
+    // Identical elements with the same selector collapse into one issue
+    if (seen.has(fingerprint)) continue
+    seen.add(fingerprint)
+
+    const issueData = {
+      ruleId: result.ruleId || null,
+      message: result.message,
+      severity: result.severity,
+      element: result.element || null,
+      elementPath: result.elementPath || null,
+      engines: result.engines || [],
+      lastSeenAt: now
+    }
+
+    const existing = issuesByFingerprint.get(fingerprint)
+    let issueId: string
+    let state: OccurrenceState
+
+    if (!existing) {
+      const created = await tx.issue.create({
+        data: {
+          projectId,
+          fingerprint,
+          url: result.url,
+          flowId,
+          flowStep: result.flowStep || null,
+          viewport,
+          ...issueData,
+          status: 'open',
+          firstSeenAt: now
+        }
+      })
+      issueId = created.id
+      state = 'new'
+    } else if (existing.status === 'fixed') {
+      await tx.issue.update({
+        where: { id: existing.id },
+        data: {
+          ...issueData,
+          status: 'open',
+          resolvedAt: null,
+          reopenedCount: { increment: 1 }
+        }
+      })
+      issueId = existing.id
+      state = 'regressed'
+    } else {
+      await tx.issue.update({
+        where: { id: existing.id },
+        data: issueData
+      })
+      issueId = existing.id
+      state = 'open'
+    }
+
+    await tx.issueOccurrence.create({
+      data: { issueId, scanId, resultId: result.id, state }
+    })
+    summary[state]++
+  }
+
+  // An engine that failed can't tell us its issues are gone
+  const ranEnginesThatFound = (issue: { engines: string[] }) => issue.engines.length > 0
+    ? issue.engines.every(engine => engines.includes(engine))
+    : failedEngines.length === 0
+  const fixedIssues = existingIssues.filter(issue =>
+    issue.status === 'open' && !seen.has(issue.fingerprint) && ranEnginesThatFound(issue)
+  )
+  if (fixedIssues.length > 0) {
+    await tx.issue.updateMany({
+      where: { id: { in: fixedIssues.map(issue => issue.id) } },
+      data: { status: 'fixed', resolvedAt: now }
+    })
+    await tx.issueOccurrence.createMany({
+      data: fixedIssues.map(issue => ({ issueId: issue.id, scanId, state: 'fixed' }))
+    })
+    summary.fixed = fixedIssues.length
+  }
+
+  return summary
+}
+
+/**
+ * Lifecycle counts across the latest scan of every URL and viewport in the project, i.e. what the most
+ * recent rescan found to be new, fixed, still open or regressed.
+ */
+export async function getIssueLifecycleSummary(projectId: string, scanIds?: string[]): Promise<IssueLifecycleSummary> {
+  const latestScanIds = scanIds ?? await getLatestCompletedScanIds(projectId)
+  const summary: IssueLifecycleSummary = { new: 0, open: 0, regressed: 0, fixed: 0 }
+  if (latestScanIds.length === 0) return summary
+
+  const counts = await prisma.issueOccurrence.groupBy({
+    by: ['state'],
+    where: { scanId: { in: latestScanIds } },
+    _count: { _all: true }
+  })
+
+  for (const count of counts) {
+    if (count.state in summary) {
+      summary[count.state as OccurrenceState] = count._count._all
+    }
+  }
+  return summary
+}
+
+async function getLatestCompletedScanIds(projectId: string): Promise<string[]> {
+  const scans = await prisma.scan.findMany({
+    where: { projectId, status: 'completed' },
+    select: { id: true, url: true, viewport: true },
+    orderBy: { completedAt: 'desc' }
+  })
+
+  const latestByTarget = new Map<string, string>()
+  for (const scan of scans) {
+    const key = `${scan.url}|${scan.viewport}`
+    if (!latestByTarget.has(key)) latestByTarget.set(key, scan.id)
+  }
+  return Array.from(latestByTarget.values())
+}
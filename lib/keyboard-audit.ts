@@ -0,0 +1,321 @@
+import type { Page } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import type { AccessibilityResult } from "./types"
+
+// Tab presses before the traversal gives up on reaching the end of the page
+const MAX_TAB_STOPS = 150
+// Presses spent inside an iframe before it counts as one stop and the traversal moves on
+const MAX_FRAME_PRESSES = 50
+// Pixel comparisons are the slow part; stops beyond this only get the style comparison
+const MAX_INDICATOR_SCREENSHOTS = 30
+const MAX_UNREACHABLE_RESULTS = 20
+const FOCUS_RING_MARGIN = 4
+
+interface FocusStop {
+  index: number
+  isNew: boolean
+  path: string
+  html: string
+  isFrame: boolean
+  visible: boolean
+  inViewport: boolean
+  rect: { x: number, y: number, width: number, height: number }
+}
+
+interface FocusStyles {
+  focused: Record<string, string>
+  unfocused: Record<string, string>
+}
+
+declare global {
+  interface Window {
+    __wcagKeyboardAudit?: { stops: Element[] }
+  }
+}
+
+/**
+ * Walks the page with the keyboard the way a keyboard user would: Tab from the top until focus
+ * comes back around, recording every stop. Along the way it reports focus traps (focus cycles
+ * that Tab and Shift+Tab can't leave), stops without a visible focus indicator and focus landing
+ * on hidden or off-screen elements. When the walk reached the end of the page, elements that
+ * look clickable but were never focused are reported as mouse-only. Every result carries the
+ * focus order in `details.focusOrder`.
+ */
+export async function auditKeyboardNavigation(page: Page, url: string): Promise<AccessibilityResult[]> {
+  await installPageHelpers(page)
+  await page.evaluate(() => {
+    window.__wcagKeyboardAudit = { stops: [] }
+    ;(document.activeElement as HTMLElement | null)?.blur?.()
+    window.scrollTo(0, 0)
+  })
+
+  const stops: FocusStop[] = []
+  const findings: Omit<AccessibilityResult, 'url' | 'details' | 'createdAt'>[] = []
+  const findingDetails: Record<string, any>[] = []
+  let screenshotsTaken = 0
+  let completed = false
+  let framePresses = 0
+
+  const report = (finding: typeof findings[number], details: Record<string, any>) => {
+    findings.push(finding)
+    findingDetails.push(details)
+  }
+
+  for (let press = 0; press < MAX_TAB_STOPS + MAX_FRAME_PRESSES; press++) {
+    await page.keyboard.press('Tab')
+    const stop = await readFocusStop(page)
+
+    // Focus left the document (past the last stop) or came back to the first one
+    if (!stop || (!stop.isNew && stop.index === 0)) {
+      completed = stops.length > 0
+      break
+    }
+
+    const previous = stops[stops.length - 1]
+    if (!stop.isNew && previous?.index === stop.index && stop.isFrame) {
+      // Tab is moving through the frame's own document
+      if (++framePresses >= MAX_FRAME_PRESSES) break
+      continue
+    }
+    framePresses = 0
+
+    if (!stop.isNew) {
+      const cycle = stops.slice(stops.findIndex(s => s.index === stop.index))
+      if (await isFocusTrapped(page, cycle.map(s => s.index))) {
+        report({
+          id: `keyboard-trap-${stop.index}`,
+          ruleId: 'keyboard-trap',
+          message: cycle.length === 1
+            ? 'Keyboard focus is stuck on this element: Tab and Shift+Tab do not move it'
+            : `Keyboard focus is trapped in a cycle of ${cycle.length} elements that Tab and Shift+Tab cannot leave`,
+          help: 'Users must be able to move keyboard focus away from any component using only the keyboard',
+          element: stop.html,
+          elementPath: stop.path,
+          impact: 'critical',
+          severity: 'critical',
+          tags: ['wcag2a', 'wcag212'],
+        }, { trappedElements: cycle.map(s => s.path) })
+      }
+      // Either way the rest of the page can't be reached in order from here
+      break
+    }
+
+    stops.push(stop)
+    if (stops.length >= MAX_TAB_STOPS) break
+
+    if (!stop.visible || !stop.inViewport) {
+      report({
+        id: `focus-hidden-${stop.index}`,
+        ruleId: 'focus-hidden-element',
+        message: stop.visible
+          ? 'Keyboard focus moved to an element positioned off-screen'
+          : 'Keyboard focus moved to an element that is not visible',
+        help: 'Elements that receive keyboard focus must be visible when focused; hide inactive content with display:none, hidden or inert',
+        element: stop.html,
+        elementPath: stop.path,
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag243'],
+      }, { focusIndex: stops.length - 1, rect: stop.rect })
+      continue
+    }
+
+    if (stop.isFrame) continue
+
+    const styles = await compareFocusStyles(page)
+    if (!styles || !sameStyles(styles.focused, styles.unfocused)) continue
+
+    // The styles we compare can miss indicators drawn with pseudo-elements or sibling selectors
+    let pixelsChanged: boolean | null = null
+    if (screenshotsTaken < MAX_INDICATOR_SCREENSHOTS) {
+      screenshotsTaken++
+      pixelsChanged = await focusChangesPixels(page, stop)
+      if (pixelsChanged) continue
+    }
+
+    report({
+      id: `focus-visible-${stop.index}`,
+      ruleId: 'focus-visible',
+      message: 'Element has no visible focus indicator',
+      help: 'Keyboard focus must be visible, e.g. with an outline or a change of border, background or shadow',
+      element: stop.html,
+      elementPath: stop.path,
+      impact: 'serious',
+      severity: 'serious',
+      tags: ['wcag2aa', 'wcag247'],
+    }, { focusIndex: stops.length - 1, focusedStyles: styles.focused, comparedScreenshots: pixelsChanged !== null })
+  }
+
+  if (completed) {
+    const unreachable = await findMouseOnlyElements(page)
+    for (const [index, element] of unreachable.entries()) {
+      report({
+        id: `keyboard-unreachable-${index}`,
+        ruleId: 'keyboard-access',
+        message: 'Element responds to the mouse but is never reached with the Tab key',
+        help: 'Interactive elements must be focusable and operable with the keyboard',
+        element: element.html,
+        elementPath: element.path,
+        impact: 'critical',
+        severity: 'critical',
+        tags: ['wcag2a', 'wcag211'],
+      }, { reason: element.reason })
+    }
+  }
+
+  const focusOrder = stops.map(stop => stop.path)
+  const createdAt = new Date().toISOString()
+  return findings.map((finding, index) => ({
+    ...finding,
+    url,
+    details: { ...findingDetails[index], focusOrder, focusOrderComplete: completed },
+    createdAt,
+  }))
+}
+
+async function readFocusStop(page: Page): Promise<FocusStop | null> {
+  return page.evaluate(() => {
+    const helpers = window.__wcagHelpers!
+    const state = window.__wcagKeyboardAudit!
+    const element = helpers.deepActiveElement()
+    if (!element || element === document.body || element === document.documentElement) return null
+
+    let index = state.stops.indexOf(element)
+    const isNew = index === -1
+    if (isNew) {
+      state.stops.push(element)
+      index = state.stops.length - 1
+    }
+
+    const rect = element.getBoundingClientRect()
+    return {
+      index,
+      isNew,
+      path: helpers.elementPath(element),
+      html: helpers.elementHtml(element),
+      isFrame: element.tagName === 'IFRAME' || element.tagName === 'FRAME',
+      visible: helpers.isVisible(element),
+      // Focusing scrolls an element into view, so one still outside the viewport can't be seen
+      inViewport: rect.right > 0 && rect.bottom > 0 && rect.left < window.innerWidth && rect.top < window.innerHeight,
+      rect: { x: rect.x, y: rect.y, width: rect.width, height: rect.height },
+    }
+  })
+}
+
+/**
+ * Whether focus stays inside the cycle no matter which way the user tabs. A cycle that Tab
+ * keeps returning to may still be escapable backwards, e.g. a widget that moves focus forward
+ * on its own.
+ */
+async function isFocusTrapped(page: Page, cycle: number[]): Promise<boolean> {
+  for (let press = 0; press <= cycle.length + 1; press++) {
+    await page.keyboard.press('Shift+Tab')
+    const stop = await readFocusStop(page)
+    if (!stop || !cycle.includes(stop.index)) return false
+  }
+  return true
+}
+
+/**
+ * Computed styles of the focused element with and without focus. Focus is restored before
+ * returning so the next Tab continues from the same place.
+ */
+async function compareFocusStyles(page: Page): Promise<FocusStyles | null> {
+  return page.evaluate(() => {
+    const element = window.__wcagHelpers!.deepActiveElement() as HTMLElement | null
+    if (!element || typeof element.blur !== 'function') return null
+
+    const snapshot = () => {
+      const style = getComputedStyle(element)
+      return {
+        outlineStyle: style.outlineStyle,
+        outlineWidth: style.outlineWidth,
+        outlineColor: style.outlineColor,
+        outlineOffset: style.outlineOffset,
+        boxShadow: style.boxShadow,
+        borderColor: style.borderColor,
+        borderWidth: style.borderWidth,
+        backgroundColor: style.backgroundColor,
+        color: style.color,
+        textDecorationLine: style.textDecorationLine,
+      }
+    }
+
+    const focused = snapshot()
+    element.blur()
+    const unfocused = snapshot()
+    element.focus({ preventScroll: true })
+    return { focused, unfocused }
+  })
+}
+
+function sameStyles(a: Record<string, string>, b: Record<string, string>): boolean {
+  return Object.keys(a).every(key => a[key] === b[key])
+}
+
+/**
+ * Screenshots the area around the focused element with and without focus. The margin catches
+ * outlines and shadows drawn outside the element's box.
+ */
+async function focusChangesPixels(page: Page, stop: FocusStop): Promise<boolean> {
+  const viewport = page.viewportSize()
+  const x = Math.max(0, stop.rect.x - FOCUS_RING_MARGIN)
+  const y = Math.max(0, stop.rect.y - FOCUS_RING_MARGIN)
+  const clip = {
+    x,
+    y,
+    width: Math.max(1, Math.min(stop.rect.width + FOCUS_RING_MARGIN * 2, (viewport?.width ?? Infinity) - x)),
+    height: Math.max(1, Math.min(stop.rect.height + FOCUS_RING_MARGIN * 2, (viewport?.height ?? Infinity) - y)),
+  }
+
+  try {
+    const focused = await page.screenshot({ clip, animations: 'disabled', caret: 'hide' })
+    await page.evaluate(() => (window.__wcagHelpers!.deepActiveElement() as HTMLElement | null)?.blur?.())
+    const unfocused = await page.screenshot({ clip, animations: 'disabled', caret: 'hide' })
+    return !focused.equals(unfocused)
+  } catch (error) {
+    console.warn(`Focus indicator screenshot failed for ${stop.path}:`, error instanceof Error ? error.message : String(error))
+    // Without a comparison, don't claim the indicator is missing
+    return true
+  } finally {
+    await page.evaluate((index) => {
+      (window.__wcagKeyboardAudit!.stops[index] as HTMLElement).focus?.({ preventScroll: true })
+    }, stop.index)
+  }
+}
+
+/**
+ * Visible elements that present themselves as clickable (a pointer cursor, an onclick handler
+ * or an interactive role) without being, containing or sitting inside any focus stop. Only the
+ * outermost element of a clickable area is reported.
+ */
+async function findMouseOnlyElements(page: Page): Promise<{ path: string, html: string, reason: string }[]> {
+  return page.evaluate((maxResults) => {
+    const helpers = window.__wcagHelpers!
+    const stops = window.__wcagKeyboardAudit!.stops
+    const interactiveRoles = ['button', 'link', 'checkbox', 'radio', 'switch', 'tab', 'menuitem', 'option', 'slider', 'combobox']
+
+    const clickableReason = (element: Element): string | null => {
+      if (element.hasAttribute('onclick')) return 'onclick handler'
+      const role = element.getAttribute('role')
+      if (role && interactiveRoles.includes(role)) return `role="${role}"`
+      if (getComputedStyle(element).cursor === 'pointer') return 'pointer cursor'
+      return null
+    }
+
+    const results: { path: string, html: string, reason: string }[] = []
+    for (const element of Array.from(document.body.querySelectorAll('*'))) {
+      if (results.length >= maxResults) break
+      // Clicking a label focuses its control, which has its own stop
+      if (element.tagName === 'LABEL' || element.closest('[disabled], [aria-disabled="true"], [inert]')) continue
+
+      const reason = clickableReason(element)
+      if (!reason || !helpers.isVisible(element)) continue
+      if (element.parentElement && element.parentElement !== document.body && clickableReason(element.parentElement)) continue
+      if (stops.some(stop => stop === element || stop.contains(element) || element.contains(stop))) continue
+
+      results.push({ path: helpers.elementPath(element), html: helpers.elementHtml(element), reason })
+    }
+    return results
+  }, MAX_UNREACHABLE_RESULTS)
+}
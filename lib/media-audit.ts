@@ -0,0 +1,317 @@
+import type { Page } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import type { AccessibilityResult } from "./types"
+
+const MAX_MEDIA_ELEMENTS = 50
+// How long text track files get to load before they count as failed
+const TRACK_LOAD_TIMEOUT = 5000
+// WCAG 1.4.2 only covers sound that plays for more than three seconds
+const AUTOPLAY_SECONDS = 3
+const VALID_SRCLANG = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i
+
+type MediaType = 'video' | 'audio' | 'embed'
+
+interface MediaTrack {
+  path: string
+  html: string
+  kind: string
+  srclang: string | null
+  label: string | null
+  src: string | null
+  // HTMLTrackElement.readyState once loading was given a chance
+  loadState: 'none' | 'loading' | 'loaded' | 'error'
+}
+
+interface MediaElement {
+  type: MediaType
+  // youtube, vimeo, ... for embedded players
+  provider: string | null
+  path: string
+  html: string
+  src: string | null
+  tracks: MediaTrack[]
+  autoplay: boolean
+  playing: boolean
+  muted: boolean
+  loop: boolean
+  // Seconds, when the browser knows it
+  duration: number | null
+  controls: boolean
+  // Native or player controls, or a pause, stop or mute button next to the media
+  pauseControl: boolean
+  // A transcript link or disclosure next to the media, or referenced by aria-describedby
+  transcript: boolean
+}
+
+declare global {
+  interface Window {
+    __wcagMedia?: { elements: Element[] }
+  }
+}
+
+/**
+ * Checks the page's `<video>`, `<audio>` and embedded video players (YouTube, Vimeo and other
+ * common hosts) for captions, transcripts and audio description, checks their text tracks
+ * load and declare a language, and reports media that starts playing sound on its own with no
+ * way to pause or mute it (WCAG 1.4.2). Captions inside a third-party player can't be seen
+ * from the page, so embeds get a minor result asking for them to be confirmed by hand.
+ */
+export async function auditMedia(page: Page, url: string): Promise<AccessibilityResult[]> {
+  await installPageHelpers(page)
+
+  // Browsers only fetch a text track once it's showing or hidden; hidden loads it without
+  // drawing captions over the video
+  const trackCount = await page.evaluate((maxElements) => {
+    const embedPattern = /youtube(-nocookie)?\.com\/(embed|v)\/|youtu\.be\/|player\.vimeo\.com\/|wistia\.(com|net)|dailymotion\.com\/embed|brightcove|jwplayer|kaltura/i
+    const elements = Array.from(document.querySelectorAll('video, audio, iframe'))
+      .filter(element => element.tagName !== 'IFRAME' || embedPattern.test(element.getAttribute('src') || ''))
+      .slice(0, maxElements)
+    window.__wcagMedia = { elements }
+
+    let tracks = 0
+    for (const element of elements) {
+      for (const track of Array.from(element.querySelectorAll('track'))) {
+        if (track.track.mode === 'disabled') track.track.mode = 'hidden'
+        tracks++
+      }
+    }
+    return tracks
+  }, MAX_MEDIA_ELEMENTS)
+
+  if (trackCount > 0) {
+    await page.waitForFunction(() =>
+      window.__wcagMedia!.elements.every(element =>
+        Array.from(element.querySelectorAll('track')).every(track => track.readyState >= 2)
+      ),
+      undefined,
+      { timeout: TRACK_LOAD_TIMEOUT }
+    ).catch(() => {
+      // Tracks still loading are reported as such below
+    })
+  }
+
+  const media = await readMediaElements(page)
+  const findings: Omit<AccessibilityResult, 'url' | 'details' | 'createdAt'>[] = []
+  const findingDetails: Record<string, any>[] = []
+
+  // Findings are about the media element, or one of its tracks
+  const report = (
+    item: MediaElement,
+    target: { path: string, html: string },
+    finding: Omit<typeof findings[number], 'element' | 'elementPath'>,
+    details: Record<string, any> = {},
+  ) => {
+    findings.push({ ...finding, element: target.html, elementPath: target.path })
+    findingDetails.push({ mediaType: item.type, provider: item.provider, src: item.src, mediaPath: item.path, ...details })
+  }
+
+  for (const [index, item] of media.entries()) {
+    const label = item.type === 'embed' ? `Embedded ${providerName(item.provider)} video` : item.type === 'video' ? 'Video' : 'Audio'
+    // Muted media without controls has no sound the user can ever hear, e.g. background video
+    const silent = item.muted && !item.controls
+
+    const playsOnItsOwn = item.autoplay || item.playing
+    const longEnough = item.loop || item.duration === null || item.duration > AUTOPLAY_SECONDS
+    if (playsOnItsOwn && !item.muted && longEnough && !item.pauseControl) {
+      report(item, item, {
+        id: `media-autoplay-${index}`,
+        ruleId: 'no-autoplay-audio',
+        message: `${label} plays sound automatically with no control to pause, stop or mute it`,
+        help: 'Audio that plays automatically for more than 3 seconds needs a way to pause or stop it, or to control its volume separately from the system volume',
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag142'],
+      }, { autoplay: item.autoplay, playing: item.playing, duration: item.duration, loop: item.loop })
+    }
+
+    for (const [trackIndex, track] of item.tracks.entries()) {
+      if (!['captions', 'subtitles', 'descriptions', 'chapters'].includes(track.kind)) continue
+      const { path, html, ...trackDetails } = track
+
+      if (!track.srclang || !VALID_SRCLANG.test(track.srclang)) {
+        report(item, track, {
+          id: `media-track-srclang-${index}-${trackIndex}`,
+          ruleId: 'track-srclang',
+          message: track.srclang
+            ? `${label} has a ${track.kind} track with an invalid srclang "${track.srclang}"`
+            : `${label} has a ${track.kind} track without a srclang`,
+          help: 'Give every text track a srclang with a valid language code (e.g. "en" or "pt-BR") so players can list and pick it by language',
+          impact: 'moderate',
+          severity: 'moderate',
+          tags: ['best-practice'],
+        }, { track: trackDetails })
+      }
+
+      if (track.loadState === 'error' || !track.src) {
+        report(item, track, {
+          id: `media-track-load-${index}-${trackIndex}`,
+          ruleId: 'video-caption',
+          message: track.src
+            ? `${label} has a ${track.kind} track that failed to load: ${track.src}`
+            : `${label} has a ${track.kind} track without a src`,
+          help: 'Text tracks must point to a WebVTT file the browser can load',
+          impact: 'serious',
+          severity: 'serious',
+          tags: ['wcag2a', 'wcag122'],
+        }, { track: trackDetails })
+      }
+    }
+
+    if (silent) continue
+
+    if (item.type === 'video') {
+      const captioned = item.tracks.some(track => track.kind === 'captions' || track.kind === 'subtitles')
+      if (!captioned) {
+        report(item, item, {
+          id: `media-captions-${index}`,
+          ruleId: 'video-caption',
+          message: 'Video has no captions track',
+          help: 'Videos with audio must have synchronized captions, e.g. a <track kind="captions"> with a WebVTT file',
+          impact: 'critical',
+          severity: 'critical',
+          tags: ['wcag2a', 'wcag122'],
+        }, { tracks: item.tracks })
+      }
+    } else if (item.type === 'embed') {
+      report(item, item, {
+        id: `media-embed-captions-${index}`,
+        ruleId: 'video-caption',
+        message: `${label}: captions in the player can't be checked from the page; confirm the video has accurate captions`,
+        help: 'Videos with audio must have synchronized captions; check the video in the hosting service and avoid relying on automatic captions alone',
+        impact: 'minor',
+        severity: 'minor',
+        tags: ['wcag2a', 'wcag122'],
+      }, { needsReview: true })
+    }
+
+    if (item.type === 'audio' && !item.transcript) {
+      report(item, item, {
+        id: `media-audio-transcript-${index}`,
+        ruleId: 'audio-transcript',
+        message: 'Audio has no transcript',
+        help: 'Provide a text transcript of audio-only content, linked next to the player',
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag121'],
+      })
+    }
+
+    const described = item.tracks.some(track => track.kind === 'descriptions')
+    if (item.type !== 'audio' && !item.transcript && !described) {
+      report(item, item, {
+        id: `media-transcript-${index}`,
+        ruleId: 'video-description',
+        message: `${label} has no transcript or audio description`,
+        help: 'Provide a transcript that describes both the speech and the important visual content, or an audio-described version, linked next to the video',
+        impact: 'moderate',
+        severity: 'moderate',
+        tags: ['wcag2a', 'wcag123'],
+      })
+    }
+  }
+
+  const createdAt = new Date().toISOString()
+  return findings.map((finding, index) => ({
+    ...finding,
+    url,
+    details: findingDetails[index],
+    createdAt,
+  }))
+}
+
+async function readMediaElements(page: Page): Promise<MediaElement[]> {
+  return page.evaluate(() => {
+    const helpers = window.__wcagHelpers!
+    const pauseLabel = /pause|stop|mute|sound|volume/i
+    const transcriptLabel = /transcript/i
+    const loadStates = ['none', 'loading', 'loaded', 'error'] as const
+
+    const labelOf = (element: Element) =>
+      [element.textContent, element.getAttribute('aria-label'), element.getAttribute('title'), element.getAttribute('href'), (element as HTMLInputElement).value]
+        .filter(Boolean)
+        .join(' ')
+
+    // Controls and links that sit with the media: in its figure, or up to three levels out
+    const nearby = (element: Element, selector: string, pattern: RegExp) => {
+      let container: Element | null = element.parentElement
+      for (let level = 0; container && container !== document.body && level < 3; level++) {
+        if (Array.from(container.querySelectorAll(selector)).some(candidate => pattern.test(labelOf(candidate)))) return true
+        if (container.tagName === 'FIGURE') break
+        container = container.parentElement
+      }
+      return false
+    }
+
+    const describedByTranscript = (element: Element) =>
+      (element.getAttribute('aria-describedby') || '').split(/\s+/).filter(Boolean).some(id => {
+        const description = document.getElementById(id)
+        return Boolean(description && transcriptLabel.test(description.textContent || ''))
+      })
+
+    return window.__wcagMedia!.elements.map(element => {
+      const transcript = nearby(element, 'a, button, summary, [role="button"]', transcriptLabel) || describedByTranscript(element)
+
+      if (element.tagName === 'IFRAME') {
+        const src = element.getAttribute('src') || ''
+        let params = new URLSearchParams()
+        try {
+          params = new URL(src, location.href).searchParams
+        } catch {
+          // Keep the defaults
+        }
+        const flag = (name: string) => params.get(name) === '1' || params.get(name) === 'true'
+        const provider = /youtu/i.test(src) ? 'youtube' : /vimeo/i.test(src) ? 'vimeo' : (src.match(/wistia|dailymotion|brightcove|jwplayer|kaltura/i)?.[0].toLowerCase() || null)
+        // Vimeo's background mode is muted, looping and without controls
+        const controls = params.get('controls') !== '0' && !flag('background')
+        return {
+          type: 'embed' as const,
+          provider,
+          path: helpers.elementPath(element),
+          html: helpers.elementHtml(element),
+          src,
+          tracks: [],
+          autoplay: flag('autoplay'),
+          playing: false,
+          muted: flag('mute') || flag('muted') || flag('background'),
+          loop: flag('loop'),
+          duration: null,
+          controls,
+          pauseControl: controls || nearby(element, 'button, [role="button"], input[type="button"]', pauseLabel),
+          transcript,
+        }
+      }
+
+      const media = element as HTMLMediaElement
+      return {
+        type: media.tagName === 'VIDEO' ? 'video' as const : 'audio' as const,
+        provider: null,
+        path: helpers.elementPath(media),
+        html: helpers.elementHtml(media),
+        src: media.currentSrc || media.getAttribute('src'),
+        tracks: Array.from(media.querySelectorAll('track')).map(track => ({
+          path: helpers.elementPath(track),
+          html: helpers.elementHtml(track),
+          kind: track.kind,
+          srclang: track.getAttribute('srclang'),
+          label: track.getAttribute('label'),
+          src: track.getAttribute('src'),
+          loadState: loadStates[track.readyState] || 'none',
+        })),
+        autoplay: media.autoplay,
+        playing: !media.paused && !media.ended,
+        muted: media.muted || media.volume === 0,
+        loop: media.loop,
+        duration: Number.isFinite(media.duration) ? media.duration : null,
+        controls: media.controls,
+        pauseControl: media.controls || nearby(media, 'button, [role="button"], input[type="button"]', pauseLabel),
+        transcript,
+      }
+    })
+  })
+}
+
+function providerName(provider: string | null): string {
+  if (provider === 'youtube') return 'YouTube'
+  if (provider === 'vimeo') return 'Vimeo'
+  return provider ? provider.charAt(0).toUpperCase() + provider.slice(1) : 'third-party'
+}
@@ -0,0 +1,174 @@
+import type { Page } from "playwright-core"
+import { FRAME_SEPARATOR, SHADOW_SEPARATOR } from "./element-selector"
+
+/**
+ * DOM helpers shared by the browser audits. They're installed on `window` once per page so
+ * each audit's `page.evaluate` callback can use them instead of carrying its own copy.
+ */
+export interface PageHelpers {
+  // Composite selector path to the element (see element-selector), stopping at the closest
+  // ancestor with an id within each document and shadow root
+  elementPath(element: Element): string
+  // Resolves a composite selector from the top document, or null when nothing matches
+  resolvePath(path: string): Element | null
+  // Matching elements in document order, including inside open shadow roots and same-origin iframes
+  deepQuerySelectorAll(selector: string): Element[]
+  // outerHTML, or just the opening tag when the element is too large to report whole
+  elementHtml(element: Element): string
+  // Rendered, with a non-empty box, and not hidden with visibility or opacity
+  isVisible(element: Element): boolean
+  // The focused element, following focus into open shadow roots
+  deepActiveElement(): Element | null
+  // Any CSS color as sRGB channels (0-255) and alpha (0-1), or null if the browser can't parse it
+  colorToRgba(color: string): [number, number, number, number] | null
+}
+
+declare global {
+  interface Window {
+    __wcagHelpers?: PageHelpers
+  }
+}
+
+const MAX_ELEMENT_HTML_LENGTH = 1000
+
+export async function installPageHelpers(page: Page) {
+  await page.evaluate(({ maxHtmlLength, frameSeparator, shadowSeparator }) => {
+    if (window.__wcagHelpers) return
+
+    // Selector path within the element's own document or shadow root
+    const scopedPath = (element: Element): string => {
+      const path: string[] = []
+      let current: Element | null = element
+
+      while (current && current.nodeType === Node.ELEMENT_NODE) {
+        let selector = current.tagName.toLowerCase()
+
+        if (current.id) {
+          selector += `#${CSS.escape(current.id)}`
+          path.unshift(selector)
+          break
+        }
+
+        if (current.className && typeof current.className === 'string') {
+          const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
+          if (classes.length > 0) {
+            selector += '.' + classes.map(cls => CSS.escape(cls)).join('.')
+          }
+        }
+
+        if (current.parentElement) {
+          const siblings = Array.from(current.parentElement.children).filter(
+            sibling => sibling.tagName === current!.tagName
+          )
+          if (siblings.length > 1) {
+            selector += `:nth-child(${Array.from(current.parentElement.children).indexOf(current) + 1})`
+          }
+        }
+
+        path.unshift(selector)
+        current = current.parentElement
+      }
+
+      return path.join(' > ')
+    }
+
+    const elementPath = (element: Element): string => {
+      let path = scopedPath(element)
+      let root = element.getRootNode()
+      while (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && (root as ShadowRoot).host) {
+        const host = (root as ShadowRoot).host
+        path = scopedPath(host) + shadowSeparator + path
+        root = host.getRootNode()
+      }
+      // Null for the top document and for frames whose parent is on another origin
+      const frame = (root as Document).defaultView?.frameElement
+      return frame ? elementPath(frame) + frameSeparator + path : path
+    }
+
+    const resolvePath = (path: string): Element | null => {
+      let root: Document | ShadowRoot = document
+      let element: Element | null = null
+      const frames = path.split(frameSeparator)
+      for (const [frameIndex, framePath] of frames.entries()) {
+        for (const [hostIndex, segment] of framePath.split(shadowSeparator).entries()) {
+          if (hostIndex > 0) {
+            if (!element?.shadowRoot) return null
+            root = element.shadowRoot
+          }
+          try {
+            element = root.querySelector(segment)
+          } catch {
+            return null
+          }
+          if (!element) return null
+        }
+        if (frameIndex < frames.length - 1) {
+          const frameDocument: Document | null = (element as HTMLIFrameElement).contentDocument
+          if (!frameDocument) return null
+          root = frameDocument
+        }
+      }
+      return element
+    }
+
+    const deepQuerySelectorAll = (selector: string): Element[] => {
+      const found: Element[] = []
+      const walk = (root: Document | ShadowRoot) => {
+        for (const element of Array.from(root.querySelectorAll('*'))) {
+          if (element.matches(selector)) found.push(element)
+          if (element.shadowRoot) walk(element.shadowRoot)
+          if (element.tagName === 'IFRAME' || element.tagName === 'FRAME') {
+            let frameDocument: Document | null = null
+            try {
+              frameDocument = (element as HTMLIFrameElement).contentDocument
+            } catch {
+              // Cross-origin
+            }
+            if (frameDocument) walk(frameDocument)
+          }
+        }
+      }
+      walk(document)
+      return found
+    }
+
+    const elementHtml = (element: Element): string => {
+      const html = element.outerHTML
+      if (html.length <= maxHtmlLength) return html
+      const openingTag = html.match(/^<[^>]*>/)
+      return openingTag ? openingTag[0] : html.slice(0, maxHtmlLength)
+    }
+
+    const isVisible = (element: Element): boolean => {
+      const rect = element.getBoundingClientRect()
+      if (rect.width <= 1 || rect.height <= 1) return false
+      return element.checkVisibility({ opacityProperty: true, visibilityProperty: true })
+    }
+
+    const deepActiveElement = (): Element | null => {
+      let active: Element | null = document.activeElement
+      while (active?.shadowRoot?.activeElement) {
+        active = active.shadowRoot.activeElement
+      }
+      return active
+    }
+
+    // The canvas serializes whatever color syntax it was given as #rrggbb or rgba()
+    const colorContext = document.createElement('canvas').getContext('2d')!
+    const colorToRgba = (color: string): [number, number, number, number] | null => {
+      colorContext.fillStyle = '#010203'
+      colorContext.fillStyle = color
+      const serialized = String(colorContext.fillStyle)
+      if (serialized === '#010203' && color.replace(/\s/g, '') !== 'rgb(1,2,3)') return null
+
+      const hex = serialized.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i)
+      if (hex) return [parseInt(hex[1], 16), parseInt(hex[2], 16), parseInt(hex[3], 16), 1]
+      const rgba = serialized.match(/^rgba?\(([^)]*)\)$/)
+      if (!rgba) return null
+      const [r, g, b, a = 1] = rgba[1].split(',').map(Number)
+      return [r, g, b, a]
+    }
+
+    window.__wcagHelpers = { elementPath, resolvePath, deepQuerySelectorAll, elementHtml, isVisible, deepActiveElement, colorToRgba }
+  }, { maxHtmlLength: MAX_ELEMENT_HTML_LENGTH, frameSeparator: FRAME_SEPARATOR, shadowSeparator: SHADOW_SEPARATOR })
+}
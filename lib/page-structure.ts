@@ -0,0 +1,284 @@
+import type { Page } from "playwright-core"
+import type { LandmarkRole, OutlineHeading, OutlineLandmark, PageStructureReport, SkipLinkCheck, StructureProblem } from "./types"
+
+// Landmarks a page should have at most one of, outside any other landmark
+const UNIQUE_LANDMARKS: LandmarkRole[] = ['banner', 'main', 'contentinfo']
+const MAX_SKIP_LINK_POSITION = 3
+
+// What collectPageStructure reads off the DOM; the report is worked out from it in Node
+export interface CollectedStructure {
+  headings: { level: number, text: string, elementPath: string }[]
+  landmarks: { role: LandmarkRole, name: string | null, elementPath: string, depth: number }[]
+  skipLink: SkipLinkCheck | null
+  // Focusable elements that come before the main landmark in the tab order
+  focusableBeforeMain: number
+}
+
+/**
+ * Reads the page's headings, landmarks and skip link. It runs both in the browser (passed to
+ * `page.evaluate`, so it can't use anything from outside its own body) and on a jsdom
+ * document, so it sticks to DOM APIs jsdom has: no layout, `CSS.escape` or global `Node`.
+ */
+export function collectPageStructure(root?: Document): CollectedStructure {
+  const doc = root || document
+  const view = doc.defaultView
+  const maxTextLength = 200
+  const sectioningSelector = 'article, aside, main, nav, section, [role="article"], [role="complementary"], [role="main"], [role="navigation"], [role="region"]'
+  const focusableSelector = 'a[href], area[href], button, input:not([type="hidden"]), select, textarea, summary, iframe, [tabindex], [contenteditable=""], [contenteditable="true"]'
+  const landmarkRoles = ['banner', 'navigation', 'main', 'contentinfo', 'complementary', 'search', 'form', 'region']
+
+  const escape = (value: string) => value.replace(/([^\w-])/g, '\\$1').replace(/^(\d)/, '\\3$1 ')
+
+  // Same selectors as the browser audits' elementPath, so results and outline entries match
+  const elementPath = (element: Element): string => {
+    const path: string[] = []
+    let current: Element | null = element
+    while (current && current.nodeType === 1) {
+      let selector = current.tagName.toLowerCase()
+      if (current.id) {
+        path.unshift(`${selector}#${escape(current.id)}`)
+        break
+      }
+      const classes = typeof current.className === 'string' ? current.className.split(/\s+/).filter(Boolean) : []
+      if (classes.length > 0) selector += '.' + classes.map(escape).join('.')
+      const parent: Element | null = current.parentElement
+      if (parent) {
+        const tagName = current.tagName
+        const siblings = Array.from(parent.children)
+        if (siblings.filter(sibling => sibling.tagName === tagName).length > 1) {
+          selector += `:nth-child(${siblings.indexOf(current) + 1})`
+        }
+      }
+      path.unshift(selector)
+      current = parent
+    }
+    return path.join(' > ')
+  }
+
+  // Not rendered at all; visually hidden elements (clipped, off-screen) still count
+  const isRendered = (element: Element): boolean => {
+    if (typeof element.checkVisibility === 'function') return element.checkVisibility({ visibilityProperty: true })
+    for (let current: Element | null = element; current; current = current.parentElement) {
+      if (current.hasAttribute('hidden') || (view && view.getComputedStyle(current).display === 'none')) return false
+    }
+    return !(view && view.getComputedStyle(element).visibility === 'hidden')
+  }
+
+  const isHidden = (element: Element): boolean => !isRendered(element) || Boolean(element.closest('[aria-hidden="true"]'))
+
+  const clean = (text: string) => {
+    const collapsed = text.replace(/\s+/g, ' ').trim()
+    return collapsed.length > maxTextLength ? `${collapsed.slice(0, maxTextLength)}…` : collapsed
+  }
+
+  // Text content with image alternatives, leaving out what's hidden from assistive technology
+  const textOf = (node: Node): string => {
+    if (node.nodeType === 3) return node.textContent || ''
+    if (node.nodeType !== 1) return ''
+    const element = node as Element
+    if (element.getAttribute('aria-hidden') === 'true' || element.hasAttribute('hidden')) return ''
+    if (element.tagName === 'IMG') return ` ${element.getAttribute('alt') || ''} `
+    return Array.from(element.childNodes).map(textOf).join('')
+  }
+
+  const accessibleName = (element: Element): string | null => {
+    const labelledBy = (element.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+    const labels = labelledBy.map(id => doc.getElementById(id)).filter((label): label is HTMLElement => label !== null)
+    if (labels.length > 0) return clean(labels.map(label => label.textContent || '').join(' ')) || null
+    return clean(element.getAttribute('aria-label') || '') || null
+  }
+
+  const explicitRole = (element: Element) => (element.getAttribute('role') || '').trim().split(/\s+/)[0].toLowerCase()
+
+  // HTML-AAM mappings: header and footer are only page-wide inside no sectioning element,
+  // sections and forms only count once they're named
+  const landmarkRole = (element: Element): string | null => {
+    const role = explicitRole(element)
+    if (role) return landmarkRoles.includes(role) ? role : null
+    switch (element.tagName) {
+      case 'HEADER': return element.parentElement?.closest(sectioningSelector) ? null : 'banner'
+      case 'FOOTER': return element.parentElement?.closest(sectioningSelector) ? null : 'contentinfo'
+      case 'NAV': return 'navigation'
+      case 'MAIN': return 'main'
+      case 'ASIDE': return 'complementary'
+      case 'SEARCH': return 'search'
+      case 'SECTION': return accessibleName(element) ? 'region' : null
+      case 'FORM': return accessibleName(element) ? 'form' : null
+      default: return null
+    }
+  }
+
+  const headings: CollectedStructure['headings'] = []
+  for (const element of Array.from(doc.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"]'))) {
+    const role = explicitRole(element)
+    if (role && role !== 'heading') continue
+    if (isHidden(element)) continue
+    const ariaLevel = Number.parseInt(element.getAttribute('aria-level') || '', 10)
+    const tagLevel = /^H[1-6]$/.test(element.tagName) ? Number(element.tagName[1]) : 2
+    headings.push({
+      level: ariaLevel >= 1 ? ariaLevel : tagLevel,
+      text: clean(element.getAttribute('aria-label') || textOf(element)),
+      elementPath: elementPath(element),
+    })
+  }
+
+  const landmarkElements: Element[] = []
+  const landmarks: CollectedStructure['landmarks'] = []
+  for (const element of Array.from(doc.body ? doc.body.querySelectorAll('*') : [])) {
+    const role = landmarkRole(element)
+    if (!role || isHidden(element)) continue
+    landmarkElements.push(element)
+    landmarks.push({
+      role: role as LandmarkRole,
+      name: accessibleName(element),
+      elementPath: elementPath(element),
+      depth: landmarkElements.filter(other => other !== element && other.contains(element)).length,
+    })
+  }
+  const main = landmarkElements.find((element, index) => landmarks[index].role === 'main') || null
+
+  const focusable = Array.from(doc.querySelectorAll(focusableSelector)).filter(element => {
+    if (element.hasAttribute('disabled')) return false
+    const tabIndex = Number.parseInt(element.getAttribute('tabindex') || '0', 10)
+    return !(tabIndex < 0) && isRendered(element)
+  })
+
+  const focusableBeforeMain = main
+    ? focusable.filter(element => (main.compareDocumentPosition(element) & main.DOCUMENT_POSITION_PRECEDING) !== 0 && !element.contains(main)).length
+    : 0
+
+  // A skip link is an in-page link near the start of the tab order, or one labelled as one
+  // wherever it is (it may be hidden, which is worth reporting)
+  const inPageLinks = Array.from(doc.querySelectorAll('a[href^="#"]')).filter(link => (link.getAttribute('href') || '').length > 1)
+  const skipLinkElement =
+    inPageLinks.find(link => {
+      const position = focusable.indexOf(link)
+      return position >= 0 && position < 3
+    }) ||
+    inPageLinks.find(link => /skip|jump to|main content/i.test(textOf(link) || link.getAttribute('aria-label') || ''))
+
+  let skipLink: SkipLinkCheck | null = null
+  if (skipLinkElement) {
+    const href = skipLinkElement.getAttribute('href') || ''
+    let fragment = href.slice(1)
+    try {
+      fragment = decodeURIComponent(fragment)
+    } catch {
+      // Not percent-encoded; use it as written
+    }
+    const target = doc.getElementById(fragment) || doc.querySelector(`a[name="${escape(fragment)}"]`)
+    const position = focusable.indexOf(skipLinkElement)
+    skipLink = {
+      text: clean(skipLinkElement.getAttribute('aria-label') || textOf(skipLinkElement)),
+      href,
+      elementPath: elementPath(skipLinkElement),
+      tabIndex: position >= 0 ? position + 1 : null,
+      targetPath: target ? elementPath(target) : null,
+      targetHidden: target ? isHidden(target) : false,
+      targetInMain: Boolean(target && main && (main.contains(target) || target.contains(main))),
+    }
+  }
+
+  return { headings, landmarks, skipLink, focusableBeforeMain }
+}
+
+/**
+ * The structure report for a rendered page.
+ */
+export async function capturePageStructure(page: Page): Promise<PageStructureReport> {
+  return buildStructureReport(await page.evaluate(collectPageStructure, undefined), 'browser')
+}
+
+/**
+ * Works out heading skips, duplicate and missing landmarks and skip link problems from what
+ * was read off the page.
+ */
+export function buildStructureReport(collected: CollectedStructure, source: PageStructureReport['source']): PageStructureReport {
+  const problems: StructureProblem[] = []
+
+  let previousLevel = 0
+  const headings: OutlineHeading[] = collected.headings.map(heading => {
+    const outlined: OutlineHeading = { ...heading }
+    if (heading.level > previousLevel + 1) {
+      outlined.skipsFrom = previousLevel
+      problems.push({
+        type: 'skipped-heading-level',
+        message: previousLevel
+          ? `"${heading.text}" is an h${heading.level} following an h${previousLevel}`
+          : `The first heading, "${heading.text}", is an h${heading.level}`,
+        elementPath: heading.elementPath,
+      })
+    }
+    previousLevel = heading.level
+    return outlined
+  })
+
+  if (headings.length === 0) {
+    problems.push({ type: 'no-headings', message: 'The page has no headings' })
+  } else if (!headings.some(heading => heading.level === 1)) {
+    problems.push({ type: 'missing-h1', message: 'The page has no h1' })
+  }
+
+  const landmarks = outlineLandmarks(collected.landmarks, problems)
+
+  if (!landmarks.some(landmark => landmark.role === 'main')) {
+    problems.push({ type: 'missing-main', message: 'The page has no main landmark' })
+  }
+
+  const skipLink: SkipLinkCheck | null = collected.skipLink
+  if (skipLink) {
+    const linkProblems = [
+      skipLink.tabIndex === null && 'is hidden, so keyboard users can never reach it',
+      skipLink.tabIndex !== null && skipLink.tabIndex > MAX_SKIP_LINK_POSITION && `is number ${skipLink.tabIndex} in the tab order rather than one of the first`,
+      !skipLink.targetPath && `points to ${skipLink.href}, which isn't on the page`,
+      skipLink.targetPath && skipLink.targetHidden && `points to ${skipLink.href}, which is hidden`,
+      skipLink.targetPath && !skipLink.targetHidden && !skipLink.targetInMain && collected.landmarks.some(landmark => landmark.role === 'main') &&
+        `points to ${skipLink.href}, which is outside the main landmark`,
+    ].filter((problem): problem is string => Boolean(problem))
+    for (const problem of linkProblems) {
+      problems.push({ type: 'broken-skip-link', message: `The skip link "${skipLink.text}" ${problem}`, elementPath: skipLink.elementPath })
+    }
+  } else if (collected.focusableBeforeMain > 0) {
+    problems.push({
+      type: 'missing-skip-link',
+      message: collected.focusableBeforeMain === 1
+        ? '1 focusable element comes before the main content, with no skip link to bypass it'
+        : `${collected.focusableBeforeMain} focusable elements come before the main content, with no skip link to bypass them`,
+    })
+  }
+
+  return { headings, landmarks, skipLink, problems, source, capturedAt: new Date().toISOString() }
+}
+
+/**
+ * Flags landmarks a screen reader user can't tell apart: a second top-level banner, main or
+ * contentinfo, and any landmarks sharing a role and name (including having none).
+ */
+function outlineLandmarks(collected: CollectedStructure['landmarks'], problems: StructureProblem[]): OutlineLandmark[] {
+  const groups = new Map<string, number[]>()
+  collected.forEach((landmark, index) => {
+    const key = UNIQUE_LANDMARKS.includes(landmark.role)
+      ? landmark.depth === 0 ? landmark.role : `${landmark.role}|nested|${index}`
+      : `${landmark.role}|${(landmark.name || '').toLowerCase()}`
+    groups.set(key, [...(groups.get(key) || []), index])
+  })
+
+  const duplicates = new Set<number>()
+  for (const indexes of groups.values()) {
+    if (indexes.length < 2) continue
+    indexes.forEach(index => duplicates.add(index))
+
+    const { role, name, elementPath } = collected[indexes[0]]
+    problems.push({
+      type: 'duplicate-landmark',
+      message: UNIQUE_LANDMARKS.includes(role)
+        ? `The page has ${indexes.length} ${role} landmarks`
+        : name
+          ? `${indexes.length} ${role} landmarks share the name "${name}"`
+          : `${indexes.length} ${role} landmarks have no name to tell them apart`,
+      elementPath,
+    })
+  }
+
+  return collected.map((landmark, index) => ({ ...landmark, duplicate: duplicates.has(index) }))
+}
@@ -1,41 +1,30 @@
-import { chromium, Browser, Page } from "playwright-core"
-import type { ComplianceOptions, AccessibilityResult } from "./types"
+import { Page } from "playwright-core"
+import type { ComplianceOptions, AccessibilityResult, AccessibilityTreeSnapshot, PageStructureReport, FlowStep, ScanFlowDefinition, ViewportProfile, WcagVersion } from "./types"
+import { acquireBrowserContext, PooledContext } from "./browser-pool"
+import { AXE_CONTEXT_OPTIONS, AXE_VERSION, runAxe } from "./axe-runner"
+import { DEFAULT_WCAG_VERSION, WCAG_VERSIONS, ruleIdForAxeRule, withRuleMetadata } from "./rule-catalog"
+import { applyAuthHeaders, authContextOptions, resolveSecret, type AuthSession } from "./auth-session"
+import { viewportContextOptions } from "./viewports"
+import { auditKeyboardNavigation } from "./keyboard-audit"
+import { auditColorContrast } from "./contrast-audit"
+import { captureAccessibilityTree, linkResultsToTree, type CapturedAccessibilityTree } from "./accessibility-tree"
+import { capturePageStructure } from "./page-structure"
+import { auditMedia } from "./media-audit"
+import { auditForms } from "./form-audit"
+import { auditWcag22 } from "./wcag22-audit"
+import { auditReflow } from "./reflow-audit"
+import { monitorDynamicContent } from "./dynamic-content-audit"
+import { exploreInteractiveContent, type RevealedContent } from "./interactive-exploration"
+import { installPageHelpers } from "./page-helpers"
+import { fromAxeTarget, locateElement } from "./element-selector"
 import * as fs from 'fs/promises'
 import * as path from 'path'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-// Declare the axe property on the Window interface
-declare global {
-  interface Window {
-    axe: any;
-  }
-}
-
-const execAsync = promisify(exec)
-
-// Function to ensure browsers are installed
-async function ensureBrowsersInstalled() {
-  try {
-    // Check if browser is already installed
-    await chromium.launch({ headless: true })
-    return true
-  } catch (error) {
-    console.log('Chromium not found, attempting to install browsers...')
-    try {
-      // Install browsers
-      await execAsync('npx playwright-core install chromium')
-      return true
-    } catch (installError) {
-      console.error('Failed to install browsers:', installError)
-      return false
-    }
-  }
-}
 
 export async function analyzeAccessibility(
   url: string,
   complianceOptions: ComplianceOptions,
+  auth?: AuthSession | null,
+  viewport?: ViewportProfile,
 ): Promise<{
   results: AccessibilityResult[]
   summary: {
@@ -47,26 +36,24 @@ export async function analyzeAccessibility(
     urlsAnalyzed: number
   }
   screenshots?: string[]
+  axeVersion: string
+  accessibilityTree: AccessibilityTreeSnapshot | null
+  pageStructure: PageStructureReport | null
 }> {
-  let browser: Browser | null = null
+  let pooledContext: PooledContext | null = null
   let page: Page | null = null
   const screenshots: string[] = []
 
   try {
-    // Ensure browsers are installed
-    const browsersInstalled = await ensureBrowsersInstalled()
-    if (!browsersInstalled) {
-      throw new Error('Playwright browsers are not installed. Please run: npx playwright install')
-    }
-
-    // Launch browser with more options for stability
-    browser = await chromium.launch({ 
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+    // Borrow an isolated context from the shared browser pool, sized and emulated for the
+    // viewport profile and logged in when the project needs it
+    pooledContext = await acquireBrowserContext({
+      ...AXE_CONTEXT_OPTIONS,
+      ...viewportContextOptions(viewport),
+      ...authContextOptions(auth)
     })
-    
-    const context = await browser.newContext()
-    page = await context.newPage()
+    await applyAuthHeaders(pooledContext.context, auth)
+    page = await pooledContext.context.newPage()
 
     // Set a reasonable timeout
     page.setDefaultTimeout(60000)
@@ -79,61 +66,92 @@ export async function analyzeAccessibility(
       // Try to continue even if navigation had issues
     }
 
-    // Inject axe-core
-    try {
-      await page.addScriptTag({
-        url: "https://cdnjs.cloudflare.com/ajax/libs/axe-core/4.8.2/axe.min.js",
-      })
-    } catch (scriptError) {
-      throw new Error(`Failed to inject axe-core script: ${scriptError}`)
-    }
-
     // Configure axe based on compliance options
     const axeTags = getAxeTags(complianceOptions)
 
-    // Run axe analysis
-    const axeResults = await page.evaluate(
-      ({ tags }) => {
-        return new Promise((resolve) => {
-          // @ts-ignore - axe is injected via script tag
-          if (typeof window.axe === 'undefined') {
-            resolve({ violations: [] })
-            return
-          }
-          
-          window.axe.run(
-            document,
-            {
-              runOnly: {
-                type: "tag",
-                values: tags,
-              },
-            },
-            (err: any, results: any) => {
-              if (err) {
-                console.error('Axe evaluation error:', err)
-                resolve({ violations: [] })
-                return
-              }
-              resolve(results)
-            },
-          )
-        })
-      },
-      { tags: axeTags },
-    )
+    // Run axe analysis with the bundled axe-core
+    const axeResults = await runAxe(page, axeTags)
 
     // Process results
     const processedResults = processAxeResults(axeResults, url)
+
+    // Snapshot the tree before the audits below move focus, hover and scroll the page
+    let accessibilityTree: CapturedAccessibilityTree | null = null
+    try {
+      accessibilityTree = await captureAccessibilityTree(page)
+    } catch (error) {
+      console.warn(`Accessibility tree capture failed for ${url}:`, error instanceof Error ? error.message : String(error))
+    }
+
+    const pageStructure = await capturePageStructure(page).catch(error => {
+      console.warn(`Page structure capture failed for ${url}:`, error instanceof Error ? error.message : String(error))
+      return null
+    })
     
+    // Watch for live updates, moving content and timed redirects before anything interacts with the page
+    const dynamicResults = complianceOptions.dynamicContentSeconds
+      ? await monitorDynamicContent(page, url, complianceOptions.dynamicContentSeconds).catch(error => {
+          console.warn(`Dynamic content monitoring failed for ${url}:`, error instanceof Error ? error.message : String(error))
+          return [] as AccessibilityResult[]
+        })
+      : []
+
     // Perform additional DOM-based analysis
     const domResults = await performDOMAnalysis(page, url)
     
-    // Perform color contrast analysis
-    const contrastResults = await performContrastAnalysis(page, url)
+    // Measure text contrast at the project's WCAG level
+    const contrastResults = await auditColorContrast(page, url, complianceOptions.wcagLevel).catch(error => {
+      console.warn(`Contrast audit failed for ${url}:`, error instanceof Error ? error.message : String(error))
+      return [] as AccessibilityResult[]
+    })
     
+    // Horizontal scrolling at 320px, on the reflow profile only
+    const reflowResults = viewport === 'reflow'
+      ? await auditReflow(page, url).catch(error => {
+          console.warn(`Reflow audit failed for ${url}:`, error instanceof Error ? error.message : String(error))
+          return [] as AccessibilityResult[]
+        })
+      : []
+
+    // Check video, audio and embedded players for captions, transcripts and autoplay
+    const mediaResults = await auditMedia(page, url).catch(error => {
+      console.warn(`Media audit failed for ${url}:`, error instanceof Error ? error.message : String(error))
+      return [] as AccessibilityResult[]
+    })
+
+    // Check form grouping, autocomplete and required fields, and submit forms empty in a sandbox
+    const formResults = await auditForms(page, url, complianceOptions.wcagLevel).catch(error => {
+      console.warn(`Form audit failed for ${url}:`, error instanceof Error ? error.message : String(error))
+      return [] as AccessibilityResult[]
+    })
+
     // Perform sensory characteristics analysis
     const sensoryResults = await performSensoryAnalysis(page, url)
+
+    // WCAG 2.2 criteria axe doesn't check. Focuses each element, then scrolls back to the top.
+    const wcag22Results = (complianceOptions.wcagVersion || DEFAULT_WCAG_VERSION) === '2.2'
+      ? await auditWcag22(page, url, complianceOptions.wcagLevel).catch(error => {
+          console.warn(`WCAG 2.2 audit failed for ${url}:`, error instanceof Error ? error.message : String(error))
+          return [] as AccessibilityResult[]
+        })
+      : []
+
+    // Tab through the page last: it moves focus and scrolls, which the checks above don't expect
+    const keyboardResults = await auditKeyboardNavigation(page, url).catch(error => {
+      console.warn(`Keyboard audit failed for ${url}:`, error instanceof Error ? error.message : String(error))
+      return [] as AccessibilityResult[]
+    })
+
+    // Open menus, accordions, tabs and dialogs one at a time and run axe on what each reveals.
+    // This leaves the page in whatever state the last trigger left it, so it goes after everything else.
+    const explorationResults = complianceOptions.interactiveExploration
+      ? await exploreInteractiveContent(page, url, axeTags)
+          .then(exploration => [...revealedResults(exploration.revealed, url, processedResults), ...exploration.results])
+          .catch(error => {
+            console.warn(`Interactive exploration failed for ${url}:`, error instanceof Error ? error.message : String(error))
+            return [] as AccessibilityResult[]
+          })
+      : []
     
     // Capture screenshots of issues if enabled
     if (complianceOptions.captureScreenshots) {
@@ -147,10 +165,10 @@ export async function analyzeAccessibility(
         screenshots.push(fullPageScreenshot)
         
         // Take screenshots of elements with issues
-        for (const result of [...processedResults, ...domResults, ...contrastResults, ...sensoryResults]) {
+        for (const result of [...processedResults, ...domResults, ...contrastResults, ...reflowResults, ...mediaResults, ...formResults, ...dynamicResults, ...sensoryResults, ...wcag22Results, ...keyboardResults, ...explorationResults]) {
           try {
-            if (result.element) {
-              const elementHandle = await page.$(result.element);
+            if (result.elementPath) {
+              const elementHandle = await locateElement(page, result.elementPath).elementHandle({ timeout: 1000 }).catch(() => null);
               if (elementHandle) {
                 const elementScreenshot = path.join(screenshotDir, `issue-${result.id}-${Date.now()}.png`);
                 await elementHandle.screenshot({ path: elementScreenshot });
@@ -170,7 +188,13 @@ export async function analyzeAccessibility(
     }
     
     // Combine all results
-    const allResults = [...processedResults, ...domResults, ...contrastResults, ...sensoryResults];
+    const allResults = [...processedResults, ...domResults, ...contrastResults, ...reflowResults, ...mediaResults, ...formResults, ...dynamicResults, ...sensoryResults, ...wcag22Results, ...keyboardResults, ...explorationResults].map(withRuleMetadata);
+
+    if (accessibilityTree) {
+      await linkResultsToTree(page, accessibilityTree, allResults).catch(error => {
+        console.warn(`Linking results to the accessibility tree failed for ${url}:`, error instanceof Error ? error.message : String(error))
+      })
+    }
 
     // Generate summary
     const summary = {
@@ -186,22 +210,129 @@ export async function analyzeAccessibility(
       results: allResults,
       summary,
       screenshots: complianceOptions.captureScreenshots ? screenshots : undefined,
+      axeVersion: axeResults.testEngine?.version || AXE_VERSION,
+      accessibilityTree: accessibilityTree?.snapshot || null,
+      pageStructure,
     }
   } catch (error) {
     console.error(`Error analyzing ${url}:`, error)
     throw new Error(`Failed to analyze ${url}: ${error instanceof Error ? error.message : String(error)}`)
   } finally {
-    // Close browser
-    if (browser) {
+    // Return the context to the pool
+    if (pooledContext) {
+      await pooledContext.release()
+    }
+  }
+}
+
+/**
+ * Runs a flow's steps in order on one page, running axe after every step marked for scanning.
+ * Results carry the flow id and the step name. A failing step fails the whole flow, since the
+ * steps after it would run against the wrong page state.
+ */
+export async function analyzeFlow(
+  flow: ScanFlowDefinition,
+  complianceOptions: ComplianceOptions,
+  auth?: AuthSession | null,
+  viewport?: ViewportProfile,
+): Promise<{
+  results: AccessibilityResult[]
+  summary: {
+    critical: number
+    serious: number
+    moderate: number
+    minor: number
+    total: number
+    urlsAnalyzed: number
+  }
+  axeVersion: string
+}> {
+  let pooledContext: PooledContext | null = null
+
+  try {
+    pooledContext = await acquireBrowserContext({
+      ...AXE_CONTEXT_OPTIONS,
+      ...viewportContextOptions(viewport),
+      ...authContextOptions(auth)
+    })
+    await applyAuthHeaders(pooledContext.context, auth)
+    const page = await pooledContext.context.newPage()
+    page.setDefaultTimeout(30000)
+
+    const axeTags = getAxeTags(complianceOptions)
+    const results: AccessibilityResult[] = []
+    const scannedUrls = new Set<string>()
+    let axeVersion = AXE_VERSION
+
+    for (const step of flow.steps) {
       try {
-        await browser.close()
-      } catch (closeError) {
-        console.warn('Error closing browser:', closeError)
+        await runFlowStep(page, step)
+      } catch (error) {
+        throw new Error(`Flow step "${step.name}" (${step.action}) failed: ${error instanceof Error ? error.message : String(error)}`)
       }
+
+      if (!step.scan) continue
+
+      // The page may still be settling after a click; axe needs a stable DOM
+      await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+
+      const stepUrl = page.url()
+      const axeResults = await runAxe(page, axeTags)
+      axeVersion = axeResults.testEngine?.version || axeVersion
+      scannedUrls.add(stepUrl)
+
+      results.push(...processAxeResults(axeResults, stepUrl).map(result => ({
+        ...result,
+        id: `${flow.id}-${step.name}-${result.id}`,
+        flowId: flow.id,
+        flowStep: step.name
+      })))
+    }
+
+    const allResults = results.map(withRuleMetadata)
+
+    return {
+      results: allResults,
+      summary: {
+        critical: allResults.filter((r) => r.severity === "critical").length,
+        serious: allResults.filter((r) => r.severity === "serious").length,
+        moderate: allResults.filter((r) => r.severity === "moderate").length,
+        minor: allResults.filter((r) => r.severity === "minor").length,
+        total: allResults.length,
+        urlsAnalyzed: scannedUrls.size,
+      },
+      axeVersion,
+    }
+  } catch (error) {
+    console.error(`Error analyzing flow ${flow.name}:`, error)
+    throw new Error(`Failed to analyze flow ${flow.name}: ${error instanceof Error ? error.message : String(error)}`)
+  } finally {
+    if (pooledContext) {
+      await pooledContext.release()
     }
   }
 }
 
+async function runFlowStep(page: Page, step: FlowStep) {
+  switch (step.action) {
+    case 'goto':
+      await page.goto(step.url!, { waitUntil: "networkidle", timeout: 60000 })
+      break
+    case 'click':
+      await page.click(step.selector!)
+      break
+    case 'fill':
+      await page.fill(step.selector!, resolveSecret(step.value) || '')
+      break
+    case 'press':
+      await page.press(step.selector!, step.key!)
+      break
+    case 'waitFor':
+      await page.waitForSelector(step.selector!, { state: 'visible' })
+      break
+  }
+}
+
 function processAxeResults(results: any, url: string): AccessibilityResult[] {
   const violations = results.violations || []
 
@@ -226,11 +357,12 @@ function processAxeResults(results: any, url: string): AccessibilityResult[] {
           severity = "moderate"
       }
 
-      // Extract element path from axe target
-      const elementPath = node.target && node.target.length > 0 ? node.target[0] : null
+      // Element path from axe target, with the frame and shadow host chain when there is one
+      const elementPath = fromAxeTarget(node.target)
 
       return {
         id: `${violation.id}-${index}`,
+        ruleId: ruleIdForAxeRule(violation.id),
         url,
         message: violation.description,
         help: violation.help,
@@ -245,19 +377,48 @@ function processAxeResults(results: any, url: string): AccessibilityResult[] {
   })
 }
 
+/**
+ * axe results for content revealed during interactive exploration, attributed to the trigger that
+ * revealed it. Findings the initial scan already had, or an earlier trigger revealed, are dropped.
+ */
+function revealedResults(revealed: RevealedContent[], url: string, initialResults: AccessibilityResult[]): AccessibilityResult[] {
+  const seen = new Set(initialResults.map(result => `${result.ruleId}|${result.elementPath}`))
+
+  return revealed.flatMap(({ trigger, regions, axeResults }) =>
+    processAxeResults(axeResults, url)
+      .filter(result => {
+        const key = `${result.ruleId}|${result.elementPath}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      .map(result => ({
+        ...result,
+        id: `revealed-${trigger.index}-${result.id}`,
+        details: { revealedBy: trigger, revealedRegions: regions },
+      }))
+  )
+}
+
+// axe tags each rule with the WCAG version that introduced its criterion
+const AXE_VERSION_TAGS: Record<WcagVersion, string> = {
+  '2.0': 'wcag2',
+  '2.1': 'wcag21',
+  '2.2': 'wcag22',
+}
+
 function getAxeTags(complianceOptions: ComplianceOptions): string[] {
   const tags = []
 
-  // Add WCAG tags based on level
-  const level = complianceOptions.wcagLevel
-  if (level === "a" || level === "aa" || level === "aaa") {
-    tags.push("wcag2a")
-  }
-  if (level === "aa" || level === "aaa") {
-    tags.push("wcag2aa")
-  }
-  if (level === "aaa") {
-    tags.push("wcag2aaa")
+  // Every level up to the project's, for every WCAG version up to the project's: 2.1 AA runs
+  // wcag2a, wcag2aa, wcag21a and wcag21aa
+  const levels = ["a", "aa", "aaa"].slice(0, ["a", "aa", "aaa"].indexOf(complianceOptions.wcagLevel) + 1)
+  const version = complianceOptions.wcagVersion || DEFAULT_WCAG_VERSION
+  const versions = WCAG_VERSIONS.slice(0, WCAG_VERSIONS.indexOf(version) + 1)
+  for (const wcagVersion of versions) {
+    for (const level of levels) {
+      tags.push(`${AXE_VERSION_TAGS[wcagVersion]}${level}`)
+    }
   }
 
   // Add other compliance standards
@@ -274,111 +435,33 @@ function getAxeTags(complianceOptions: ComplianceOptions): string[] {
   return tags
 }
 
-// Enhanced helper function to generate CSS selector paths
-function generateElementPath(element: Element): string {
-  const path: string[] = []
-  let current: Element | null = element
-
-  while (current && current.nodeType === Node.ELEMENT_NODE) {
-    let selector = current.tagName.toLowerCase()
-
-    // Add ID if present (most specific)
-    if (current.id) {
-      selector += `#${current.id}`
-      path.unshift(selector)
-      break // ID is unique, we can stop here
-    }
-
-    // Add classes if present
-    if (current.className && typeof current.className === 'string') {
-      const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
-      if (classes.length > 0) {
-        selector += '.' + classes.join('.')
-      }
-    }
-
-    // Add nth-child if there are siblings with the same tag
-    if (current.parentElement) {
-      const siblings = Array.from(current.parentElement.children).filter(
-        sibling => sibling.tagName === current!.tagName
-      )
-      if (siblings.length > 1) {
-        const index = siblings.indexOf(current) + 1
-        selector += `:nth-child(${index})`
-      }
-    }
-
-    path.unshift(selector)
-    current = current.parentElement
-  }
-
-  return path.join(' > ')
-}
-
 /**
  * Performs DOM-based analysis to find accessibility issues
  */
 async function performDOMAnalysis(page: Page, url: string): Promise<AccessibilityResult[]> {
   const results: AccessibilityResult[] = []
+  await installPageHelpers(page)
   
   // Check for missing alt text on images
   const missingAltResults = await page.evaluate(() => {
+    const helpers = window.__wcagHelpers!
     const issues: any[] = []
-    const images = document.querySelectorAll('img:not([alt]), img[alt=""]')
+    const images = helpers.deepQuerySelectorAll('img:not([alt]), img[alt=""]')
     
     images.forEach((img, index) => {
       issues.push({
         element: img.outerHTML,
-        path: generateElementPath(img),
+        path: helpers.elementPath(img),
       })
     })
     
-    function generateElementPath(element: Element): string {
-      const path: string[] = []
-      let current: Element | null = element
-
-      while (current && current.nodeType === Node.ELEMENT_NODE) {
-        let selector = current.tagName.toLowerCase()
-
-        // Add ID if present (most specific)
-        if (current.id) {
-          selector += `#${current.id}`
-          path.unshift(selector)
-          break // ID is unique, we can stop here
-        }
-
-        // Add classes if present
-        if (current.className && typeof current.className === 'string') {
-          const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
-          if (classes.length > 0) {
-            selector += '.' + classes.join('.')
-          }
-        }
-
-        // Add nth-child if there are siblings with the same tag
-        if (current.parentElement) {
-          const siblings = Array.from(current.parentElement.children).filter(
-            sibling => sibling.tagName === current!.tagName
-          )
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(current) + 1
-            selector += `:nth-child(${index})`
-          }
-        }
-
-        path.unshift(selector)
-        current = current.parentElement
-      }
-
-      return path.join(' > ')
-    }
-    
     return issues
   })
   
   missingAltResults.forEach((issue, index) => {
     results.push({
       id: `missing-alt-${index}`,
+      ruleId: 'image-alt',
       url,
       message: 'Image is missing alt text',
       help: 'Images must have alternative text to convey their purpose to screen reader users',
@@ -393,76 +476,38 @@ async function performDOMAnalysis(page: Page, url: string): Promise<Accessibilit
   
   // Check for empty links and buttons
   const emptyInteractiveResults = await page.evaluate(() => {
+    const helpers = window.__wcagHelpers!
     const issues: any[] = []
     
     // Empty links
-    document.querySelectorAll('a').forEach((link, index) => {
+    helpers.deepQuerySelectorAll('a').forEach((link, index) => {
       if (!link.textContent?.trim() && !link.querySelector('img[alt]') && !link.getAttribute('aria-label')) {
         issues.push({
           element: link.outerHTML,
-          path: generateElementPath(link),
+          path: helpers.elementPath(link),
           type: 'link'
         })
       }
     })
     
     // Empty buttons
-    document.querySelectorAll('button').forEach((button, index) => {
+    helpers.deepQuerySelectorAll('button').forEach((button, index) => {
       if (!button.textContent?.trim() && !button.querySelector('img[alt]') && !button.getAttribute('aria-label')) {
         issues.push({
           element: button.outerHTML,
-          path: generateElementPath(button),
+          path: helpers.elementPath(button),
           type: 'button'
         })
       }
     })
     
-    function generateElementPath(element: Element): string {
-      const path: string[] = []
-      let current: Element | null = element
-
-      while (current && current.nodeType === Node.ELEMENT_NODE) {
-        let selector = current.tagName.toLowerCase()
-
-        // Add ID if present (most specific)
-        if (current.id) {
-          selector += `#${current.id}`
-          path.unshift(selector)
-          break // ID is unique, we can stop here
-        }
-
-        // Add classes if present
-        if (current.className && typeof current.className === 'string') {
-          const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
-          if (classes.length > 0) {
-            selector += '.' + classes.join('.')
-          }
-        }
-
-        // Add nth-child if there are siblings with the same tag
-        if (current.parentElement) {
-          const siblings = Array.from(current.parentElement.children).filter(
-            sibling => sibling.tagName === current!.tagName
-          )
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(current) + 1
-            selector += `:nth-child(${index})`
-          }
-        }
-
-        path.unshift(selector)
-        current = current.parentElement
-      }
-
-      return path.join(' > ')
-    }
-    
     return issues
   })
   
   emptyInteractiveResults.forEach((issue, index) => {
     results.push({
       id: `empty-${issue.type}-${index}`,
+      ruleId: issue.type === 'button' ? 'button-name' : 'link-name',
       url,
       message: `${issue.type.charAt(0).toUpperCase() + issue.type.slice(1)} has no accessible text`,
       help: `${issue.type.charAt(0).toUpperCase() + issue.type.slice(1)}s must have accessible text to convey their purpose`,
@@ -477,8 +522,9 @@ async function performDOMAnalysis(page: Page, url: string): Promise<Accessibilit
   
   // Check for proper heading structure
   const headingResults = await page.evaluate(() => {
+    const helpers = window.__wcagHelpers!
     const issues: any[] = []
-    const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+    const headings = Array.from(helpers.deepQuerySelectorAll('h1, h2, h3, h4, h5, h6'))
     
     // Check for skipped heading levels
     let previousLevel = 0
@@ -490,7 +536,7 @@ async function performDOMAnalysis(page: Page, url: string): Promise<Accessibilit
       if (index === 0 && level !== 1) {
         issues.push({
           element: heading.outerHTML,
-          path: generateElementPath(heading),
+          path: helpers.elementPath(heading),
           message: 'First heading is not an h1'
         })
       }
@@ -499,7 +545,7 @@ async function performDOMAnalysis(page: Page, url: string): Promise<Accessibilit
       if (level > previousLevel + 1) {
         issues.push({
           element: heading.outerHTML,
-          path: generateElementPath(heading),
+          path: helpers.elementPath(heading),
           message: `Skipped heading level: h${previousLevel} to h${level}`
         })
       }
@@ -507,52 +553,13 @@ async function performDOMAnalysis(page: Page, url: string): Promise<Accessibilit
       previousLevel = level
     })
     
-    function generateElementPath(element: Element): string {
-      const path: string[] = []
-      let current: Element | null = element
-
-      while (current && current.nodeType === Node.ELEMENT_NODE) {
-        let selector = current.tagName.toLowerCase()
-
-        // Add ID if present (most specific)
-        if (current.id) {
-          selector += `#${current.id}`
-          path.unshift(selector)
-          break // ID is unique, we can stop here
-        }
-
-        // Add classes if present
-        if (current.className && typeof current.className === 'string') {
-          const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
-          if (classes.length > 0) {
-            selector += '.' + classes.join('.')
-          }
-        }
-
-        // Add nth-child if there are siblings with the same tag
-        if (current.parentElement) {
-          const siblings = Array.from(current.parentElement.children).filter(
-            sibling => sibling.tagName === current!.tagName
-          )
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(current) + 1
-            selector += `:nth-child(${index})`
-          }
-        }
-
-        path.unshift(selector)
-        current = current.parentElement
-      }
-
-      return path.join(' > ')
-    }
-    
     return issues
   })
   
   headingResults.forEach((issue, index) => {
     results.push({
       id: `heading-structure-${index}`,
+      ruleId: 'heading-order',
       url,
       message: issue.message,
       help: 'Heading levels should not be skipped to ensure proper document structure',
@@ -568,193 +575,17 @@ async function performDOMAnalysis(page: Page, url: string): Promise<Accessibilit
   return results
 }
 
-/**
- * Performs color contrast analysis
- */
-async function performContrastAnalysis(page: Page, url: string): Promise<AccessibilityResult[]> {
-  const results: AccessibilityResult[] = []
-  
-  const contrastIssues = await page.evaluate(() => {
-    const issues: any[] = []
-    const textElements = document.querySelectorAll('p, h1, h2, h3, h4, h5, h6, span, a, button, label, li')
-    
-    textElements.forEach((element, index) => {
-      const style = window.getComputedStyle(element)
-      const textColor = style.color
-      const backgroundColor = getBackgroundColor(element)
-      
-      if (textColor && backgroundColor) {
-        const contrast = calculateContrast(parseColor(textColor), parseColor(backgroundColor))
-        
-        // WCAG AA requires 4.5:1 for normal text and 3:1 for large text
-        const fontSize = parseFloat(style.fontSize)
-        const isBold = parseInt(style.fontWeight) >= 700
-        const isLargeText = (fontSize >= 18) || (fontSize >= 14 && isBold)
-        
-        const minContrast = isLargeText ? 3 : 4.5
-        
-        if (contrast < minContrast) {
-          issues.push({
-            element: element.outerHTML,
-            path: generateElementPath(element),
-            textColor,
-            backgroundColor,
-            contrast,
-            required: minContrast,
-            fontSize: style.fontSize,
-            fontWeight: style.fontWeight
-          })
-        }
-      }
-    })
-    
-    function getBackgroundColor(element: Element): string | null {
-      const style = window.getComputedStyle(element)
-      
-      // If the element has a background color with alpha > 0, use it
-      if (style.backgroundColor && style.backgroundColor !== 'rgba(0, 0, 0, 0)' && style.backgroundColor !== 'transparent') {
-        return style.backgroundColor
-      }
-      
-      // Otherwise, check parent elements
-      if (element.parentElement) {
-        return getBackgroundColor(element.parentElement)
-      }
-      
-      // Default to white if no background color is found
-      return 'rgb(255, 255, 255)'
-    }
-    
-    function parseColor(color: string): number[] {
-      // Handle rgb/rgba format
-      if (color.startsWith('rgb')) {
-        const values = color.match(/\d+/g)?.map(Number) || []
-        return values.slice(0, 3) // Return only RGB values
-      }
-      
-      // Handle hex format
-      if (color.startsWith('#')) {
-        if (color.length === 4) {
-          // Convert #rgb to #rrggbb
-          const r = parseInt(color[1] + color[1], 16)
-          const g = parseInt(color[2] + color[2], 16)
-          const b = parseInt(color[3] + color[3], 16)
-          return [r, g, b]
-        } else {
-          const r = parseInt(color.slice(1, 3), 16)
-          const g = parseInt(color.slice(3, 5), 16)
-          const b = parseInt(color.slice(5, 7), 16)
-          return [r, g, b]
-        }
-      }
-      
-      // Default to black if color format is not recognized
-      return [0, 0, 0]
-    }
-    
-    function calculateContrast(rgb1: number[], rgb2: number[]): number {
-      // Calculate relative luminance
-      const luminance1 = calculateLuminance(rgb1)
-      const luminance2 = calculateLuminance(rgb2)
-      
-      // Calculate contrast ratio
-      const lighter = Math.max(luminance1, luminance2)
-      const darker = Math.min(luminance1, luminance2)
-      
-      return (lighter + 0.05) / (darker + 0.05)
-    }
-    
-    function calculateLuminance(rgb: number[]): number {
-      // Convert RGB to sRGB
-      const sRGB = rgb.map(val => {
-        val = val / 255
-        return val <= 0.03928 ? val / 12.92 : Math.pow((val + 0.055) / 1.055, 2.4)
-      })
-      
-      // Calculate luminance
-      return 0.2126 * sRGB[0] + 0.7152 * sRGB[1] + 0.0722 * sRGB[2]
-    }
-    
-    function generateElementPath(element: Element): string {
-      const path: string[] = []
-      let current: Element | null = element
-
-      while (current && current.nodeType === Node.ELEMENT_NODE) {
-        let selector = current.tagName.toLowerCase()
-
-        // Add ID if present (most specific)
-        if (current.id) {
-          selector += `#${current.id}`
-          path.unshift(selector)
-          break // ID is unique, we can stop here
-        }
-
-        // Add classes if present
-        if (current.className && typeof current.className === 'string') {
-          const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
-          if (classes.length > 0) {
-            selector += '.' + classes.join('.')
-          }
-        }
-
-        // Add nth-child if there are siblings with the same tag
-        if (current.parentElement) {
-          const siblings = Array.from(current.parentElement.children).filter(
-            sibling => sibling.tagName === current!.tagName
-          )
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(current) + 1
-            selector += `:nth-child(${index})`
-          }
-        }
-
-        path.unshift(selector)
-        current = current.parentElement
-      }
-
-      return path.join(' > ')
-    }
-    
-    return issues
-  })
-  
-  contrastIssues.forEach((issue, index) => {
-    results.push({
-      id: `contrast-${index}`,
-      url,
-      message: `Insufficient color contrast: ${issue.contrast.toFixed(2)}:1 (required: ${issue.required}:1)`,
-      help: 'Text elements must have sufficient color contrast against their background',
-      element: issue.element,
-      elementPath: issue.path,
-      impact: 'serious',
-      severity: 'serious',
-      tags: ['wcag2aa', 'wcag143'],
-      details: {
-        textColor: issue.textColor,
-        backgroundColor: issue.backgroundColor,
-        contrast: issue.contrast,
-        required: issue.required,
-        fontSize: issue.fontSize,
-        fontWeight: issue.fontWeight
-      },
-      createdAt: new Date().toISOString(),
-    })
-  })
-  
-  return results
-}
-
 /**
  * Performs analysis for sensory characteristics and meaningful sequence
  */
 async function performSensoryAnalysis(page: Page, url: string): Promise<AccessibilityResult[]> {
   const results: AccessibilityResult[] = []
+  await installPageHelpers(page)
   
   // Check for content that relies on sensory characteristics
   const sensoryIssues = await page.evaluate(() => {
+    const helpers = window.__wcagHelpers!
     const issues: any[] = []
-    const allText = document.body.innerText.toLowerCase()
-    
     // Look for phrases that suggest reliance on sensory characteristics
     const sensoryPhrases = [
       'click the button on the right',
@@ -770,7 +601,7 @@ async function performSensoryAnalysis(page: Page, url: string): Promise<Accessib
     ]
     
     // Find elements containing these phrases
-    const textElements = document.querySelectorAll('p, li, div, span, a, button, h1, h2, h3, h4, h5, h6')
+    const textElements = helpers.deepQuerySelectorAll('p, li, div, span, a, button, h1, h2, h3, h4, h5, h6')
     
     textElements.forEach(element => {
       const text = element.textContent?.toLowerCase() || ''
@@ -779,7 +610,7 @@ async function performSensoryAnalysis(page: Page, url: string): Promise<Accessib
         if (text.includes(phrase)) {
           issues.push({
             element: element.outerHTML,
-            path: generateElementPath(element),
+            path: helpers.elementPath(element),
             text: element.textContent,
             phrase
           })
@@ -788,52 +619,13 @@ async function performSensoryAnalysis(page: Page, url: string): Promise<Accessib
       }
     })
     
-    function generateElementPath(element: Element): string {
-      const path: string[] = []
-      let current: Element | null = element
-
-      while (current && current.nodeType === Node.ELEMENT_NODE) {
-        let selector = current.tagName.toLowerCase()
-
-        // Add ID if present (most specific)
-        if (current.id) {
-          selector += `#${current.id}`
-          path.unshift(selector)
-          break // ID is unique, we can stop here
-        }
-
-        // Add classes if present
-        if (current.className && typeof current.className === 'string') {
-          const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
-          if (classes.length > 0) {
-            selector += '.' + classes.join('.')
-          }
-        }
-
-        // Add nth-child if there are siblings with the same tag
-        if (current.parentElement) {
-          const siblings = Array.from(current.parentElement.children).filter(
-            sibling => sibling.tagName === current!.tagName
-          )
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(current) + 1
-            selector += `:nth-child(${index})`
-          }
-        }
-
-        path.unshift(selector)
-        current = current.parentElement
-      }
-
-      return path.join(' > ')
-    }
-    
     return issues
   })
   
   sensoryIssues.forEach((issue, index) => {
     results.push({
       id: `sensory-${index}`,
+      ruleId: 'sensory-characteristics',
       url,
       message: `Content may rely on sensory characteristics: "${issue.phrase}"`,
       help: 'Instructions should not rely solely on sensory characteristics like shape, size, color, or location',
@@ -853,13 +645,14 @@ async function performSensoryAnalysis(page: Page, url: string): Promise<Accessib
   // Check for meaningful sequence issues (complex)
   // This is a simplified check that looks for potential CSS that might disrupt reading order
   const sequenceIssues = await page.evaluate(() => {
+    const helpers = window.__wcagHelpers!
     const issues: any[] = []
     
     // Look for elements with absolute or fixed positioning that contain text
-    const positionedElements = document.querySelectorAll('*')
+    const positionedElements = helpers.deepQuerySelectorAll('*')
     
     positionedElements.forEach(element => {
-      const style = window.getComputedStyle(element)
+      const style = element.ownerDocument.defaultView!.getComputedStyle(element)
       
       if ((style.position === 'absolute' || style.position === 'fixed') && 
           element.textContent?.trim() && 
@@ -869,7 +662,7 @@ async function performSensoryAnalysis(page: Page, url: string): Promise<Accessib
         if (element.textContent.trim().length > 20) {
           issues.push({
             element: element.outerHTML,
-            path: generateElementPath(element),
+            path: helpers.elementPath(element),
             position: style.position,
             zIndex: style.zIndex
           })
@@ -877,52 +670,13 @@ async function performSensoryAnalysis(page: Page, url: string): Promise<Accessib
       }
     })
     
-    function generateElementPath(element: Element): string {
-      const path: string[] = []
-      let current: Element | null = element
-
-      while (current && current.nodeType === Node.ELEMENT_NODE) {
-        let selector = current.tagName.toLowerCase()
-
-        // Add ID if present (most specific)
-        if (current.id) {
-          selector += `#${current.id}`
-          path.unshift(selector)
-          break // ID is unique, we can stop here
-        }
-
-        // Add classes if present
-        if (current.className && typeof current.className === 'string') {
-          const classes = current.className.split(/\s+/).filter(cls => cls.length > 0)
-          if (classes.length > 0) {
-            selector += '.' + classes.join('.')
-          }
-        }
-
-        // Add nth-child if there are siblings with the same tag
-        if (current.parentElement) {
-          const siblings = Array.from(current.parentElement.children).filter(
-            sibling => sibling.tagName === current!.tagName
-          )
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(current) + 1
-            selector += `:nth-child(${index})`
-          }
-        }
-
-        path.unshift(selector)
-        current = current.parentElement
-      }
-
-      return path.join(' > ')
-    }
-    
     return issues
   })
   
   sequenceIssues.forEach((issue, index) => {
     results.push({
       id: `sequence-${index}`,
+      ruleId: 'meaningful-sequence',
       url,
       message: `Positioned content may disrupt reading order (${issue.position} positioning)`,
       help: 'Content should maintain a meaningful sequence when linearized',
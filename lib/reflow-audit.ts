@@ -0,0 +1,110 @@
+import type { Page } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import type { AccessibilityResult } from "./types"
+
+const MAX_OFFENDERS = 10
+// Sub-pixel rounding and scrollbar gutters shouldn't count as overflow
+const OVERFLOW_TOLERANCE = 2
+
+interface ReflowOverflow {
+  viewportWidth: number
+  scrollWidth: number
+  offenders: {
+    path: string
+    html: string
+    right: number
+    // Tables, code and media may need two-dimensional layout, which 1.4.10 exempts
+    mayBeExempt: boolean
+  }[]
+}
+
+/**
+ * Checks WCAG 1.4.10 (Reflow) on a page loaded at the `reflow` profile's 320px width: the page
+ * must not scroll horizontally. When it does, the outermost elements reaching past the viewport
+ * are reported, one result each. Content inside its own horizontal scroll container doesn't
+ * widen the page and isn't reported. Tables, preformatted text, maps and other media can be
+ * exempt as content that needs two-dimensional layout, so they're minor and marked for review.
+ */
+export async function auditReflow(page: Page, url: string): Promise<AccessibilityResult[]> {
+  await installPageHelpers(page)
+  const overflow = await findReflowOverflow(page)
+  if (!overflow) return []
+
+  const createdAt = new Date().toISOString()
+  const overflowBy = overflow.scrollWidth - overflow.viewportWidth
+  const help = 'Content must fit 320 CSS pixels without scrolling horizontally: use fluid widths (max-width: 100%, flexible grids, wrapping) instead of fixed widths, or let wide content scroll inside its own container'
+
+  if (overflow.offenders.length === 0) {
+    return [{
+      id: 'reflow-0',
+      ruleId: 'reflow',
+      url,
+      message: `Page scrolls horizontally at ${overflow.viewportWidth}px wide (content is ${overflow.scrollWidth}px wide)`,
+      help,
+      element: '<html>',
+      elementPath: 'html',
+      impact: 'serious',
+      severity: 'serious',
+      tags: ['wcag21aa', 'wcag1410'],
+      details: { viewportWidth: overflow.viewportWidth, scrollWidth: overflow.scrollWidth },
+      createdAt,
+    }]
+  }
+
+  return overflow.offenders.map((offender, index) => ({
+    id: `reflow-${index}`,
+    ruleId: 'reflow',
+    url,
+    message: offender.mayBeExempt
+      ? `Element reaches ${Math.round(offender.right - overflow.viewportWidth)}px past the ${overflow.viewportWidth}px viewport; check whether it needs two-dimensional layout`
+      : `Element reaches ${Math.round(offender.right - overflow.viewportWidth)}px past the ${overflow.viewportWidth}px viewport, so the page scrolls horizontally by ${overflowBy}px`,
+    help,
+    element: offender.html,
+    elementPath: offender.path,
+    impact: offender.mayBeExempt ? 'minor' : 'serious',
+    severity: offender.mayBeExempt ? 'minor' : 'serious',
+    tags: ['wcag21aa', 'wcag1410'],
+    details: {
+      viewportWidth: overflow.viewportWidth,
+      scrollWidth: overflow.scrollWidth,
+      ...(offender.mayBeExempt && { needsReview: true }),
+    },
+    createdAt,
+  }))
+}
+
+async function findReflowOverflow(page: Page): Promise<ReflowOverflow | null> {
+  return page.evaluate(({ maxOffenders, tolerance }) => {
+    const helpers = window.__wcagHelpers!
+    const root = document.documentElement
+    const viewportWidth = root.clientWidth
+    const scrollWidth = Math.max(root.scrollWidth, document.body?.scrollWidth || 0)
+    if (scrollWidth <= viewportWidth + tolerance) return null
+
+    const overflows = (element: Element) => element.getBoundingClientRect().right > viewportWidth + tolerance
+    const scrollsOnItsOwn = (element: Element) => ['auto', 'scroll', 'hidden', 'clip'].includes(getComputedStyle(element).overflowX)
+    const exemptSelector = 'table, pre, code, canvas, svg, video, iframe, [role="application"], [role="grid"]'
+
+    const offenders: ReflowOverflow['offenders'] = []
+    const visit = (element: Element) => {
+      if (offenders.length >= maxOffenders) return
+      // Report the outermost overflowing element rather than each of its descendants
+      if (overflows(element) && helpers.isVisible(element)) {
+        offenders.push({
+          path: helpers.elementPath(element),
+          html: helpers.elementHtml(element),
+          right: element.getBoundingClientRect().right,
+          mayBeExempt: element.matches(exemptSelector) || Boolean(element.closest(exemptSelector)),
+        })
+        return
+      }
+      if (scrollsOnItsOwn(element)) return
+      for (const child of Array.from(element.children)) visit(child)
+    }
+    if (document.body) {
+      for (const child of Array.from(document.body.children)) visit(child)
+    }
+
+    return { viewportWidth, scrollWidth, offenders }
+  }, { maxOffenders: MAX_OFFENDERS, tolerance: OVERFLOW_TOLERANCE })
+}
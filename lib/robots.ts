@@ -0,0 +1,111 @@
+export const CRAWLER_USER_AGENT = 'WCAG Accessibility Checker/1.0'
+
+interface RobotsRule {
+  allow: boolean
+  pattern: string
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[]
+  sitemaps: string[]
+}
+
+const ALLOW_ALL: RobotsPolicy = { rules: [], sitemaps: [] }
+
+/**
+ * Fetches and parses robots.txt for the origin of `url`. A missing or unreachable robots.txt
+ * allows everything, as crawlers conventionally treat it.
+ */
+export async function fetchRobotsPolicy(url: string, userAgent: string = CRAWLER_USER_AGENT): Promise<RobotsPolicy> {
+  const robotsUrl = new URL('/robots.txt', url).toString()
+  try {
+    const response = await fetch(robotsUrl, {
+      headers: { 'User-Agent': userAgent },
+      signal: AbortSignal.timeout(10000)
+    })
+    if (!response.ok) return ALLOW_ALL
+    return parseRobotsTxt(await response.text(), userAgent)
+  } catch (error) {
+    console.warn(`Could not fetch ${robotsUrl}:`, error instanceof Error ? error.message : String(error))
+    return ALLOW_ALL
+  }
+}
+
+/**
+ * Parses the groups that apply to `userAgent`: the most specific matching user-agent group,
+ * falling back to `*`. Sitemap lines are collected regardless of group.
+ */
+export function parseRobotsTxt(content: string, userAgent: string = CRAWLER_USER_AGENT): RobotsPolicy {
+  const agentToken = userAgent.split('/')[0].trim().toLowerCase()
+  const groups: { agents: string[], rules: RobotsRule[] }[] = []
+  const sitemaps: string[] = []
+  let current: { agents: string[], rules: RobotsRule[] } | null = null
+  let lastWasAgent = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] }
+        groups.push(current)
+      }
+      current.agents.push(value.toLowerCase())
+      lastWasAgent = true
+      continue
+    }
+
+    lastWasAgent = false
+    if (field === 'sitemap' && value) {
+      sitemaps.push(value)
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', pattern: value })
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(agent => agent !== '*' && agentToken.includes(agent)))
+  const applicable = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'))
+
+  return {
+    rules: applicable.flatMap(group => group.rules),
+    sitemaps
+  }
+}
+
+/**
+ * Longest matching rule wins; on a tie Allow beats Disallow (RFC 9309).
+ */
+export function isAllowedByRobots(policy: RobotsPolicy, url: string): boolean {
+  const { pathname, search } = new URL(url)
+  const path = pathname + search
+
+  let match: RobotsRule | null = null
+  for (const rule of policy.rules) {
+    if (!robotsPatternToRegExp(rule.pattern).test(path)) continue
+    if (
+      !match ||
+      rule.pattern.length > match.pattern.length ||
+      (rule.pattern.length === match.pattern.length && rule.allow)
+    ) {
+      match = rule
+    }
+  }
+
+  return match ? match.allow : true
+}
+
+function robotsPatternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$')
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${body}${anchored ? '$' : ''}`)
+}
@@ -0,0 +1,154 @@
+import type { AccessibilityResult, WcagVersion } from "./types"
+
+export type WcagLevel = 'A' | 'AA' | 'AAA'
+
+export interface RuleDefinition {
+  id: string
+  title: string
+  // WCAG success criteria numbers, e.g. "1.1.1"
+  wcag: string[]
+  // Lowest WCAG level among the mapped criteria; null for best-practice rules
+  level: WcagLevel | null
+  // Section 508 (36 CFR 1194.22) paragraphs
+  section508: string[]
+  // axe-core rules that check the same thing
+  axeRules: string[]
+}
+
+/**
+ * Canonical rule catalog. Every engine reports results against these ids so filters, exports
+ * and rescan diffs can key on the rule instead of the message text. axe rules that are not
+ * listed here keep their own id and take their criteria from the axe tags.
+ */
+export const RULE_CATALOG: RuleDefinition[] = [
+  { id: 'image-alt', title: 'Images must have alternative text', wcag: ['1.1.1'], level: 'A', section508: ['1194.22(a)'], axeRules: ['image-alt', 'role-img-alt', 'svg-img-alt'] },
+  { id: 'image-empty-alt', title: 'Images with empty alt text must be decorative', wcag: ['1.1.1'], level: 'A', section508: ['1194.22(a)'], axeRules: [] },
+  { id: 'input-image-alt', title: 'Image buttons must have alternative text', wcag: ['1.1.1', '4.1.2'], level: 'A', section508: ['1194.22(a)'], axeRules: ['input-image-alt'] },
+  { id: 'area-alt', title: 'Image map areas must have alternative text', wcag: ['2.4.4', '4.1.2'], level: 'A', section508: ['1194.22(a)'], axeRules: ['area-alt'] },
+  { id: 'link-name', title: 'Links must have discernible text', wcag: ['2.4.4', '4.1.2'], level: 'A', section508: ['1194.22(a)'], axeRules: ['link-name'] },
+  { id: 'link-generic-text', title: 'Link text should describe the link purpose', wcag: ['2.4.4'], level: 'A', section508: [], axeRules: [] },
+  { id: 'button-name', title: 'Buttons must have discernible text', wcag: ['4.1.2'], level: 'A', section508: ['1194.22(a)'], axeRules: ['button-name', 'input-button-name'] },
+  { id: 'label', title: 'Form controls must have labels', wcag: ['1.3.1', '4.1.2'], level: 'A', section508: ['1194.22(n)'], axeRules: ['label', 'select-name'] },
+  { id: 'form-group-label', title: 'Groups of radio buttons and checkboxes must have a group label', wcag: ['1.3.1'], level: 'A', section508: ['1194.22(n)'], axeRules: [] },
+  { id: 'autocomplete-valid', title: 'Fields collecting personal data must identify their purpose', wcag: ['1.3.5'], level: 'AA', section508: [], axeRules: ['autocomplete-valid'] },
+  { id: 'form-required-indication', title: 'Required fields must be indicated both visually and programmatically', wcag: ['3.3.2'], level: 'A', section508: ['1194.22(n)'], axeRules: [] },
+  { id: 'redundant-entry', title: 'Information already entered should not have to be entered again', wcag: ['3.3.7'], level: 'A', section508: [], axeRules: [] },
+  { id: 'form-error-identification', title: 'Form errors must be identified on the fields they concern', wcag: ['3.3.1'], level: 'A', section508: ['1194.22(n)'], axeRules: [] },
+  { id: 'form-error-announcement', title: 'Form errors must be announced to assistive technology', wcag: ['4.1.3'], level: 'AA', section508: [], axeRules: [] },
+  { id: 'form-error-focus', title: 'Focus should move to the first error after a failed submission', wcag: [], level: null, section508: [], axeRules: [] },
+  { id: 'heading-first-h1', title: 'The first heading should be an h1', wcag: ['1.3.1'], level: 'A', section508: [], axeRules: [] },
+  { id: 'heading-order', title: 'Heading levels should only increase by one', wcag: ['1.3.1'], level: 'A', section508: [], axeRules: ['heading-order'] },
+  { id: 'page-has-heading-one', title: 'Page should contain a level-one heading', wcag: [], level: null, section508: [], axeRules: ['page-has-heading-one'] },
+  { id: 'empty-heading', title: 'Headings should not be empty', wcag: [], level: null, section508: [], axeRules: ['empty-heading'] },
+  { id: 'list', title: 'Lists must only contain list items', wcag: ['1.3.1'], level: 'A', section508: [], axeRules: ['list', 'listitem', 'definition-list', 'dlitem'] },
+  { id: 'meaningful-sequence', title: 'Reading order must be meaningful', wcag: ['1.3.2'], level: 'A', section508: [], axeRules: [] },
+  { id: 'sensory-characteristics', title: 'Instructions must not rely on sensory characteristics alone', wcag: ['1.3.3'], level: 'A', section508: [], axeRules: [] },
+  { id: 'color-contrast', title: 'Text must have sufficient color contrast', wcag: ['1.4.3'], level: 'AA', section508: [], axeRules: ['color-contrast'] },
+  { id: 'color-contrast-enhanced', title: 'Text must have enhanced color contrast', wcag: ['1.4.6'], level: 'AAA', section508: [], axeRules: ['color-contrast-enhanced'] },
+  { id: 'meta-viewport', title: 'Zooming and scaling must not be disabled', wcag: ['1.4.4'], level: 'AA', section508: [], axeRules: ['meta-viewport'] },
+  { id: 'reflow', title: 'Content must reflow without horizontal scrolling at 320 CSS pixels', wcag: ['1.4.10'], level: 'AA', section508: [], axeRules: [] },
+  { id: 'line-height', title: 'Text spacing must not be restricted', wcag: ['1.4.12'], level: 'AA', section508: [], axeRules: ['avoid-inline-spacing'] },
+  { id: 'target-size', title: 'Targets must be at least 24 by 24 CSS pixels or spaced apart', wcag: ['2.5.8'], level: 'AA', section508: [], axeRules: ['target-size'] },
+  { id: 'dragging-movements', title: 'Dragging must have a single-pointer alternative', wcag: ['2.5.7'], level: 'AA', section508: [], axeRules: [] },
+  { id: 'timing-adjustable', title: 'Time limits must be adjustable', wcag: ['2.2.1'], level: 'A', section508: ['1194.22(p)'], axeRules: ['meta-refresh'] },
+  { id: 'pause-stop-hide', title: 'Moving and auto-updating content must be possible to pause', wcag: ['2.2.2'], level: 'A', section508: [], axeRules: ['blink', 'marquee'] },
+  { id: 'status-messages', title: 'Status messages must be announced without moving focus', wcag: ['4.1.3'], level: 'AA', section508: [], axeRules: [] },
+  { id: 'keyboard-access', title: 'Interactive elements must be keyboard accessible', wcag: ['2.1.1'], level: 'A', section508: [], axeRules: [] },
+  { id: 'keyboard-trap', title: 'Keyboard focus must not be trapped', wcag: ['2.1.2'], level: 'A', section508: [], axeRules: [] },
+  { id: 'focus-hidden-element', title: 'Focused elements must be visible', wcag: ['2.4.3'], level: 'A', section508: [], axeRules: [] },
+  { id: 'focus-not-obscured', title: 'Focused elements must not be hidden by other content', wcag: ['2.4.11'], level: 'AA', section508: [], axeRules: [] },
+  { id: 'dialog-focus', title: 'Focus must move into dialogs and back to their trigger', wcag: ['2.4.3'], level: 'A', section508: [], axeRules: [] },
+  { id: 'dialog-escape', title: 'Dialogs should close with Escape', wcag: [], level: null, section508: [], axeRules: [] },
+  { id: 'focus-visible', title: 'Keyboard focus must be visible', wcag: ['2.4.7'], level: 'AA', section508: [], axeRules: [] },
+  { id: 'tabindex', title: 'Elements should not have a positive tabindex', wcag: [], level: null, section508: [], axeRules: ['tabindex'] },
+  { id: 'bypass', title: 'Page must have a way to bypass repeated blocks', wcag: ['2.4.1'], level: 'A', section508: ['1194.22(o)'], axeRules: ['bypass'] },
+  { id: 'document-title', title: 'Documents must have a title', wcag: ['2.4.2'], level: 'A', section508: [], axeRules: ['document-title'] },
+  { id: 'frame-title', title: 'Frames must have an accessible name', wcag: ['4.1.2'], level: 'A', section508: ['1194.22(i)'], axeRules: ['frame-title'] },
+  { id: 'html-has-lang', title: 'The html element must have a lang attribute', wcag: ['3.1.1'], level: 'A', section508: [], axeRules: ['html-has-lang', 'html-lang-valid'] },
+  { id: 'duplicate-id', title: 'IDs must be unique', wcag: ['4.1.1'], level: 'A', section508: [], axeRules: ['duplicate-id', 'duplicate-id-active', 'duplicate-id-aria'] },
+  { id: 'aria-roles', title: 'ARIA roles must be valid', wcag: ['4.1.2'], level: 'A', section508: [], axeRules: ['aria-roles'] },
+  { id: 'aria-attributes', title: 'ARIA attributes must be valid and complete', wcag: ['4.1.2'], level: 'A', section508: [], axeRules: ['aria-valid-attr', 'aria-valid-attr-value', 'aria-required-attr'] },
+  { id: 'video-caption', title: 'Videos must have captions', wcag: ['1.2.2'], level: 'A', section508: ['1194.22(b)'], axeRules: ['video-caption'] },
+  { id: 'video-description', title: 'Videos must have audio description or a transcript', wcag: ['1.2.3'], level: 'A', section508: ['1194.22(b)'], axeRules: [] },
+  { id: 'audio-transcript', title: 'Audio-only content must have a transcript', wcag: ['1.2.1'], level: 'A', section508: ['1194.22(b)'], axeRules: [] },
+  { id: 'no-autoplay-audio', title: 'Audio must not play automatically without a way to stop it', wcag: ['1.4.2'], level: 'A', section508: [], axeRules: ['no-autoplay-audio'] },
+  { id: 'track-srclang', title: 'Text tracks should declare their language', wcag: [], level: null, section508: [], axeRules: [] },
+  { id: 'region', title: 'Page content should be contained by landmarks', wcag: [], level: null, section508: [], axeRules: ['region', 'landmark-one-main'] },
+  { id: 'doctype', title: 'Documents should declare a DOCTYPE', wcag: [], level: null, section508: [], axeRules: [] },
+]
+
+export const WCAG_VERSIONS: WcagVersion[] = ['2.0', '2.1', '2.2']
+export const DEFAULT_WCAG_VERSION: WcagVersion = '2.1'
+
+// Success criteria added after WCAG 2.0; everything else has been there since 2.0
+const CRITERIA_ADDED_IN: Record<string, WcagVersion> = Object.fromEntries([
+  ...['1.3.4', '1.3.5', '1.3.6', '1.4.10', '1.4.11', '1.4.12', '1.4.13', '2.1.4', '2.2.6', '2.3.3', '2.5.1', '2.5.2', '2.5.3', '2.5.4', '2.5.5', '2.5.6', '4.1.3'].map(criterion => [criterion, '2.1']),
+  ...['2.4.11', '2.4.12', '2.4.13', '2.5.7', '2.5.8', '3.2.6', '3.3.7', '3.3.8', '3.3.9'].map(criterion => [criterion, '2.2']),
+])
+// 4.1.1 Parsing is obsolete and was removed in WCAG 2.2
+const CRITERIA_REMOVED_IN: Record<string, WcagVersion> = { '4.1.1': '2.2' }
+
+const RULES_BY_ID = new Map(RULE_CATALOG.map(rule => [rule.id, rule]))
+
+const RULES_BY_AXE_ID = new Map(
+  RULE_CATALOG.flatMap(rule => rule.axeRules.map(axeRule => [axeRule, rule] as const))
+)
+
+export function getRule(ruleId: string | null | undefined): RuleDefinition | undefined {
+  return ruleId ? RULES_BY_ID.get(ruleId) : undefined
+}
+
+// Maps an axe rule id onto the catalog; unknown axe rules keep their own id
+export function ruleIdForAxeRule(axeRuleId: string): string {
+  return RULES_BY_AXE_ID.get(axeRuleId)?.id || axeRuleId
+}
+
+/**
+ * Parses success criteria out of axe-style tags, e.g. "wcag111" -> "1.1.1" and
+ * "wcag1410" -> "1.4.10". Level tags such as "wcag2aa" are ignored.
+ */
+export function wcagCriteriaFromTags(tags: string[]): string[] {
+  const criteria = tags
+    .map(tag => tag.match(/^wcag(\d)(\d)(\d+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, principle, guideline, criterion]) => `${principle}.${guideline}.${criterion}`)
+  return [...new Set(criteria)]
+}
+
+/**
+ * Fills in the WCAG criteria of a result from the catalog, falling back to its tags.
+ * Engines pass their results through this after setting `ruleId`.
+ */
+export function withRuleMetadata(result: AccessibilityResult): AccessibilityResult {
+  const rule = getRule(result.ruleId)
+  const wcagCriteria = rule && rule.wcag.length > 0 ? rule.wcag : wcagCriteriaFromTags(result.tags)
+  return { ...result, wcagCriteria }
+}
+
+/**
+ * Identity of a finding across scans and engines. Results stored before rule ids existed fall
+ * back to their message text; flow results are distinct per step, and results from a viewport
+ * other than desktop per profile.
+ */
+export function getResultKey(result: { url: string, ruleId?: string | null, message: string, element?: string | null, flowStep?: string | null, viewport?: string | null }): string {
+  let key = `${result.url}|${result.ruleId || result.message}|${result.element || ''}`
+  if (result.flowStep) key += `|${result.flowStep}`
+  if (result.viewport && result.viewport !== 'desktop') key += `|viewport:${result.viewport}`
+  return key
+}
+
+/**
+ * Whether a result's success criteria are part of the given WCAG version. Results without
+ * criteria (best practices) always apply.
+ */
+export function appliesToWcagVersion(result: AccessibilityResult, version: WcagVersion): boolean {
+  const criteria = result.wcagCriteria || []
+  if (criteria.length === 0) return true
+
+  const versionIndex = WCAG_VERSIONS.indexOf(version)
+  return criteria.some(criterion => {
+    const added = WCAG_VERSIONS.indexOf(CRITERIA_ADDED_IN[criterion] || '2.0')
+    const removed = CRITERIA_REMOVED_IN[criterion]
+    return added <= versionIndex && (!removed || WCAG_VERSIONS.indexOf(removed) > versionIndex)
+  })
+}
@@ -0,0 +1,224 @@
+import type { Result, Scan } from "@prisma/client"
+import { prisma } from "./db"
+import { computeFingerprint } from "./issue-tracker"
+
+type Severity = 'critical' | 'serious' | 'moderate' | 'minor'
+
+const SEVERITIES: Severity[] = ['critical', 'serious', 'moderate', 'minor']
+
+export interface ComparisonFilters {
+  search?: string
+  severityFilters?: string[]
+  complianceFilters?: string[]
+}
+
+export interface ComparedIssue extends Result {
+  previousSeverity?: string
+}
+
+export interface UrlComparison {
+  url: string
+  new: ComparedIssue[]
+  fixed: ComparedIssue[]
+  unchanged: ComparedIssue[]
+  // Issue count per severity in the "to" run minus the "from" run
+  severityDelta: Record<Severity, number>
+}
+
+// A URL, viewport or flow that did not complete in one of the runs, so it can't be compared
+export interface NotScannedTarget {
+  url: string
+  viewport: string
+  flowId: string | null
+  // Scan status in each run; null when the run had no scan for it
+  fromStatus: string | null
+  toStatus: string | null
+}
+
+export interface RunComparison {
+  from: { id: string, createdAt: Date, status: string }
+  to: { id: string, createdAt: Date, status: string }
+  summary: {
+    new: number
+    fixed: number
+    unchanged: number
+    severityChanged: number
+    severityDelta: Record<Severity, number>
+  }
+  urls: UrlComparison[]
+  notScanned: NotScannedTarget[]
+}
+
+/**
+ * Compares two runs of a project issue by issue. Issues are matched on their fingerprint, so
+ * an issue whose markup changed trivially between runs still counts as unchanged. Only URLs,
+ * viewports and flows that completed in both runs are compared; a failed scan would otherwise
+ * show all of its issues as fixed. The rest are listed in `notScanned`. Filters apply after
+ * matching, so an issue whose severity changed stays one unchanged issue. Returns null when
+ * either run does not belong to the project.
+ */
+export async function compareRuns(
+  projectId: string,
+  fromRunId: string,
+  toRunId: string,
+  filters: ComparisonFilters = {}
+): Promise<RunComparison | null> {
+  const [fromRun, toRun] = await Promise.all([
+    loadRun(projectId, fromRunId),
+    loadRun(projectId, toRunId)
+  ])
+  if (!fromRun || !toRun) return null
+
+  const fromScans = new Map(fromRun.scans.map(scan => [scanKey(scan), scan]))
+  const toScans = new Map(toRun.scans.map(scan => [scanKey(scan), scan]))
+  const compared = new Set<string>()
+  const notScanned: NotScannedTarget[] = []
+  for (const key of [...new Set([...fromScans.keys(), ...toScans.keys()])].sort()) {
+    const from = fromScans.get(key)
+    const to = toScans.get(key)
+    if (from?.status === 'completed' && to?.status === 'completed') {
+      compared.add(key)
+      continue
+    }
+    const scan = (to || from)!
+    notScanned.push({
+      url: scan.url,
+      viewport: scan.viewport,
+      flowId: scan.flowId,
+      fromStatus: from?.status || null,
+      toStatus: to?.status || null
+    })
+  }
+
+  const comparedResults = (run: typeof fromRun) => run.scans.filter(scan => compared.has(scanKey(scan))).flatMap(scan => scan.results)
+  const fromByUrl = groupByUrl(comparedResults(fromRun))
+  const toByUrl = groupByUrl(comparedResults(toRun))
+  const urls = [...new Set([...fromByUrl.keys(), ...toByUrl.keys()])].sort()
+
+  const comparisons = urls
+    .map(url => compareUrl(url, fromByUrl.get(url) || [], toByUrl.get(url) || [], filters))
+    .filter(comparison => comparison.new.length + comparison.fixed.length + comparison.unchanged.length > 0)
+
+  const summary = {
+    new: sum(comparisons, c => c.new.length),
+    fixed: sum(comparisons, c => c.fixed.length),
+    unchanged: sum(comparisons, c => c.unchanged.length),
+    severityChanged: sum(comparisons, c => c.unchanged.filter(issue => issue.previousSeverity).length),
+    severityDelta: emptyDelta()
+  }
+  for (const comparison of comparisons) {
+    for (const severity of SEVERITIES) {
+      summary.severityDelta[severity] += comparison.severityDelta[severity]
+    }
+  }
+
+  return {
+    from: { id: fromRun.id, createdAt: fromRun.createdAt, status: fromRun.status },
+    to: { id: toRun.id, createdAt: toRun.createdAt, status: toRun.status },
+    summary,
+    urls: comparisons,
+    notScanned
+  }
+}
+
+function loadRun(projectId: string, runId: string) {
+  return prisma.scanRun.findFirst({
+    where: { id: runId, projectId },
+    include: {
+      scans: {
+        include: { results: true }
+      }
+    }
+  })
+}
+
+function scanKey(scan: Pick<Scan, 'url' | 'viewport' | 'flowId'>) {
+  return [scan.flowId || scan.url, scan.viewport].join('|')
+}
+
+function compareUrl(url: string, fromResults: Result[], toResults: Result[], filters: ComparisonFilters): UrlComparison {
+  const fromByFingerprint = indexByFingerprint(fromResults)
+  const toByFingerprint = indexByFingerprint(toResults)
+
+  const comparison: UrlComparison = { url, new: [], fixed: [], unchanged: [], severityDelta: emptyDelta() }
+
+  // An issue is listed when either side of the match passes the filters, so one that moved
+  // into or out of a filtered severity shows as a severity change
+  toByFingerprint.forEach((result, fingerprint) => {
+    const previous = fromByFingerprint.get(fingerprint)
+    if (!previous) {
+      if (matchesFilters(result, filters)) comparison.new.push(result)
+    } else if (!matchesFilters(result, filters) && !matchesFilters(previous, filters)) {
+      return
+    } else if (previous.severity !== result.severity) {
+      comparison.unchanged.push({ ...result, previousSeverity: previous.severity })
+    } else {
+      comparison.unchanged.push(result)
+    }
+  })
+
+  fromByFingerprint.forEach((result, fingerprint) => {
+    if (!toByFingerprint.has(fingerprint) && matchesFilters(result, filters)) {
+      comparison.fixed.push(result)
+    }
+  })
+
+  for (const severity of SEVERITIES) {
+    const before = [...fromByFingerprint.values()].filter(result => result.severity === severity && matchesFilters(result, filters)).length
+    const after = [...toByFingerprint.values()].filter(result => result.severity === severity && matchesFilters(result, filters)).length
+    comparison.severityDelta[severity] = after - before
+  }
+
+  return comparison
+}
+
+function indexByFingerprint(results: Result[]) {
+  const indexed = new Map<string, Result>()
+  for (const result of results) {
+    // Results stored before fingerprints existed are fingerprinted on the fly
+    const fingerprint = result.fingerprint || computeFingerprint(result)
+    if (!indexed.has(fingerprint)) indexed.set(fingerprint, result)
+  }
+  return indexed
+}
+
+function matchesFilters(result: Result, { search, severityFilters, complianceFilters }: ComparisonFilters) {
+  if (search) {
+    const searchLower = search.toLowerCase()
+    const matchesSearch =
+      result.message.toLowerCase().includes(searchLower) ||
+      result.url.toLowerCase().includes(searchLower) ||
+      (result.element && result.element.toLowerCase().includes(searchLower)) ||
+      (result.help && result.help.toLowerCase().includes(searchLower)) ||
+      (result.ruleId && result.ruleId.toLowerCase().includes(searchLower))
+    if (!matchesSearch) return false
+  }
+
+  if (severityFilters && severityFilters.length > 0 && !severityFilters.includes(result.severity)) {
+    return false
+  }
+
+  if (complianceFilters && complianceFilters.length > 0 && !result.tags.some(tag => complianceFilters.includes(tag))) {
+    return false
+  }
+
+  return true
+}
+
+function groupByUrl(results: Result[]) {
+  const grouped = new Map<string, Result[]>()
+  for (const result of results) {
+    const group = grouped.get(result.url) || []
+    group.push(result)
+    grouped.set(result.url, group)
+  }
+  return grouped
+}
+
+function emptyDelta(): Record<Severity, number> {
+  return { critical: 0, serious: 0, moderate: 0, minor: 0 }
+}
+
+function sum<T>(items: T[], fn: (item: T) => number) {
+  return items.reduce((total, item) => total + fn(item), 0)
+}
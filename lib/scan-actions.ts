@@ -1,10 +1,12 @@
+import { Prisma } from '@prisma/client'
 import { prisma } from './db'
-import type { AccessibilityResult } from './types'
+import type { AccessibilityResult, AccessibilityTreeSnapshot, PageStructureReport } from './types'
 
-export async function createScan(projectId: string, url: string) {
+export async function createScan(projectId: string, runId: string, url: string) {
   return prisma.scan.create({
     data: {
       projectId,
+      runId,
       url,
       status: "pending"
     }
@@ -97,4 +99,88 @@ export async function addScanResults(scanId: string, results: AccessibilityResul
   return prisma.result.createMany({
     data: resultData
   })
-} 
\ No newline at end of file
+} 
+/**
+ * Scans in a run that captured an accessibility tree, for picking a page in the screen
+ * reader view.
+ */
+export async function listAccessibilityTreeScans(projectId: string, runId: string) {
+  return prisma.scan.findMany({
+    where: {
+      projectId,
+      runId,
+      accessibilityTree: { isNot: null }
+    },
+    select: {
+      id: true,
+      url: true,
+      viewport: true,
+      completedAt: true
+    },
+    orderBy: [{ url: 'asc' }, { viewport: 'asc' }]
+  })
+}
+
+/**
+ * A scan's accessibility tree with the scan's results. Each result carries the tree node it
+ * was linked to when the scan ran, or null.
+ */
+export async function getScanAccessibilityTree(projectId: string, scanId: string) {
+  const scan = await prisma.scan.findFirst({
+    where: { id: scanId, projectId },
+    select: {
+      id: true,
+      url: true,
+      viewport: true,
+      completedAt: true,
+      accessibilityTree: { select: { tree: true } },
+      results: {
+        select: {
+          id: true,
+          ruleId: true,
+          message: true,
+          severity: true,
+          elementPath: true,
+          details: true
+        }
+      }
+    }
+  })
+  if (!scan?.accessibilityTree) return null
+
+  const { accessibilityTree, results, ...scanFields } = scan
+  return {
+    scan: scanFields,
+    tree: accessibilityTree.tree as unknown as AccessibilityTreeSnapshot,
+    results: results.map(({ details, ...result }) => ({
+      ...result,
+      axNodeId: ((details as Record<string, any> | null)?.axNodeId as string | undefined) || null
+    }))
+  }
+}
+
+/**
+ * The structure report of every scan in a run that has one, for the outline on the project
+ * page. Flow scans don't record one.
+ */
+export async function listPageStructures(projectId: string, runId: string) {
+  const scans = await prisma.scan.findMany({
+    where: {
+      projectId,
+      runId,
+      pageStructure: { not: Prisma.AnyNull }
+    },
+    select: {
+      id: true,
+      url: true,
+      viewport: true,
+      pageStructure: true
+    },
+    orderBy: [{ url: 'asc' }, { viewport: 'asc' }]
+  })
+
+  return scans.map(({ pageStructure, ...scan }) => ({
+    ...scan,
+    structure: pageStructure as unknown as PageStructureReport
+  }))
+}
@@ -0,0 +1,125 @@
+import type { Prisma } from "@prisma/client"
+import { prisma } from "./db"
+import { runAnalysisEngines, DEFAULT_ENGINE_STRATEGY, type EngineAnalysisResult } from "./analysis-engines"
+import { analyzeFlow } from "./playwright-axe"
+import { computeFingerprint, trackScanIssues } from "./issue-tracker"
+import { refreshScanRunStatus } from "./scan-queue"
+import { getProjectAuthSession } from "./auth-session"
+import { DEFAULT_VIEWPORT, isViewportProfile } from "./viewports"
+import type { ComplianceOptions, FlowStep } from "./types"
+
+/**
+ * Runs the analysis for a scan and stores its results. Failures are rethrown so the
+ * scan worker can decide whether to retry the job or mark the scan as failed. Nothing is
+ * saved once `signal` is aborted, i.e. after the worker lost its job to another one.
+ */
+export async function processScan(scanId: string, url: string, complianceOptions: ComplianceOptions, signal?: AbortSignal) {
+  console.log(`Starting scan processing for scanId: ${scanId}, url: ${url}`)
+
+  const scan = await prisma.scan.update({
+    where: { id: scanId },
+    data: {
+      status: "in_progress",
+      startedAt: new Date(),
+      error: null
+    },
+    include: { flow: true }
+  })
+  await refreshScanRunStatus(scan.runId)
+
+  // A failed login fails the scan rather than silently scanning the login page
+  const auth = await getProjectAuthSession(scan.projectId)
+  const viewport = isViewportProfile(scan.viewport) ? scan.viewport : DEFAULT_VIEWPORT
+
+  let analysisResult: EngineAnalysisResult
+  let analysisMethod: string
+  if (scan.flowId) {
+    // Flows interact with the page, so only the browser engine can run them
+    if (!scan.flow) {
+      throw new Error(`Flow ${scan.flowId} for scan ${scanId} no longer exists`)
+    }
+    const flowAnalysis = await analyzeFlow(
+      { id: scan.flow.id, name: scan.flow.name, steps: scan.flow.steps as unknown as FlowStep[] },
+      complianceOptions,
+      auth,
+      viewport
+    )
+    analysisResult = { ...flowAnalysis, engines: ['playwright'], failedEngines: [], accessibilityTree: null, pageStructure: null }
+    analysisMethod = 'flow'
+    console.log(`Flow "${scan.flow.name}" found ${analysisResult.results.length} issues`)
+  } else {
+    analysisResult = await runAnalysisEngines(url, complianceOptions, auth, viewport)
+    analysisMethod = complianceOptions.engineStrategy || DEFAULT_ENGINE_STRATEGY
+    console.log(`${analysisMethod} analysis for ${url} (${viewport}) used ${analysisResult.engines.join(', ')} and found ${analysisResult.results.length} issues`)
+  }
+
+  signal?.throwIfAborted()
+
+  // Scans are immutable snapshots; history across runs lives on the project's issues,
+  // which are updated in the same transaction
+  console.log(`Saving ${analysisResult.results.length} results to database for scan ${scanId}`)
+  const lifecycle = await prisma.$transaction(async (tx) => {
+    const savedResults = await tx.result.createManyAndReturn({
+      data: analysisResult.results.map(result => ({
+        scanId,
+        url: result.url,
+        message: result.message,
+        element: result.element,
+        severity: result.severity,
+        impact: result.impact,
+        help: result.help,
+        tags: result.tags,
+        ruleId: result.ruleId,
+        wcagCriteria: result.wcagCriteria || [],
+        engines: result.engines || (scan.flowId ? ['playwright'] : []),
+        fingerprint: computeFingerprint({ ...result, viewport }),
+        flowId: result.flowId || null,
+        flowStep: result.flowStep || null,
+        viewport,
+        elementPath: result.elementPath,
+        details: result.details || {},
+        createdAt: new Date(result.createdAt)
+      }))
+    })
+
+    if (analysisResult.accessibilityTree) {
+      await tx.accessibilityTree.create({
+        data: { scanId, tree: analysisResult.accessibilityTree as unknown as Prisma.InputJsonValue }
+      })
+    }
+
+    const summary = await trackScanIssues(tx, {
+      projectId: scan.projectId,
+      scanId,
+      url,
+      flowId: scan.flowId,
+      viewport,
+      engines: analysisResult.engines,
+      failedEngines: analysisResult.failedEngines,
+      results: savedResults
+    })
+
+    // Update scan status to completed with summary data
+    await tx.scan.update({
+      where: { id: scanId },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        totalIssues: analysisResult.summary.total,
+        criticalIssues: analysisResult.summary.critical,
+        seriousIssues: analysisResult.summary.serious,
+        moderateIssues: analysisResult.summary.moderate,
+        minorIssues: analysisResult.summary.minor,
+        analysisMethod,
+        axeVersion: analysisResult.axeVersion,
+        engines: analysisResult.engines,
+        failedEngines: analysisResult.failedEngines,
+        pageStructure: (analysisResult.pageStructure as unknown as Prisma.InputJsonValue | null) ?? undefined
+      }
+    })
+
+    return summary
+  }, { timeout: 30000 })
+
+  console.log(`Updated scan ${scanId} status to completed (new: ${lifecycle.new}, open: ${lifecycle.open}, regressed: ${lifecycle.regressed}, fixed: ${lifecycle.fixed})`)
+}
@@ -0,0 +1,281 @@
+import type { Prisma, ScanJob } from "@prisma/client"
+import { prisma } from "./db"
+import { DEFAULT_VIEWPORT } from "./viewports"
+import type { ComplianceOptions, ScanJobPayload, ViewportProfile } from "./types"
+
+// How long a worker owns a job before another worker may reclaim it
+export const SCAN_JOB_LEASE_MS = Number(process.env.SCAN_JOB_LEASE_MS || 2 * 60 * 1000)
+const SCAN_JOB_MAX_ATTEMPTS = Number(process.env.SCAN_JOB_MAX_ATTEMPTS || 3)
+const SCAN_JOB_BACKOFF_BASE_MS = Number(process.env.SCAN_JOB_BACKOFF_BASE_MS || 30 * 1000)
+const SCAN_JOB_BACKOFF_MAX_MS = 30 * 60 * 1000
+
+export const DEFAULT_COMPLIANCE_OPTIONS: ComplianceOptions = {
+  wcagLevel: "aa",
+  section508: false,
+  bestPractices: true,
+  experimental: false
+}
+
+interface QueueScanInput {
+  projectId: string
+  runId: string
+  url: string
+  // Set for flow scans; `url` is then the flow's start URL
+  flowId?: string | null
+  viewport?: ViewportProfile
+  complianceOptions?: ComplianceOptions | null
+}
+
+/**
+ * Creates a new scan record in the given run and puts a job for it on the queue. Scans
+ * are never reused; the scan stays "pending" until a worker leases the job.
+ */
+export async function queueScan({ projectId, runId, url, flowId, viewport, complianceOptions }: QueueScanInput) {
+  const scan = await prisma.scan.create({
+    data: {
+      projectId,
+      runId,
+      url,
+      flowId: flowId || null,
+      viewport: viewport || DEFAULT_VIEWPORT,
+      status: "pending"
+    }
+  })
+
+  await enqueueScanJob(scan.id, {
+    complianceOptions: complianceOptions || DEFAULT_COMPLIANCE_OPTIONS
+  })
+
+  return scan
+}
+
+export async function enqueueScanJob(scanId: string, payload: ScanJobPayload) {
+  const data = {
+    status: "queued",
+    payload: payload as unknown as Prisma.InputJsonValue,
+    attempts: 0,
+    maxAttempts: SCAN_JOB_MAX_ATTEMPTS,
+    runAt: new Date(),
+    leasedBy: null,
+    leaseExpiresAt: null,
+    heartbeatAt: null,
+    lastError: null
+  }
+
+  return prisma.scanJob.upsert({
+    where: { scanId },
+    create: { scanId, ...data },
+    update: data
+  })
+}
+
+/**
+ * Atomically claims the next due job. SKIP LOCKED lets several workers (or several
+ * server processes) poll the same table without handing out a job twice.
+ */
+export async function leaseNextScanJob(workerId: string): Promise<ScanJob | null> {
+  const leaseExpiresAt = new Date(Date.now() + SCAN_JOB_LEASE_MS)
+
+  const jobs = await prisma.$queryRaw<ScanJob[]>`
+    UPDATE "ScanJob"
+    SET "status" = 'running',
+        "leasedBy" = ${workerId},
+        "leaseExpiresAt" = ${leaseExpiresAt},
+        "heartbeatAt" = NOW(),
+        "attempts" = "attempts" + 1,
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "ScanJob"
+      WHERE "status" = 'queued' AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING *
+  `
+
+  return jobs[0] || null
+}
+
+export async function heartbeatScanJob(jobId: string, workerId: string) {
+  const { count } = await prisma.scanJob.updateMany({
+    where: { id: jobId, leasedBy: workerId, status: "running" },
+    data: {
+      heartbeatAt: new Date(),
+      leaseExpiresAt: new Date(Date.now() + SCAN_JOB_LEASE_MS)
+    }
+  })
+
+  // A zero count means the lease was lost (e.g. reclaimed after a long GC pause)
+  return count > 0
+}
+
+/**
+ * Marks the job done, but only while `workerId` still holds its lease, so a worker that
+ * lost it can't overwrite the state of the one that took the job over. Returns false then.
+ */
+export async function completeScanJob(jobId: string, workerId: string) {
+  const { count } = await prisma.scanJob.updateMany({
+    where: { id: jobId, leasedBy: workerId, status: "running" },
+    data: {
+      status: "completed",
+      leasedBy: null,
+      leaseExpiresAt: null,
+      lastError: null
+    }
+  })
+  return count > 0
+}
+
+/**
+ * Records a failed attempt. The job is requeued with exponential backoff until it
+ * runs out of attempts, at which point the scan itself is marked failed. Returns true
+ * when the failure is final. Nothing changes when the lease `job` was read with has
+ * since passed to another worker.
+ */
+export async function failScanJob(job: ScanJob, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error)
+  const isFinal = job.attempts >= job.maxAttempts
+  const leased = { id: job.id, leasedBy: job.leasedBy, status: "running" }
+
+  if (isFinal) {
+    const { count } = await prisma.scanJob.updateMany({
+      where: leased,
+      data: {
+        status: "failed",
+        leasedBy: null,
+        leaseExpiresAt: null,
+        lastError: message
+      }
+    })
+    if (count === 0) return false
+    const scan = await prisma.scan.update({
+      where: { id: job.scanId },
+      data: {
+        status: "failed",
+        completedAt: new Date(),
+        error: message
+      }
+    })
+    await refreshScanRunStatus(scan.runId)
+    return true
+  }
+
+  const backoff = Math.min(SCAN_JOB_BACKOFF_BASE_MS * 2 ** (job.attempts - 1), SCAN_JOB_BACKOFF_MAX_MS)
+  const { count } = await prisma.scanJob.updateMany({
+    where: leased,
+    data: {
+      status: "queued",
+      runAt: new Date(Date.now() + backoff),
+      leasedBy: null,
+      leaseExpiresAt: null,
+      lastError: message
+    }
+  })
+  if (count === 0) return false
+  await prisma.scan.update({
+    where: { id: job.scanId },
+    data: { status: "pending", error: message }
+  })
+
+  console.log(`Scan job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(backoff / 1000)}s`)
+  return false
+}
+
+/**
+ * Derives the run status from its scans. Called whenever one of its scans starts,
+ * completes or fails for good. The run row stays locked from reading the scans to
+ * writing the status, so workers finishing scans of the same run at once can't write a
+ * status computed from a stale read over a newer one.
+ */
+export async function refreshScanRunStatus(runId: string) {
+  return prisma.$transaction(async (tx) => {
+    const locked = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "ScanRun" WHERE "id" = ${runId} FOR UPDATE
+    `
+    if (locked.length === 0) return null
+
+    const scans = await tx.scan.findMany({
+      where: { runId },
+      select: { status: true, startedAt: true }
+    })
+
+    const finished = scans.filter(scan => scan.status === "completed" || scan.status === "failed")
+    const started = scans.filter(scan => scan.startedAt)
+
+    let status = "pending"
+    if (scans.length > 0 && finished.length === scans.length) {
+      // A run only fails when none of its pages could be scanned
+      status = scans.every(scan => scan.status === "failed") ? "failed" : "completed"
+    } else if (started.length > 0) {
+      status = "in_progress"
+    }
+
+    const run = await tx.scanRun.findUnique({ where: { id: runId } })
+    if (!run || run.status === status) return run
+
+    return tx.scanRun.update({
+      where: { id: runId },
+      data: {
+        status,
+        startedAt: run.startedAt || (status !== "pending" ? new Date() : null),
+        completedAt: status === "completed" || status === "failed" ? new Date() : null
+      }
+    })
+  })
+}
+
+/**
+ * Puts jobs whose lease expired back on the queue, and creates jobs for scans that were
+ * left pending or in progress without one (e.g. scans started before the queue existed).
+ */
+export async function recoverOrphanedScanJobs() {
+  const expiredJobs = await prisma.scanJob.findMany({
+    where: {
+      status: "running",
+      leaseExpiresAt: { lt: new Date() }
+    }
+  })
+
+  for (const job of expiredJobs) {
+    // A job that keeps taking its worker down with it must not be retried forever
+    if (job.attempts >= job.maxAttempts) {
+      await failScanJob(job, new Error(job.lastError || "Scan worker stopped responding"))
+      continue
+    }
+
+    await prisma.scanJob.updateMany({
+      where: { id: job.id, leasedBy: job.leasedBy, status: "running" },
+      data: {
+        status: "queued",
+        runAt: new Date(),
+        leasedBy: null,
+        leaseExpiresAt: null
+      }
+    })
+  }
+
+  const orphanedScans = await prisma.scan.findMany({
+    where: {
+      status: { in: ["pending", "in_progress"] },
+      job: null
+    },
+    include: {
+      project: true
+    }
+  })
+
+  for (const scan of orphanedScans) {
+    await prisma.scan.update({
+      where: { id: scan.id },
+      data: { status: "pending" }
+    })
+    await enqueueScanJob(scan.id, {
+      complianceOptions: (scan.project.complianceOptions as ComplianceOptions | null) || DEFAULT_COMPLIANCE_OPTIONS
+    })
+  }
+
+  if (expiredJobs.length > 0 || orphanedScans.length > 0) {
+    console.log(`Recovered ${expiredJobs.length} expired scan jobs and ${orphanedScans.length} orphaned scans`)
+  }
+}
@@ -0,0 +1,127 @@
+import { prisma } from "./db"
+import { queueScan } from "./scan-queue"
+import { getFlowStartUrl } from "./flows"
+import { getProjectViewports } from "./viewports"
+import type { ComplianceOptions, FlowStep } from "./types"
+
+export type ScanRunTrigger = 'initial' | 'manual' | 'api' | 'scheduled'
+
+/**
+ * Starts a new run for the project: one fresh scan per project URL and viewport profile, and
+ * one per flow, grouped under a ScanRun. Flows run with the project's first profile only.
+ * Earlier scans and their results are left untouched.
+ */
+export async function startScanRun(projectId: string, trigger: ScanRunTrigger = 'manual') {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { urls: true, flows: true }
+  })
+
+  if (!project) {
+    throw new Error(`Project ${projectId} not found`)
+  }
+
+  const hasTargets = project.urls.length > 0 || project.flows.length > 0
+  const run = await prisma.scanRun.create({
+    data: {
+      projectId,
+      trigger,
+      status: hasTargets ? "pending" : "completed",
+      completedAt: hasTargets ? null : new Date()
+    }
+  })
+
+  const complianceOptions = project.complianceOptions as ComplianceOptions | null
+  const viewports = getProjectViewports(complianceOptions)
+  const scans = await Promise.all([
+    ...project.urls.flatMap(urlRecord =>
+      viewports.map(viewport =>
+        queueScan({
+          projectId,
+          runId: run.id,
+          url: urlRecord.url,
+          viewport,
+          complianceOptions
+        })
+      )
+    ),
+    ...project.flows.map(flow =>
+      queueScan({
+        projectId,
+        runId: run.id,
+        url: getFlowStartUrl(flow.steps as unknown as FlowStep[]),
+        flowId: flow.id,
+        viewport: viewports[0],
+        complianceOptions
+      })
+    )
+  ])
+
+  return { ...run, scans }
+}
+
+export async function hasActiveScans(projectId: string) {
+  const activeScans = await prisma.scan.count({
+    where: {
+      projectId,
+      status: { in: ["pending", "in_progress"] }
+    }
+  })
+  return activeScans > 0
+}
+
+/**
+ * The run the project views default to: the most recent completed run, or the most recent
+ * run at all while the first one is still in progress.
+ */
+export async function getDefaultRunId(projectId: string): Promise<string | null> {
+  const finishedRun = await prisma.scanRun.findFirst({
+    where: {
+      projectId,
+      status: "completed"
+    },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  })
+  if (finishedRun) return finishedRun.id
+
+  const latestRun = await prisma.scanRun.findFirst({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true }
+  })
+  return latestRun?.id || null
+}
+
+export async function listScanRuns(projectId: string) {
+  const runs = await prisma.scanRun.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      scans: {
+        select: {
+          id: true,
+          url: true,
+          status: true,
+          totalIssues: true,
+          criticalIssues: true,
+          seriousIssues: true,
+          moderateIssues: true,
+          minorIssues: true
+        }
+      }
+    }
+  })
+
+  return runs.map(({ scans, ...run }) => ({
+    ...run,
+    scanCount: scans.length,
+    completedScans: scans.filter(scan => scan.status === "completed").length,
+    failedScans: scans.filter(scan => scan.status === "failed").length,
+    totalIssues: scans.reduce((sum, scan) => sum + (scan.totalIssues || 0), 0),
+    criticalIssues: scans.reduce((sum, scan) => sum + (scan.criticalIssues || 0), 0),
+    seriousIssues: scans.reduce((sum, scan) => sum + (scan.seriousIssues || 0), 0),
+    moderateIssues: scans.reduce((sum, scan) => sum + (scan.moderateIssues || 0), 0),
+    minorIssues: scans.reduce((sum, scan) => sum + (scan.minorIssues || 0), 0)
+  }))
+}
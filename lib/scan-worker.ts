@@ -0,0 +1,145 @@
+import { randomUUID } from "crypto"
+import type { ScanJob } from "@prisma/client"
+import { prisma } from "./db"
+import { processScan } from "./scan-processor"
+import {
+  SCAN_JOB_LEASE_MS,
+  completeScanJob,
+  failScanJob,
+  heartbeatScanJob,
+  leaseNextScanJob,
+  recoverOrphanedScanJobs,
+  refreshScanRunStatus
+} from "./scan-queue"
+import type { ScanJobPayload } from "./types"
+
+const WORKER_CONCURRENCY = Math.max(1, Number(process.env.SCAN_WORKER_CONCURRENCY || 2))
+const POLL_INTERVAL_MS = Number(process.env.SCAN_WORKER_POLL_MS || 2000)
+const HEARTBEAT_INTERVAL_MS = Math.floor(SCAN_JOB_LEASE_MS / 3)
+
+interface ScanWorkerPool {
+  id: string
+  running: boolean
+  workers: Promise<void>[]
+  recoveryTimer: NodeJS.Timeout
+}
+
+declare global {
+  var scanWorkerPool: undefined | ScanWorkerPool
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Starts the in-process worker pool. Safe to call more than once: the pool is kept on
+ * globalThis so hot reloads in development don't spawn duplicate workers.
+ */
+export async function startScanWorkers() {
+  if (globalThis.scanWorkerPool?.running) {
+    return globalThis.scanWorkerPool
+  }
+
+  const poolId = `${process.pid}-${randomUUID().slice(0, 8)}`
+
+  try {
+    await recoverOrphanedScanJobs()
+  } catch (error) {
+    console.error('Failed to recover orphaned scan jobs:', error)
+  }
+
+  const pool: ScanWorkerPool = {
+    id: poolId,
+    running: true,
+    workers: [],
+    // Other processes may die holding a lease, so keep sweeping while we run
+    recoveryTimer: setInterval(() => {
+      recoverOrphanedScanJobs().catch(error => console.error('Failed to recover orphaned scan jobs:', error))
+    }, SCAN_JOB_LEASE_MS)
+  }
+
+  for (let i = 0; i < WORKER_CONCURRENCY; i++) {
+    pool.workers.push(runWorker(pool, `${poolId}-${i}`))
+  }
+
+  globalThis.scanWorkerPool = pool
+  console.log(`Started ${WORKER_CONCURRENCY} scan workers (pool ${poolId})`)
+  return pool
+}
+
+export async function stopScanWorkers() {
+  const pool = globalThis.scanWorkerPool
+  if (!pool) return
+
+  pool.running = false
+  clearInterval(pool.recoveryTimer)
+  await Promise.all(pool.workers)
+  globalThis.scanWorkerPool = undefined
+}
+
+async function runWorker(pool: ScanWorkerPool, workerId: string) {
+  while (pool.running) {
+    let job: ScanJob | null = null
+
+    try {
+      job = await leaseNextScanJob(workerId)
+    } catch (error) {
+      console.error(`Worker ${workerId} failed to lease a job:`, error)
+    }
+
+    if (!job) {
+      await sleep(POLL_INTERVAL_MS)
+      continue
+    }
+
+    await runJob(job, workerId)
+  }
+}
+
+async function runJob(job: ScanJob, workerId: string) {
+  // Another worker owns the job once the lease is lost, so this one must stop before saving results
+  const lease = new AbortController()
+  const heartbeat = setInterval(() => {
+    heartbeatScanJob(job.id, workerId)
+      .then(stillLeased => {
+        if (!stillLeased) {
+          console.warn(`Worker ${workerId} lost the lease on scan job ${job.id}, abandoning it`)
+          lease.abort(new Error(`Lost the lease on scan job ${job.id}`))
+        }
+      })
+      .catch(error => console.error(`Heartbeat failed for scan job ${job.id}:`, error))
+  }, HEARTBEAT_INTERVAL_MS)
+
+  let completedRunId: string | null = null
+  try {
+    const scan = await prisma.scan.findUnique({ where: { id: job.scanId } })
+    if (!scan) {
+      // The scan (or its project) was deleted while the job was queued
+      await completeScanJob(job.id, workerId)
+      return
+    }
+
+    const payload = job.payload as unknown as ScanJobPayload
+    await processScan(scan.id, scan.url, payload.complianceOptions, lease.signal)
+    await completeScanJob(job.id, workerId)
+    completedRunId = scan.runId
+  } catch (error) {
+    if (lease.signal.aborted) return
+    console.error(`Error processing scan ${job.scanId}:`, error)
+    try {
+      await failScanJob(job, error)
+    } catch (failError) {
+      console.error(`Failed to record failure for scan job ${job.id}:`, failError)
+    }
+  } finally {
+    clearInterval(heartbeat)
+  }
+
+  // The results are saved by now, so a failure here must not requeue the scan
+  if (completedRunId) {
+    try {
+      await refreshScanRunStatus(completedRunId)
+    } catch (error) {
+      console.error(`Failed to refresh the status of scan run ${completedRunId}:`, error)
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { parseExpression } from "cron-parser"
+import { prisma } from "./db"
+import { hasActiveScans, startScanRun } from "./scan-runs"
+
+const SCHEDULER_POLL_MS = Number(process.env.SCAN_SCHEDULER_POLL_MS || 60000)
+
+export const SCHEDULE_PRESETS = {
+  daily: '0 2 * * *',
+  weekly: '0 2 * * 1'
+} as const
+
+export type SchedulePreset = keyof typeof SCHEDULE_PRESETS
+
+export interface ScheduleInput {
+  enabled: boolean
+  cron?: string | null
+  preset?: SchedulePreset | null
+  timezone?: string | null
+}
+
+interface ScanScheduler {
+  running: boolean
+  timer: NodeJS.Timeout
+}
+
+declare global {
+  var scanScheduler: undefined | ScanScheduler
+}
+
+/**
+ * Next time a cron expression fires after `from`, evaluated in the given IANA timezone.
+ * Throws if the expression can't be parsed.
+ */
+export function getNextScheduledAt(cron: string, timezone: string, from: Date = new Date()): Date {
+  return parseExpression(cron, { currentDate: from, tz: timezone }).next().toDate()
+}
+
+/**
+ * Returns a message describing why the schedule is invalid, or null when it can be saved.
+ * Only standard five-field expressions are accepted; seconds are not supported.
+ */
+export function validateSchedule(cron: string, timezone: string): string | null {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+  } catch {
+    return `Unknown timezone "${timezone}"`
+  }
+
+  if (cron.trim().split(/\s+/).length !== 5) {
+    return 'Cron expression must have five fields (minute hour day month weekday)'
+  }
+
+  try {
+    getNextScheduledAt(cron, timezone)
+  } catch (error) {
+    return `Invalid cron expression: ${error instanceof Error ? error.message : String(error)}`
+  }
+
+  return null
+}
+
+export function getProjectSchedule(projectId: string) {
+  return prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      scheduleEnabled: true,
+      scheduleCron: true,
+      scheduleTimezone: true,
+      nextScheduledAt: true,
+      lastScheduledAt: true
+    }
+  })
+}
+
+/**
+ * Resolves a preset to its cron expression and checks the result. Returns the values to save,
+ * or an error message when the schedule can't be enabled as given.
+ */
+export function resolveSchedule(input: ScheduleInput):
+  { error: string } | { enabled: boolean, cron: string | null, timezone: string } {
+  // Own keys only: `in` would also accept inherited names such as "toString"
+  if (input.preset && !Object.hasOwn(SCHEDULE_PRESETS, input.preset)) {
+    return { error: `Unknown schedule preset "${input.preset}"` }
+  }
+
+  const cron = input.preset ? SCHEDULE_PRESETS[input.preset] : input.cron?.trim() || null
+  const timezone = input.timezone?.trim() || 'UTC'
+
+  if (input.enabled && !cron) {
+    return { error: 'A cron expression or preset is required to enable the schedule' }
+  }
+
+  if (cron) {
+    const validationError = validateSchedule(cron, timezone)
+    if (validationError) return { error: validationError }
+  }
+
+  return { enabled: input.enabled, cron, timezone }
+}
+
+/**
+ * Saves a resolved schedule and computes when it next fires. Disabling keeps the expression
+ * so the schedule can be switched back on later.
+ */
+export async function updateProjectSchedule(
+  projectId: string,
+  { enabled, cron, timezone }: { enabled: boolean, cron: string | null, timezone: string }
+) {
+  return prisma.project.update({
+    where: { id: projectId },
+    data: {
+      scheduleEnabled: enabled,
+      scheduleCron: cron,
+      scheduleTimezone: timezone,
+      nextScheduledAt: enabled && cron ? getNextScheduledAt(cron, timezone) : null
+    },
+    select: {
+      id: true,
+      scheduleEnabled: true,
+      scheduleCron: true,
+      scheduleTimezone: true,
+      nextScheduledAt: true,
+      lastScheduledAt: true
+    }
+  })
+}
+
+/**
+ * Starts the in-process scheduler that turns due project schedules into scan runs. Like the
+ * worker pool it lives on globalThis so hot reloads don't start a second one.
+ */
+export function startScheduler() {
+  if (globalThis.scanScheduler?.running) {
+    return globalThis.scanScheduler
+  }
+
+  const scheduler: ScanScheduler = {
+    running: true,
+    timer: setInterval(() => {
+      runDueSchedules().catch(error => console.error('Failed to run scheduled scans:', error))
+    }, SCHEDULER_POLL_MS)
+  }
+
+  globalThis.scanScheduler = scheduler
+  console.log(`Started scan scheduler (polling every ${SCHEDULER_POLL_MS}ms)`)
+  return scheduler
+}
+
+export function stopScheduler() {
+  const scheduler = globalThis.scanScheduler
+  if (!scheduler) return
+
+  scheduler.running = false
+  clearInterval(scheduler.timer)
+  globalThis.scanScheduler = undefined
+}
+
+export async function runDueSchedules(now: Date = new Date()) {
+  const dueProjects = await prisma.project.findMany({
+    where: {
+      scheduleEnabled: true,
+      scheduleCron: { not: null },
+      nextScheduledAt: { lte: now }
+    },
+    select: {
+      id: true,
+      scheduleCron: true,
+      scheduleTimezone: true,
+      nextScheduledAt: true,
+      _count: { select: { urls: true, flows: true } }
+    }
+  })
+
+  for (const project of dueProjects) {
+    try {
+      await runSchedule(project, now)
+    } catch (error) {
+      console.error(`Failed to run schedule for project ${project.id}:`, error)
+    }
+  }
+}
+
+async function runSchedule(
+  project: { id: string, scheduleCron: string | null, scheduleTimezone: string, nextScheduledAt: Date | null, _count: { urls: number, flows: number } },
+  now: Date
+) {
+  let nextScheduledAt: Date | null = null
+  try {
+    nextScheduledAt = getNextScheduledAt(project.scheduleCron!, project.scheduleTimezone, now)
+  } catch (error) {
+    console.error(`Disabling schedule for project ${project.id}:`, error instanceof Error ? error.message : String(error))
+  }
+
+  // Claim this occurrence by advancing nextScheduledAt; if another server process got there
+  // first the update matches nothing and we leave the run to it
+  const claimed = await prisma.project.updateMany({
+    where: { id: project.id, nextScheduledAt: project.nextScheduledAt },
+    data: {
+      nextScheduledAt,
+      lastScheduledAt: now,
+      ...(nextScheduledAt ? {} : { scheduleEnabled: false })
+    }
+  })
+  if (claimed.count === 0 || !nextScheduledAt) return
+
+  if (project._count.urls === 0 && project._count.flows === 0) {
+    console.log(`Skipping scheduled scan for project ${project.id}: no URLs or flows`)
+    return
+  }
+
+  // Same rule as a manual rescan: never start a run on top of one still in flight
+  if (await hasActiveScans(project.id)) {
+    console.log(`Skipping scheduled scan for project ${project.id}: scans still pending or in progress`)
+    return
+  }
+
+  const run = await startScanRun(project.id, 'scheduled')
+  console.log(`Started scheduled run ${run.id} for project ${project.id} (${run.scans.length} URLs)`)
+}
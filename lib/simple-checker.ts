@@ -1,10 +1,15 @@
 import type { ComplianceOptions, AccessibilityResult } from "./types"
+import { withRuleMetadata } from "./rule-catalog"
+import { authFetchHeaders, type AuthSession } from "./auth-session"
 import * as cheerio from 'cheerio'
 import fetch from 'node-fetch'
+import { SHADOW_SEPARATOR } from "./element-selector"
+import { loadFrameDocuments } from "./frame-documents"
 
 export async function analyzeAccessibility(
   url: string,
   complianceOptions: ComplianceOptions,
+  auth?: AuthSession | null,
 ): Promise<{
   results: AccessibilityResult[]
   summary: {
@@ -18,121 +23,33 @@ export async function analyzeAccessibility(
 }> {
   try {
     // Fetch the HTML content
-    const response = await fetch(url)
+    const response = await fetch(url, { headers: authFetchHeaders(auth, url) })
     const html = await response.text()
 
     // Parse HTML with cheerio
     const $ = cheerio.load(html)
     
-    const results: AccessibilityResult[] = []
-    
-    // Check for missing alt text on images
-    $('img').each((i, el) => {
-      const alt = $(el).attr('alt')
-      if (alt === undefined || alt === '') {
-        results.push({
-          id: `simple-missing-alt-${i}`,
-          url,
-          message: 'Image is missing alt text',
-          help: 'Images must have alternative text to convey their purpose to screen reader users',
-          element: $.html(el),
-          impact: 'serious',
-          severity: 'serious',
-          tags: ['wcag2a', 'wcag111'],
-          createdAt: new Date().toISOString(),
-        })
-      }
-    })
-
-    // Check for empty links
-    $('a').each((i, el) => {
-      const text = $(el).text().trim()
-      const hasImgWithAlt = $(el).find('img[alt]').length > 0
-      const ariaLabel = $(el).attr('aria-label')
-      
-      if (!text && !hasImgWithAlt && !ariaLabel) {
-        results.push({
-          id: `simple-empty-link-${i}`,
-          url,
-          message: 'Link has no accessible text',
-          help: 'Links must have accessible text to convey their purpose',
-          element: $.html(el),
-          impact: 'serious',
-          severity: 'serious',
-          tags: ['wcag2a', 'wcag244'],
-          createdAt: new Date().toISOString(),
-        })
-      }
-    })
-
-    // Check for heading structure
-    const headings = $('h1, h2, h3, h4, h5, h6').toArray()
-    let previousLevel = 0
-    
-    headings.forEach((el, i) => {
-      const level = parseInt(el.tagName.substring(1))
-      
-      // First heading should be h1
-      if (i === 0 && level !== 1) {
-        results.push({
-          id: `simple-heading-first-${i}`,
-          url,
-          message: 'First heading is not an h1',
-          help: 'The first heading on a page should be an h1 to properly structure the document',
-          element: $.html(el),
-          impact: 'moderate',
-          severity: 'moderate',
-          tags: ['wcag2a', 'wcag131'],
-          createdAt: new Date().toISOString(),
-        })
-      }
-      
-      // Skipped heading level
-      if (level > previousLevel + 1) {
-        results.push({
-          id: `simple-heading-skip-${i}`,
-          url,
-          message: `Skipped heading level: h${previousLevel} to h${level}`,
-          help: 'Heading levels should not be skipped to ensure proper document structure',
-          element: $.html(el),
-          impact: 'moderate',
-          severity: 'moderate',
-          tags: ['wcag2a', 'wcag131'],
-        createdAt: new Date().toISOString(),
-      })
-    }
+    const results = checkDocument($, url)
 
-      previousLevel = level
-    })
-    
-    // Check for form inputs without labels
-    $('input, select, textarea').each((i, el) => {
-      const id = $(el).attr('id')
-      const ariaLabel = $(el).attr('aria-label')
-      const ariaLabelledBy = $(el).attr('aria-labelledby')
-      const type = $(el).attr('type')
-      
-      // Skip hidden inputs and buttons
-      if (type === 'hidden' || type === 'button' || type === 'submit' || type === 'reset') {
-        return
-      }
-      
-      // Check if there's a label associated with this input
-      const hasLabel = id ? $(`label[for="${id}"]`).length > 0 : false
-      
-      if (!hasLabel && !ariaLabel && !ariaLabelledBy) {
-        results.push({
-          id: `simple-missing-label-${i}`,
-          url,
-          message: 'Form control has no associated label',
-          help: 'Form controls must have labels to be accessible to screen reader users',
-          element: $.html(el),
-          impact: 'serious',
-          severity: 'serious',
-          tags: ['wcag2a', 'wcag111'],
-          createdAt: new Date().toISOString(),
-        })
-      }
+    // Same-origin iframes get the same checks; their paths start with the frame chain
+    const frames = await loadFrameDocuments(
+      url,
+      $,
+      parent => parent('iframe').toArray().map(frame => ({
+        path: elementPath(frame),
+        src: parent(frame).attr('src') ?? null,
+        srcdoc: parent(frame).attr('srcdoc') ?? null,
+      })),
+      frameHtml => cheerio.load(frameHtml),
+      auth,
+    )
+    frames.forEach((frame, frameIndex) => {
+      results.push(...checkDocument(frame.document, url, true).map(result => ({
+        ...result,
+        id: `frame-${frameIndex}-${result.id}`,
+        elementPath: frame.pathPrefix + result.elementPath,
+        details: { frameUrl: frame.url },
+      })))
     })
 
     // Generate summary
@@ -146,7 +63,7 @@ export async function analyzeAccessibility(
     }
 
     return {
-      results,
+      results: results.map(withRuleMetadata),
       summary,
     }
   } catch (error) {
@@ -154,3 +71,174 @@ export async function analyzeAccessibility(
     throw new Error(`Failed to analyze ${url}: ${error instanceof Error ? error.message : String(error)}`)
   }
 }
+
+// Documents framed in the page are part of its content, so their headings needn't start at h1
+function checkDocument($: cheerio.CheerioAPI, url: string, framed = false): AccessibilityResult[] {
+  const results: AccessibilityResult[] = []
+  
+  // Check for missing alt text on images
+  $('img').each((i, el) => {
+    const alt = $(el).attr('alt')
+    if (alt === undefined || alt === '') {
+      results.push({
+        id: `simple-missing-alt-${i}`,
+        ruleId: 'image-alt',
+        url,
+        message: 'Image is missing alt text',
+        help: 'Images must have alternative text to convey their purpose to screen reader users',
+        element: $.html(el),
+        elementPath: elementPath(el),
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag111'],
+        createdAt: new Date().toISOString(),
+      })
+    }
+  })
+
+  // Check for empty links
+  $('a').each((i, el) => {
+    const text = $(el).text().trim()
+    const hasImgWithAlt = $(el).find('img[alt]').length > 0
+    const ariaLabel = $(el).attr('aria-label')
+    
+    if (!text && !hasImgWithAlt && !ariaLabel) {
+      results.push({
+        id: `simple-empty-link-${i}`,
+        ruleId: 'link-name',
+        url,
+        message: 'Link has no accessible text',
+        help: 'Links must have accessible text to convey their purpose',
+        element: $.html(el),
+        elementPath: elementPath(el),
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag244'],
+        createdAt: new Date().toISOString(),
+      })
+    }
+  })
+
+  // Check for heading structure
+  const headings = $('h1, h2, h3, h4, h5, h6').toArray()
+  let previousLevel = 0
+  
+  headings.forEach((el, i) => {
+    const level = parseInt(el.tagName.substring(1))
+    
+    // First heading should be h1
+    if (!framed && i === 0 && level !== 1) {
+      results.push({
+        id: `simple-heading-first-${i}`,
+        ruleId: 'heading-first-h1',
+        url,
+        message: 'First heading is not an h1',
+        help: 'The first heading on a page should be an h1 to properly structure the document',
+        element: $.html(el),
+        elementPath: elementPath(el),
+        impact: 'moderate',
+        severity: 'moderate',
+        tags: ['wcag2a', 'wcag131'],
+        createdAt: new Date().toISOString(),
+      })
+    }
+    
+    // Skipped heading level
+    if (level > previousLevel + 1 && (previousLevel > 0 || !framed)) {
+      results.push({
+        id: `simple-heading-skip-${i}`,
+        ruleId: 'heading-order',
+        url,
+        message: `Skipped heading level: h${previousLevel} to h${level}`,
+        help: 'Heading levels should not be skipped to ensure proper document structure',
+        element: $.html(el),
+        elementPath: elementPath(el),
+        impact: 'moderate',
+        severity: 'moderate',
+        tags: ['wcag2a', 'wcag131'],
+      createdAt: new Date().toISOString(),
+    })
+  }
+
+    previousLevel = level
+  })
+  
+  // Check for form inputs without labels
+  $('input, select, textarea').each((i, el) => {
+    const id = $(el).attr('id')
+    const ariaLabel = $(el).attr('aria-label')
+    const ariaLabelledBy = $(el).attr('aria-labelledby')
+    const type = $(el).attr('type')
+    
+    // Skip hidden inputs and buttons
+    if (type === 'hidden' || type === 'button' || type === 'submit' || type === 'reset') {
+      return
+    }
+    
+    // Check if there's a label associated with this input
+    const hasLabel = id ? $(`label[for="${id}"]`).length > 0 : false
+    
+    if (!hasLabel && !ariaLabel && !ariaLabelledBy) {
+      results.push({
+        id: `simple-missing-label-${i}`,
+        ruleId: 'label',
+        url,
+        message: 'Form control has no associated label',
+        help: 'Form controls must have labels to be accessible to screen reader users',
+        element: $.html(el),
+        elementPath: elementPath(el),
+        impact: 'serious',
+        severity: 'serious',
+        tags: ['wcag2a', 'wcag111'],
+        createdAt: new Date().toISOString(),
+      })
+    }
+  })
+
+  return results
+}
+
+// The parts of a parsed node the selector path needs
+interface ParsedNode {
+  type: string
+  name?: string
+  attribs?: Record<string, string>
+  parent: ParsedNode | null
+  children?: ParsedNode[]
+}
+
+// Selector path to the element, with the shadow host chain for declarative shadow DOM
+function elementPath(element: ParsedNode): string {
+  const path: string[] = []
+  let current: ParsedNode | null = element
+
+  while (current && current.name && current.attribs) {
+    let selector = current.name
+
+    if (current.attribs.id) {
+      path.unshift(`${selector}#${current.attribs.id}`)
+      break
+    }
+
+    const classes = (current.attribs.class || '').split(/\s+/).filter(cls => cls.length > 0)
+    if (classes.length > 0) {
+      selector += '.' + classes.join('.')
+    }
+
+    const siblings = (current.parent?.children || []).filter(sibling => sibling.attribs)
+    if (siblings.filter(sibling => sibling.name === current!.name).length > 1) {
+      selector += `:nth-child(${siblings.indexOf(current) + 1})`
+    }
+
+    path.unshift(selector)
+    current = current.parent
+  }
+
+  // Declarative shadow DOM content is parsed into a fragment under <template shadowrootmode> in its host
+  let root = element.parent
+  while (root && root.type !== 'root') root = root.parent
+  const template = root?.parent
+  const host = template?.name === 'template' && template.attribs?.shadowrootmode === 'open' ? template.parent : null
+
+  return host?.attribs ? `${elementPath(host)}${SHADOW_SEPARATOR}${path.join(' > ')}` : path.join(' > ')
+}
@@ -0,0 +1,182 @@
+import { gunzipSync } from "zlib"
+import { parseStringPromise } from "xml2js"
+import { CRAWLER_USER_AGENT, fetchRobotsPolicy } from "./robots"
+
+export const MAX_SITEMAP_URLS = 1000
+const MAX_SITEMAP_FILES = 50
+const MAX_INDEX_DEPTH = 3
+
+export interface SitemapEntry {
+  loc: string
+  lastmod: string | null
+  priority: number | null
+}
+
+export interface SitemapOptions {
+  maxUrls?: number
+  // Only keep pages modified on or after this date
+  changedSince?: Date | null
+}
+
+export interface SitemapResult {
+  type: 'urlset' | 'sitemapindex'
+  urls: string[]
+  entries: SitemapEntry[]
+  sitemaps: string[]
+  truncated: boolean
+  // Entries dropped by the lastmod filter, including those without a lastmod
+  filteredOut: number
+}
+
+/**
+ * Resolves a sitemap into page URLs. Sitemap indexes are followed recursively, gzipped
+ * sitemaps are decompressed, and a URL that isn't a sitemap (e.g. a site root) is resolved
+ * through the `Sitemap:` lines in its robots.txt, falling back to /sitemap.xml.
+ */
+export async function resolveSitemap(url: string, options: SitemapOptions = {}): Promise<SitemapResult> {
+  const maxUrls = Math.min(Math.max(options.maxUrls ?? MAX_SITEMAP_URLS, 1), MAX_SITEMAP_URLS)
+  const changedSince = options.changedSince || null
+
+  const result: SitemapResult = {
+    type: 'urlset',
+    urls: [],
+    entries: [],
+    sitemaps: [],
+    truncated: false,
+    filteredOut: 0
+  }
+
+  const roots = looksLikeSitemap(url) ? [url] : await discoverSitemaps(url)
+  const seenPages = new Set<string>()
+  const queue: { url: string, depth: number, lastmod: string | null }[] = roots.map(root => ({ url: root, depth: 0, lastmod: null }))
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (result.sitemaps.includes(current.url)) continue
+    if (result.sitemaps.length >= MAX_SITEMAP_FILES) {
+      result.truncated = true
+      break
+    }
+
+    let parsed: any
+    try {
+      parsed = await fetchSitemapXml(current.url)
+    } catch (error) {
+      // A broken child sitemap shouldn't lose the pages of its siblings
+      if (current.depth === 0 && roots.length === 1) throw error
+      console.warn(`Skipping sitemap ${current.url}:`, error instanceof Error ? error.message : String(error))
+      continue
+    }
+    result.sitemaps.push(current.url)
+
+    if (parsed.sitemapindex) {
+      result.type = 'sitemapindex'
+      if (current.depth >= MAX_INDEX_DEPTH) {
+        console.warn(`Not following sitemap index ${current.url}: nested too deeply`)
+        continue
+      }
+
+      for (const child of asArray(parsed.sitemapindex.sitemap)) {
+        const loc = textOf(child?.loc)
+        if (!loc) continue
+
+        const lastmod = textOf(child.lastmod)
+        // A child sitemap last written before the cutoff can't list pages changed after it
+        if (changedSince && lastmod && changedBefore(lastmod, changedSince)) continue
+
+        queue.push({ url: new URL(loc, current.url).toString(), depth: current.depth + 1, lastmod })
+      }
+      continue
+    }
+
+    for (const entry of asArray(parsed.urlset?.url)) {
+      const loc = textOf(entry?.loc)
+      if (!loc || seenPages.has(loc)) continue
+      seenPages.add(loc)
+
+      // Pages without their own lastmod inherit the one the index gave their sitemap
+      const lastmod = textOf(entry.lastmod) || current.lastmod
+      if (changedSince && !(lastmod && changedOnOrAfter(lastmod, changedSince))) {
+        result.filteredOut++
+        continue
+      }
+
+      if (result.entries.length >= maxUrls) {
+        result.truncated = true
+        continue
+      }
+
+      const priority = Number.parseFloat(textOf(entry.priority) || '')
+      result.entries.push({
+        loc,
+        lastmod,
+        priority: Number.isFinite(priority) ? priority : null
+      })
+    }
+  }
+
+  // Highest priority first, then most recently changed
+  result.entries.sort((a, b) =>
+    (b.priority ?? 0.5) - (a.priority ?? 0.5) ||
+    (b.lastmod ? Date.parse(b.lastmod) : 0) - (a.lastmod ? Date.parse(a.lastmod) : 0)
+  )
+  result.urls = result.entries.map(entry => entry.loc)
+
+  return result
+}
+
+function looksLikeSitemap(url: string): boolean {
+  const { pathname } = new URL(url)
+  return /sitemap/i.test(pathname) || /\.xml(\.gz)?$/i.test(pathname)
+}
+
+async function discoverSitemaps(url: string): Promise<string[]> {
+  const { sitemaps } = await fetchRobotsPolicy(url)
+  if (sitemaps.length > 0) return sitemaps
+  return [new URL('/sitemap.xml', url).toString()]
+}
+
+async function fetchSitemapXml(url: string): Promise<any> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': CRAWLER_USER_AGENT,
+    },
+    signal: AbortSignal.timeout(20000)
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch sitemap ${url}: ${response.statusText}`)
+  }
+
+  let body: Buffer = Buffer.from(await response.arrayBuffer())
+  // .xml.gz files are served as gzip payloads, not with Content-Encoding, so fetch won't inflate them
+  if (body[0] === 0x1f && body[1] === 0x8b) {
+    body = gunzipSync(body)
+  }
+
+  return parseStringPromise(body.toString('utf8'), {
+    explicitArray: false,
+    normalizeTags: true,
+  })
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+// xml2js yields an object instead of a string when an element carries attributes
+function textOf(value: any): string | null {
+  if (typeof value === 'string') return value.trim() || null
+  if (value && typeof value._ === 'string') return value._.trim() || null
+  return null
+}
+
+// Unparseable dates compare false both ways
+function changedBefore(lastmod: string, date: Date): boolean {
+  return Date.parse(lastmod) < date.getTime()
+}
+
+function changedOnOrAfter(lastmod: string, date: Date): boolean {
+  return Date.parse(lastmod) >= date.getTime()
+}
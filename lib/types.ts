@@ -8,6 +8,13 @@ export interface AccessibilityResult {
   impact: string
   severity: 'critical' | 'serious' | 'moderate' | 'minor'
   tags: string[]
+  ruleId?: string
+  wcagCriteria?: string[]
+  engines?: string[]
+  issueState?: OccurrenceState
+  flowId?: string
+  flowStep?: string
+  viewport?: ViewportProfile
   details?: Record<string, any>
   screenshotPath?: string
   createdAt: string
@@ -22,6 +29,109 @@ export interface AccessibilitySummary {
   urlsAnalyzed: number
 }
 
+export interface ViewportSummary {
+  viewport: string
+  total: number
+  // Findings no other profile reported for the same page, rule and element
+  exclusive: number
+}
+
+// A passing color pair for a contrast result, with one side of the measured pair changed
+export interface SuggestedColors {
+  change: 'foreground' | 'background'
+  foreground: string
+  background: string
+  contrastRatio: number
+}
+
+// A node of the browser's accessibility tree. Containers the browser exposes without a role
+// or name are left out and their children moved up.
+export interface AccessibilityTreeNode {
+  id: string
+  role: string
+  name?: string
+  description?: string
+  value?: string
+  // e.g. "focusable", "level=2", "expanded=false"
+  properties?: string[]
+  children?: AccessibilityTreeNode[]
+}
+
+export interface AccessibilityTreeSnapshot {
+  root: AccessibilityTreeNode
+  nodeCount: number
+  // The page had more nodes than a snapshot keeps
+  truncated: boolean
+  capturedAt: string
+}
+
+export type LandmarkRole = 'banner' | 'navigation' | 'main' | 'contentinfo' | 'complementary' | 'search' | 'form' | 'region'
+
+export interface OutlineHeading {
+  level: number
+  text: string
+  elementPath: string
+  // The level of the heading before it, when this one skips one or more levels (0 for the start of the page)
+  skipsFrom?: number
+}
+
+export interface OutlineLandmark {
+  role: LandmarkRole
+  name: string | null
+  elementPath: string
+  // How many landmarks it's nested in
+  depth: number
+  // Another landmark has the same role and name, so a screen reader can't tell them apart
+  duplicate: boolean
+}
+
+export interface SkipLinkCheck {
+  text: string
+  href: string
+  elementPath: string
+  // Position in the tab order, or null when the link can't be focused at all
+  tabIndex: number | null
+  targetPath: string | null
+  targetHidden: boolean
+  // The target is, contains or is inside the main landmark
+  targetInMain: boolean
+}
+
+export type StructureProblemType =
+  | 'no-headings'
+  | 'missing-h1'
+  | 'skipped-heading-level'
+  | 'missing-main'
+  | 'duplicate-landmark'
+  | 'missing-skip-link'
+  | 'broken-skip-link'
+
+export interface StructureProblem {
+  type: StructureProblemType
+  message: string
+  elementPath?: string
+}
+
+// A page's heading outline and landmark regions, for reviewing its structure as a whole
+export interface PageStructureReport {
+  headings: OutlineHeading[]
+  landmarks: OutlineLandmark[]
+  skipLink: SkipLinkCheck | null
+  problems: StructureProblem[]
+  // The rendered page, or the HTML as served when no browser engine ran
+  source: 'browser' | 'html'
+  capturedAt: string
+}
+
+export type OccurrenceState = 'new' | 'open' | 'regressed' | 'fixed'
+
+export interface IssueLifecycleSummary {
+  new: number
+  open: number
+  regressed: number
+  fixed: number
+}
+
 export interface ResultsQueryParams {
   urls: string[]
   page: number
@@ -30,14 +140,91 @@ export interface ResultsQueryParams {
   search?: string
   severityFilters?: string[]
   complianceFilters?: string[]  
+  viewportFilters?: string[]
 }
 
+export type EngineStrategy = 'axe-only' | 'static-only' | 'all-merged'
+
+export type ViewportProfile = 'desktop' | 'tablet' | 'mobile' | 'reflow'
+
+export type WcagVersion = '2.0' | '2.1' | '2.2'
+
 export interface ComplianceOptions {
   wcagLevel: 'a' | 'aa' | 'aaa'
+  // Success criteria of later versions aren't checked; defaults to 2.1
+  wcagVersion?: WcagVersion
   section508?: boolean
   bestPractices?: boolean
   experimental?: boolean
   captureScreenshots?: boolean
+  engineStrategy?: EngineStrategy
+  // Every URL is scanned once per profile; defaults to desktop only
+  viewports?: ViewportProfile[]
+  // Seconds the browser engine watches each page for live updates, moving content and timed
+  // redirects; unset or 0 turns monitoring off
+  dynamicContentSeconds?: number
+  // Open menus, accordions, tabs and dialogs and run axe on the content they reveal
+  interactiveExploration?: boolean
+}
+
+export type AuthMethod = 'none' | 'login-script' | 'cookies' | 'storage-state'
+
+export interface AuthCookie {
+  name: string
+  // Literal value, or `env:SCAN_SECRET_NAME` to read it from an environment variable
+  value: string
+  domain?: string
+  path?: string
+}
+
+/**
+ * Per-project authentication, stored on `Project.authConfig`. Secrets are never stored:
+ * credentials, cookie and header values can reference `SCAN_SECRET_*` environment variables
+ * as `env:SCAN_SECRET_NAME`.
+ */
+export interface AuthConfig {
+  method: AuthMethod
+  loginUrl?: string
+  usernameSelector?: string
+  passwordSelector?: string
+  submitSelector?: string
+  username?: string
+  // Must be an `env:SCAN_SECRET_NAME` reference
+  password?: string
+  // Element that only exists once logged in; used to confirm a login and to test the session
+  successSelector?: string
+  cookies?: AuthCookie[]
+  headers?: Record<string, string>
+  // Playwright storageState JSON (cookies and origins) exported from a logged-in browser
+  storageState?: {
+    cookies: any[]
+    origins: any[]
+  }
+  // Page used by "test login"; defaults to the project's first URL
+  verifyUrl?: string
+}
+
+export type FlowStepAction = 'goto' | 'click' | 'fill' | 'press' | 'waitFor'
+
+export interface FlowStep {
+  name: string
+  action: FlowStepAction
+  // goto
+  url?: string
+  // click, fill, press, waitFor
+  selector?: string
+  // fill: text to type; may be an `env:SCAN_SECRET_NAME` reference
+  value?: string
+  // press: key name as Playwright expects it, e.g. "Enter" or "Tab"
+  key?: string
+  // Run axe once this step has completed
+  scan?: boolean
+}
+
+export interface ScanFlowDefinition {
+  id: string
+  name: string
+  steps: FlowStep[]
 }
 
 export interface ScanResult {
@@ -45,3 +232,25 @@ export interface ScanResult {
   results: AccessibilityResult[]
   summary: AccessibilitySummary
 }
+
+export interface ScanRunSummary {
+  id: string
+  projectId: string
+  status: 'pending' | 'in_progress' | 'completed' | 'failed'
+  trigger: string
+  startedAt: string | null
+  completedAt: string | null
+  createdAt: string
+  scanCount: number
+  completedScans: number
+  failedScans: number
+  totalIssues: number
+  criticalIssues: number
+  seriousIssues: number
+  moderateIssues: number
+  minorIssues: number
+}
+
+export interface ScanJobPayload {
+  complianceOptions: ComplianceOptions
+}
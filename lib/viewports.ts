@@ -0,0 +1,73 @@
+import { devices, type BrowserContextOptions } from "playwright-core"
+import { getResultKey } from "./rule-catalog"
+import type { ComplianceOptions, ViewportProfile, ViewportSummary } from "./types"
+
+export const DEFAULT_VIEWPORT: ViewportProfile = 'desktop'
+
+// Playwright's device descriptors also name a browser; the pool only runs chromium
+function deviceOptions(name: string): BrowserContextOptions {
+  const { defaultBrowserType, ...options } = devices[name]
+  return options
+}
+
+export const VIEWPORT_PROFILES: Record<ViewportProfile, BrowserContextOptions> = {
+  desktop: { viewport: { width: 1280, height: 720 } },
+  tablet: deviceOptions('iPad (gen 7)'),
+  mobile: deviceOptions('iPhone 13'),
+  // WCAG 1.4.10: content must reflow without two-dimensional scrolling at 320 CSS pixels wide
+  reflow: { viewport: { width: 320, height: 256 } },
+}
+
+export const VIEWPORT_PROFILE_NAMES = Object.keys(VIEWPORT_PROFILES) as ViewportProfile[]
+
+// Own keys only: `in` would also accept inherited names such as "constructor"
+export function isViewportProfile(value: unknown): value is ViewportProfile {
+  return typeof value === 'string' && Object.hasOwn(VIEWPORT_PROFILES, value)
+}
+
+/**
+ * The profiles a project scans with, in a stable order. Projects created before profiles
+ * existed scan desktop only. Static-only projects never render the page, so every profile
+ * would give the same results; they scan with the first one only.
+ */
+export function getProjectViewports(complianceOptions: ComplianceOptions | null | undefined): ViewportProfile[] {
+  const selected = (complianceOptions?.viewports || []).filter(isViewportProfile)
+  const viewports = VIEWPORT_PROFILE_NAMES.filter(name => selected.includes(name))
+  if (viewports.length === 0) return [DEFAULT_VIEWPORT]
+  return complianceOptions?.engineStrategy === 'static-only' ? viewports.slice(0, 1) : viewports
+}
+
+/**
+ * Context options for a profile. Unknown names fall back to desktop so results stored under
+ * a removed profile can still be captured.
+ */
+export function viewportContextOptions(profile: string | null | undefined): BrowserContextOptions {
+  return VIEWPORT_PROFILES[isViewportProfile(profile) ? profile : DEFAULT_VIEWPORT]
+}
+
+/**
+ * Per-profile counts for comparing viewports within a run. A result is exclusive to its
+ * profile when its key without the viewport doesn't occur under any other profile.
+ */
+export function summarizeViewports(results: { url: string, ruleId?: string | null, message: string, element?: string | null, flowStep?: string | null, viewport: string }[]): ViewportSummary[] {
+  const viewportsByKey = new Map<string, Set<string>>()
+  for (const result of results) {
+    const key = getResultKey({ ...result, viewport: null })
+    if (!viewportsByKey.has(key)) viewportsByKey.set(key, new Set())
+    viewportsByKey.get(key)!.add(result.viewport)
+  }
+
+  const summaries = new Map<string, ViewportSummary>()
+  for (const result of results) {
+    const summary = summaries.get(result.viewport) || { viewport: result.viewport, total: 0, exclusive: 0 }
+    summary.total++
+    if (viewportsByKey.get(getResultKey({ ...result, viewport: null }))!.size === 1) summary.exclusive++
+    summaries.set(result.viewport, summary)
+  }
+
+  const order = (viewport: string) => {
+    const index = VIEWPORT_PROFILE_NAMES.indexOf(viewport as ViewportProfile)
+    return index === -1 ? VIEWPORT_PROFILE_NAMES.length : index
+  }
+  return Array.from(summaries.values()).sort((a, b) => order(a.viewport) - order(b.viewport))
+}
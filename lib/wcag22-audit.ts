@@ -0,0 +1,291 @@
+import type { Page } from "playwright-core"
+import { installPageHelpers } from "./page-helpers"
+import type { AccessibilityResult, ComplianceOptions } from "./types"
+
+const MAX_FOCUS_CHECKS = 150
+const MAX_RESULTS_PER_RULE = 20
+// Sample points sit this far inside the focused element's edges
+const SAMPLE_INSET = 2
+
+interface ObscuredFocus {
+  path: string
+  html: string
+  obscuredBy: { path: string, html: string, position: string }
+}
+
+interface DragTarget {
+  path: string
+  html: string
+  kind: 'draggable' | 'sortable' | 'slider'
+  // Items found in the same list, reported once
+  count: number
+}
+
+interface RepeatedEntry {
+  path: string
+  html: string
+  purpose: string
+  label: string
+  firstPath: string
+  confirmation: boolean
+}
+
+/**
+ * Checks WCAG 2.2 success criteria that axe has no rule for:
+ * - focus not obscured (2.4.11): every focusable element is focused in turn and reported when
+ *   sticky or fixed content, such as a header or cookie banner, covers it completely
+ * - dragging movements (2.5.7): draggable items, sortable lists and custom sliders with no
+ *   buttons or input next to them that do the same with single clicks
+ * - redundant entry (3.3.7): forms asking for the same information twice, like a "confirm
+ *   email" field or a second address without a "same as" option. Whether the information was
+ *   entered earlier in the process can't be seen from one page, so these are hints for review.
+ * Target size (2.5.8) is covered by axe's target-size rule, which runs with the WCAG 2.2 tags.
+ * Focus not obscured and dragging movements are level AA, so level A projects skip them.
+ */
+export async function auditWcag22(page: Page, url: string, wcagLevel: ComplianceOptions['wcagLevel']): Promise<AccessibilityResult[]> {
+  await installPageHelpers(page)
+  const findings: Omit<AccessibilityResult, 'url' | 'createdAt'>[] = []
+  const checkLevelAA = wcagLevel !== 'a'
+
+  const obscured = checkLevelAA ? await findObscuredFocus(page) : []
+  for (const [index, item] of obscured.entries()) {
+    findings.push({
+      id: `focus-obscured-${index}`,
+      ruleId: 'focus-not-obscured',
+      message: 'Element is completely hidden by fixed or sticky content when it receives focus',
+      help: 'Keep focused elements at least partly visible, e.g. with scroll-padding for sticky headers, or by not covering content with banners that stay open',
+      element: item.html,
+      elementPath: item.path,
+      impact: 'serious',
+      severity: 'serious',
+      tags: ['wcag22aa', 'wcag2411'],
+      details: { obscuredBy: item.obscuredBy },
+    })
+  }
+
+  const dragTargets = checkLevelAA ? await findDragTargets(page) : []
+  for (const [index, item] of dragTargets.entries()) {
+    const what = item.kind === 'slider' ? 'Slider' : item.kind === 'sortable' ? 'Sortable list' : 'Draggable element'
+    findings.push({
+      id: `dragging-${index}`,
+      ruleId: 'dragging-movements',
+      message: `${what} has no single-pointer alternative to dragging nearby; check it can be operated with clicks or taps alone`,
+      help: 'Provide a way to do the same without dragging, e.g. move up and down buttons for sortable items or an input for slider values',
+      element: item.html,
+      elementPath: item.path,
+      impact: 'moderate',
+      severity: 'moderate',
+      tags: ['wcag22aa', 'wcag257'],
+      details: { kind: item.kind, count: item.count, needsReview: true },
+    })
+  }
+
+  const repeated = await findRepeatedEntries(page)
+  for (const [index, item] of repeated.entries()) {
+    findings.push({
+      id: `redundant-entry-${index}`,
+      ruleId: 'redundant-entry',
+      message: item.confirmation
+        ? `Form asks for the ${item.purpose} a second time ("${item.label}")`
+        : `Form asks for the ${item.purpose} again ("${item.label}") without an option to reuse the first one`,
+      help: 'Don\'t ask for information the user already gave: fill it in, or offer to reuse it (e.g. "Shipping address same as billing"). Passwords are exempt.',
+      element: item.html,
+      elementPath: item.path,
+      impact: 'moderate',
+      severity: 'moderate',
+      tags: ['wcag22a', 'wcag337'],
+      details: { purpose: item.purpose, firstPath: item.firstPath, needsReview: true },
+    })
+  }
+
+  const createdAt = new Date().toISOString()
+  return findings.map(finding => ({ ...finding, url, createdAt }))
+}
+
+async function findObscuredFocus(page: Page): Promise<ObscuredFocus[]> {
+  return page.evaluate(({ maxChecks, maxResults, inset }) => {
+    const helpers = window.__wcagHelpers!
+    const found: ObscuredFocus[] = []
+    const candidates = Array.from(document.querySelectorAll<HTMLElement>(
+      'a[href], button, input:not([type="hidden"]), select, textarea, summary, [tabindex]:not([tabindex="-1"]), [contenteditable="true"]'
+    )).filter(element => !element.matches(':disabled')).slice(0, maxChecks)
+
+    // Only author content that stays put while the page scrolls can hide what focus scrolled to
+    const positionedAncestor = (element: Element): HTMLElement | null => {
+      for (let current: Element | null = element; current && current !== document.body; current = current.parentElement) {
+        const position = getComputedStyle(current).position
+        if (position === 'fixed' || position === 'sticky') return current as HTMLElement
+      }
+      return null
+    }
+
+    for (const element of candidates) {
+      if (found.length >= maxResults) break
+      element.focus()
+      if (helpers.deepActiveElement() !== element) continue
+
+      const rect = element.getBoundingClientRect()
+      const left = Math.max(rect.left + inset, 0)
+      const right = Math.min(rect.right - inset, window.innerWidth - 1)
+      const top = Math.max(rect.top + inset, 0)
+      const bottom = Math.min(rect.bottom - inset, window.innerHeight - 1)
+      // Collapsed, or focused without scrolling into view; neither can be judged from here
+      if (right <= left || bottom <= top) continue
+
+      const points = [[(left + right) / 2, (top + bottom) / 2], [left, top], [right, top], [left, bottom], [right, bottom]]
+      let obscuredBy: HTMLElement | null = null
+      const covered = points.every(([x, y]) => {
+        const hit = document.elementFromPoint(x, y)
+        if (!hit || hit === element || element.contains(hit) || hit.contains(element)) return false
+        const cover = positionedAncestor(hit)
+        if (!cover || cover.contains(element)) return false
+        obscuredBy = obscuredBy || cover
+        return true
+      })
+
+      if (covered && obscuredBy) {
+        found.push({
+          path: helpers.elementPath(element),
+          html: helpers.elementHtml(element),
+          obscuredBy: {
+            path: helpers.elementPath(obscuredBy),
+            html: helpers.elementHtml(obscuredBy),
+            position: getComputedStyle(obscuredBy).position,
+          },
+        })
+      }
+    }
+
+    ;(document.activeElement as HTMLElement | null)?.blur?.()
+    window.scrollTo(0, 0)
+    return found
+  }, { maxChecks: MAX_FOCUS_CHECKS, maxResults: MAX_RESULTS_PER_RULE, inset: SAMPLE_INSET })
+}
+
+async function findDragTargets(page: Page): Promise<DragTarget[]> {
+  return page.evaluate((maxResults) => {
+    const helpers = window.__wcagHelpers!
+    const alternativeLabel = /\bup\b|\bdown\b|move|left|right|increase|decrease|earlier|later|top|bottom|reorder|^[+\-−]$/i
+    const labelOf = (element: Element) =>
+      [element.textContent, element.getAttribute('aria-label'), element.getAttribute('title')].filter(Boolean).join(' ').trim()
+
+    // Controls that sit with the draggable content: up to three levels out, not the whole page
+    const hasAlternative = (element: Element, kind: DragTarget['kind']) => {
+      let container: Element | null = element
+      for (let level = 0; container && container !== document.body && level < 4; level++) {
+        if (kind === 'slider' && container.querySelector('input[type="number"], input[type="text"], input:not([type]), select')) return true
+        const buttons = Array.from(container.querySelectorAll('button, [role="button"], input[type="button"]'))
+        if (buttons.some(button => alternativeLabel.test(labelOf(button)))) return true
+        container = container.parentElement
+      }
+      return false
+    }
+
+    const kindOf = (element: Element): DragTarget['kind'] => {
+      if (element.matches('[role="slider"], .ui-slider-handle')) return 'slider'
+      if (element.parentElement?.matches('.ui-sortable, [class*="sortable" i], [data-rbd-droppable-id], [data-sortable]')) return 'sortable'
+      return 'draggable'
+    }
+
+    const found: DragTarget[] = []
+    const reportedLists = new Map<Element, DragTarget>()
+    const candidates = Array.from(document.querySelectorAll(
+      '[draggable="true"], [data-rbd-draggable-id], .ui-draggable, .ui-sortable > *, [class*="sortable" i] > *, [data-sortable] > *, [role="slider"], .ui-slider-handle'
+    ))
+
+    for (const element of candidates) {
+      // Native range inputs move to wherever the track is clicked, so they're never matched here
+      if (!helpers.isVisible(element)) continue
+      const kind = kindOf(element)
+
+      // One result per sortable list or group of draggable siblings
+      const list = kind === 'slider' ? null : element.parentElement
+      const reported = list ? reportedLists.get(list) : undefined
+      if (reported) {
+        reported.count++
+        continue
+      }
+      if (hasAlternative(element, kind) || found.length >= maxResults) continue
+
+      const target: DragTarget = { path: helpers.elementPath(element), html: helpers.elementHtml(element), kind, count: 1 }
+      found.push(target)
+      if (list) reportedLists.set(list, target)
+    }
+
+    return found
+  }, MAX_RESULTS_PER_RULE)
+}
+
+async function findRepeatedEntries(page: Page): Promise<RepeatedEntry[]> {
+  return page.evaluate((maxResults) => {
+    const helpers = window.__wcagHelpers!
+    const confirmationLabel = /confirm|repeat|re-?enter|retype|verify|again/i
+    const reuseLabel = /same as|copy|use (my |the )?(shipping|billing|delivery|home|previous)|different (shipping|billing|delivery)/i
+
+    // Purposes a user is commonly asked for twice, from autocomplete tokens or the field's name and label
+    const purposes: { purpose: string, autocomplete: RegExp, label: RegExp }[] = [
+      { purpose: 'email address', autocomplete: /^email$/, label: /e-?mail/i },
+      { purpose: 'phone number', autocomplete: /^tel(-national)?$/, label: /phone|\btel\b|mobile/i },
+      // Second and third address lines continue the first one rather than asking for it again
+      { purpose: 'street address', autocomplete: /^(street-address|address-line1)$/, label: /^(?!.*(line ?[23]|address-?[23]|\b(apt|suite|unit)\b)).*(street|address)/i },
+      { purpose: 'postal code', autocomplete: /^postal-code$/, label: /zip|postal|post ?code/i },
+      { purpose: 'city', autocomplete: /^address-level2$/, label: /\bcity\b|\btown\b/i },
+      // First and last name come before the full name, which any label mentioning a name would match
+      { purpose: 'first name', autocomplete: /^given-name$/, label: /first.?name|given.?name|forename|\bfname\b/i },
+      { purpose: 'last name', autocomplete: /^family-name$/, label: /last.?name|family.?name|surname|\blname\b/i },
+      { purpose: 'name', autocomplete: /^name$/, label: /\bname\b/i },
+    ]
+
+    const labelOf = (field: HTMLInputElement | HTMLTextAreaElement) =>
+      (field.labels?.[0]?.textContent || field.getAttribute('aria-label') || field.getAttribute('placeholder') || field.name || field.id || '')
+        .replace(/\s+/g, ' ').trim()
+
+    const purposeOf = (field: HTMLInputElement | HTMLTextAreaElement) => {
+      // The last token names the field; section-*, shipping and billing come before it
+      const token = (field.getAttribute('autocomplete') || '').trim().split(/\s+/).pop() || ''
+      const byToken = purposes.find(entry => entry.autocomplete.test(token))
+      if (byToken) return byToken.purpose
+      const text = `${labelOf(field)} ${field.name} ${field.id}`
+      return purposes.find(entry => entry.label.test(text))?.purpose || null
+    }
+
+    const found: RepeatedEntry[] = []
+    for (const form of Array.from(document.querySelectorAll('form'))) {
+      const fields = Array.from(form.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>(
+        'input:not([type]), input[type="text"], input[type="email"], input[type="tel"], textarea'
+      )).filter(field => helpers.isVisible(field))
+      const canReuse = Array.from(form.querySelectorAll<HTMLInputElement>('input[type="checkbox"], input[type="radio"]'))
+        .some(option => reuseLabel.test(labelOf(option)))
+
+      const seen = new Map<string, HTMLInputElement | HTMLTextAreaElement>()
+      const reported = new Set<string>()
+      for (const field of fields) {
+        const purpose = purposeOf(field)
+        if (!purpose) continue
+        const first = seen.get(purpose)
+        if (!first) {
+          seen.set(purpose, field)
+          continue
+        }
+        if (reported.has(purpose) || found.length >= maxResults) continue
+
+        const label = labelOf(field)
+        const confirmation = confirmationLabel.test(label) || confirmationLabel.test(field.name)
+        // A second address or contact is fine when the form offers to reuse the first one
+        if (!confirmation && canReuse) continue
+
+        reported.add(purpose)
+        found.push({
+          path: helpers.elementPath(field),
+          html: helpers.elementHtml(field),
+          purpose,
+          label: label.slice(0, 80),
+          firstPath: helpers.elementPath(first),
+          confirmation,
+        })
+      }
+    }
+
+    return found
+  }, MAX_RESULTS_PER_RULE)
+}
@@ -9,6 +9,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // axe-core's source is injected into pages as-is, so load it from node_modules
+  serverExternalPackages: ['axe-core'],
 };
 
 export default nextConfig;
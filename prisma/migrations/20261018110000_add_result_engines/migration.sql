@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "engines" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "ruleId" TEXT,
+ADD COLUMN     "wcagCriteria" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateIndex
+CREATE INDEX "Result_ruleId_idx" ON "Result"("ruleId");
@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "fingerprint" TEXT;
+
+-- CreateTable
+CREATE TABLE "Issue" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "message" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "element" TEXT,
+    "elementPath" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "reopenedCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Issue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "IssueOccurrence" (
+    "id" TEXT NOT NULL,
+    "issueId" TEXT NOT NULL,
+    "scanId" TEXT NOT NULL,
+    "resultId" TEXT,
+    "state" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IssueOccurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Result_fingerprint_idx" ON "Result"("fingerprint");
+
+-- CreateIndex
+CREATE INDEX "Issue_projectId_url_idx" ON "Issue"("projectId", "url");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Issue_projectId_fingerprint_key" ON "Issue"("projectId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "IssueOccurrence_scanId_idx" ON "IssueOccurrence"("scanId");
+
+-- CreateIndex
+CREATE INDEX "IssueOccurrence_resultId_idx" ON "IssueOccurrence"("resultId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IssueOccurrence_issueId_scanId_key" ON "IssueOccurrence"("issueId", "scanId");
+
+-- AddForeignKey
+ALTER TABLE "Issue" ADD CONSTRAINT "Issue_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IssueOccurrence" ADD CONSTRAINT "IssueOccurrence_issueId_fkey" FOREIGN KEY ("issueId") REFERENCES "Issue"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IssueOccurrence" ADD CONSTRAINT "IssueOccurrence_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "Scan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IssueOccurrence" ADD CONSTRAINT "IssueOccurrence_resultId_fkey" FOREIGN KEY ("resultId") REFERENCES "Result"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "ScanRun" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "trigger" TEXT NOT NULL DEFAULT 'manual',
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScanRun_pkey" PRIMARY KEY ("id")
+);
+
+-- Group the scans that existed before runs into one legacy run per project
+INSERT INTO "ScanRun" ("id", "projectId", "status", "trigger", "startedAt", "completedAt", "createdAt", "updatedAt")
+SELECT 'legacy-' || "projectId", "projectId", 'completed', 'legacy', MIN("createdAt"), MAX("completedAt"), MIN("createdAt"), CURRENT_TIMESTAMP
+FROM "Scan"
+GROUP BY "projectId";
+
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "runId" TEXT;
+
+UPDATE "Scan" SET "runId" = 'legacy-' || "projectId";
+
+ALTER TABLE "Scan" ALTER COLUMN "runId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ScanRun_projectId_createdAt_idx" ON "ScanRun"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Scan_runId_idx" ON "Scan"("runId");
+
+-- AddForeignKey
+ALTER TABLE "ScanRun" ADD CONSTRAINT "ScanRun_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Scan" ADD CONSTRAINT "Scan_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ScanRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "lastScheduledAt" TIMESTAMP(3),
+ADD COLUMN     "nextScheduledAt" TIMESTAMP(3),
+ADD COLUMN     "scheduleCron" TEXT,
+ADD COLUMN     "scheduleEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "scheduleTimezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- CreateIndex
+CREATE INDEX "Project_scheduleEnabled_nextScheduledAt_idx" ON "Project"("scheduleEnabled", "nextScheduledAt");
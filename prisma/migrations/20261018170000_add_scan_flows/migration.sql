@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "ScanFlow" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "steps" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScanFlow_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "flowId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "flowId" TEXT,
+ADD COLUMN     "flowStep" TEXT;
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN     "flowId" TEXT,
+ADD COLUMN     "flowStep" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ScanFlow_projectId_idx" ON "ScanFlow"("projectId");
+
+-- CreateIndex
+CREATE INDEX "Issue_projectId_flowId_idx" ON "Issue"("projectId", "flowId");
+
+-- AddForeignKey
+ALTER TABLE "ScanFlow" ADD CONSTRAINT "ScanFlow_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Scan" ADD CONSTRAINT "Scan_flowId_fkey" FOREIGN KEY ("flowId") REFERENCES "ScanFlow"("id") ON DELETE SET NULL ON UPDATE CASCADE;
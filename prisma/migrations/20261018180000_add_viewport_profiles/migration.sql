@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "viewport" TEXT NOT NULL DEFAULT 'desktop';
+
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "viewport" TEXT NOT NULL DEFAULT 'desktop';
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN     "viewport" TEXT NOT NULL DEFAULT 'desktop';
+
+-- DropIndex
+DROP INDEX "Issue_projectId_url_idx";
+
+-- CreateIndex
+CREATE INDEX "Issue_projectId_url_viewport_idx" ON "Issue"("projectId", "url", "viewport");
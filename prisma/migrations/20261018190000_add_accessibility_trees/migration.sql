@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "AccessibilityTree" (
+    "id" TEXT NOT NULL,
+    "scanId" TEXT NOT NULL,
+    "tree" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccessibilityTree_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccessibilityTree_scanId_key" ON "AccessibilityTree"("scanId");
+
+-- AddForeignKey
+ALTER TABLE "AccessibilityTree" ADD CONSTRAINT "AccessibilityTree_scanId_fkey" FOREIGN KEY ("scanId") REFERENCES "Scan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
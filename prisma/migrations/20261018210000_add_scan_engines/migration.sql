@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Scan" ADD COLUMN     "engines" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "failedEngines" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "Issue" ADD COLUMN     "engines" TEXT[] DEFAULT ARRAY[]::TEXT[];